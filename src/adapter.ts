@@ -7,14 +7,28 @@ import {
 	DriverAdapterError,
 	type IsolationLevel,
 	type SqlDriverAdapter,
-	type Transaction,
 	type TransactionOptions,
 } from "@prisma/driver-adapter-utils";
 
-import type { PrismaBunSqliteOptions } from "./types.js";
+import type {
+	BunSqliteConnectionInfo,
+	PrismaBunSqliteOptions,
+	StartTransactionOptions,
+	TransactionMode,
+} from "./types.js";
 import { convertDriverError } from "./errors.js";
-import { BunSqliteQueryable, debug } from "./queryable.js";
-import { AsyncMutex, BunSqliteTransaction } from "./transaction.js";
+import { BunSqliteQueryable, debug, invokeHook } from "./queryable.js";
+import { AsyncMutex, BunSqliteTransaction, MutexTimeoutError } from "./transaction.js";
+import { withRetry } from "./retry.js";
+import { formatPrometheusMetrics, MetricsRegistry, type MetricsSnapshot } from "./metrics.js";
+import type { StatementCacheStats } from "./statement-cache.js";
+import { readConnectionInfo } from "./connection-info.js";
+import { endSpanWithError, startSpan } from "./tracing.js";
+
+/**
+ * Valid values for `transactionMode`
+ */
+export const TRANSACTION_MODES: readonly TransactionMode[] = ["deferred", "immediate", "exclusive"];
 
 /**
  * Main BunSqlite adapter class
@@ -22,20 +36,47 @@ import { AsyncMutex, BunSqliteTransaction } from "./transaction.js";
 export class BunSqliteAdapter extends BunSqliteQueryable implements SqlDriverAdapter {
 	private transactionMutex = new AsyncMutex();
 	private disposed = false;
+	private readonly connectionInfo: BunSqliteConnectionInfo;
 
-	constructor(db: Database, adapterOptions?: PrismaBunSqliteOptions) {
-		super(db, adapterOptions);
+	/**
+	 * @param db - Open bun:sqlite database
+	 * @param adapterOptions - Runtime options (conversion, transactions)
+	 * @param closeOnDispose - Close `db` in `dispose()`; `false` leaves ownership with the caller
+	 * @param metrics - Registry fed by this adapter and its transactions
+	 * @param restoreHandle - Undoes the adapter's configuration of a handle that stays open after `dispose()`
+	 */
+	constructor(
+		db: Database,
+		adapterOptions?: PrismaBunSqliteOptions,
+		private readonly closeOnDispose = true,
+		private readonly metrics = new MetricsRegistry(),
+		private readonly restoreHandle?: (db: Database) => void,
+	) {
+		super(db, metrics.instrument(adapterOptions));
+		this.connectionInfo = readConnectionInfo(db, adapterOptions?.maxBindValues);
+		debug(
+			"[js::connect] SQLite %s, maxBindValues %d",
+			this.connectionInfo.sqliteVersion,
+			this.connectionInfo.maxBindValues,
+		);
 	}
 
 	/**
 	 * Execute multiple SQL statements (for migrations)
+	 * Clears the statement cache afterwards, since scripts usually change the schema
 	 */
 	async executeScript(script: string): Promise<void> {
 		try {
-			// Use native exec() which properly handles multiple statements
-			this.db.exec(script);
-		} catch (error: any) {
-			throw new DriverAdapterError(convertDriverError(error));
+			await this.runStatement(
+				"executeScript",
+				{ sql: script, args: [], argTypes: [] },
+				// Use native exec() which properly handles multiple statements
+				() => this.db.exec(script),
+				() => ({}),
+			);
+		} finally {
+			// A failed script may have applied part of its DDL
+			this.clearStatementCache();
 		}
 	}
 
@@ -45,8 +86,14 @@ export class BunSqliteAdapter extends BunSqliteQueryable implements SqlDriverAda
 	 *
 	 * Uses usePhantomQuery: false (like official better-sqlite3 adapter)
 	 * This means Prisma engine sends COMMIT/ROLLBACK through executeRaw()
+	 *
+	 * @param isolationLevel - Only SERIALIZABLE is supported
+	 * @param transactionOptions - Per-transaction overrides (Prisma never passes these)
 	 */
-	async startTransaction(isolationLevel?: IsolationLevel): Promise<Transaction> {
+	async startTransaction(
+		isolationLevel?: IsolationLevel,
+		transactionOptions?: StartTransactionOptions,
+	): Promise<BunSqliteTransaction> {
 		const tag = "[js::startTransaction]";
 		const options: TransactionOptions = {
 			usePhantomQuery: false,
@@ -61,16 +108,74 @@ export class BunSqliteAdapter extends BunSqliteQueryable implements SqlDriverAda
 			});
 		}
 
+		const mode = transactionOptions?.mode ?? this.adapterOptions?.transactionMode ?? "deferred";
+		if (!TRANSACTION_MODES.includes(mode)) {
+			throw new DriverAdapterError({
+				kind: "GenericJs",
+				id: 0,
+				originalMessage: `Invalid transaction mode: "${mode}". Valid modes: ${TRANSACTION_MODES.join(", ")}`,
+			});
+		}
+		// Like transactionMode at construction: read-only connections never try to take the write lock
+		if (mode !== "deferred" && this.adapterOptions?.readonly) {
+			throw new DriverAdapterError({
+				kind: "GenericJs",
+				id: 0,
+				originalMessage:
+					`Transaction mode "${mode}" cannot be used with a read-only connection: ` +
+					`it takes the write lock at BEGIN. Use "deferred" or omit the option.`,
+			});
+		}
+
+		// The transaction span covers the wait for the lock
+		const span = startSpan(this.adapterOptions?.tracing, "sqlite.transaction", {
+			"db.sqlite.transaction.mode": mode,
+		});
+
 		// Acquire mutex lock - this will wait if another transaction is active
-		const releaseLock = await this.transactionMutex.acquire();
+		const start = performance.now();
+		let releaseLock: () => void;
+		try {
+			releaseLock = await this.acquireTransactionLock();
+		} catch (error: any) {
+			const adapterError =
+				error instanceof DriverAdapterError ? error : new DriverAdapterError(convertDriverError(error));
+			endSpanWithError(span, adapterError);
+			this.metrics.recordError(adapterError.cause.kind);
+			throw error;
+		}
+		const lockWaitMs = performance.now() - start;
+		span?.setAttribute("db.sqlite.lock_wait_ms", lockWaitMs);
 
 		try {
-			// Begin transaction
-			this.db.run("BEGIN");
+			let retries = 0;
+			await withRetry(
+				this.retryPolicy,
+				tag,
+				() => this.db.run(`BEGIN ${mode.toUpperCase()}`),
+				() => retries++,
+			);
 
 			// Create transaction object - if this fails, rollback to clean up
 			try {
-				return new BunSqliteTransaction(this.db, options, this.adapterOptions, releaseLock);
+				const transaction = new BunSqliteTransaction(
+					this.db,
+					options,
+					this.adapterOptions,
+					this.statements,
+					this.codecs,
+					releaseLock,
+					{ span },
+				);
+				invokeHook("onTransaction", this.adapterOptions?.onTransaction, {
+					action: "begin",
+					depth: 0,
+					mode,
+					durationMs: performance.now() - start,
+					lockWaitMs,
+					retries,
+				});
+				return transaction;
 			} catch (constructorError: any) {
 				// Transaction object creation failed - rollback the begun transaction
 				try {
@@ -83,12 +188,37 @@ export class BunSqliteAdapter extends BunSqliteQueryable implements SqlDriverAda
 		} catch (error: any) {
 			// Release lock on any error
 			releaseLock();
-			throw new DriverAdapterError(convertDriverError(error));
+			const adapterError = new DriverAdapterError(convertDriverError(error));
+			endSpanWithError(span, adapterError);
+			this.metrics.recordError(adapterError.cause.kind);
+			throw adapterError;
+		}
+	}
+
+	/**
+	 * Wait for the transaction lock, bounded by acquireTimeoutMs
+	 */
+	private async acquireTransactionLock(): Promise<() => void> {
+		const timeoutMs = this.adapterOptions?.acquireTimeoutMs;
+		try {
+			return await this.transactionMutex.acquire(timeoutMs);
+		} catch (error) {
+			if (error instanceof MutexTimeoutError) {
+				debug("[js::startTransaction] lock not acquired within %dms", timeoutMs);
+				this.metrics.recordLockTimeout();
+				throw new DriverAdapterError({
+					kind: "TooManyConnections",
+					cause:
+						`Timed out after ${timeoutMs}ms waiting for another transaction to finish (acquireTimeoutMs). ` +
+						`SQLite runs one transaction at a time per connection.`,
+				});
+			}
+			throw error;
 		}
 	}
 
 	/**
-	 * Dispose of the adapter and close the database
+	 * Dispose of the adapter and close the database (unless ownership stays with the caller)
 	 * Waits for any active transaction to complete before closing
 	 */
 	async dispose(): Promise<void> {
@@ -98,26 +228,77 @@ export class BunSqliteAdapter extends BunSqliteQueryable implements SqlDriverAda
 		// Acquire mutex to ensure no transaction is in progress
 		const releaseLock = await this.transactionMutex.acquire();
 		try {
-			this.db.close();
+			// Finalize cached statements, also when the caller keeps using the handle
+			this.statements.clear();
+			if (this.closeOnDispose) {
+				this.db.close();
+			} else {
+				this.restoreHandle?.(this.db);
+			}
 		} finally {
 			releaseLock();
 		}
 	}
 
 	/**
-	 * Get connection info (optional)
+	 * Finalize all cached prepared statements and forget the table schemas read for column lookups
+	 * Called automatically after `executeScript()`; call it after changing the schema by other means.
 	 */
-	getConnectionInfo() {
-		return {
-			maxBindValues: 999, // SQLite default limit
-			supportsRelationJoins: true,
-		};
+	clearStatementCache(): void {
+		debug("[js::clearStatementCache] %d statements", this.statements.stats().size);
+		this.statements.clear();
+		this.codecs.clear();
+	}
+
+	/**
+	 * Prepared statement cache size and hit/miss counters
+	 */
+	getStatementCacheStats(): StatementCacheStats {
+		return this.statements.stats();
+	}
+
+	/**
+	 * Current query, transaction and lock metrics
+	 *
+	 * @example
+	 * ```typescript
+	 * const { lock, transactions } = adapter.getMetrics();
+	 * console.log(`${lock.queueDepth} transactions waiting, ${transactions.committed} committed`);
+	 * ```
+	 */
+	getMetrics(): MetricsSnapshot {
+		return this.metrics.snapshot({
+			queueDepth: this.transactionMutex.queueLength,
+			held: this.transactionMutex.isLocked,
+		});
+	}
+
+	/**
+	 * Current metrics in the Prometheus text exposition format
+	 * @param prefix - Metric name prefix (default: `bun_sqlite`)
+	 */
+	getPrometheusMetrics(prefix?: string): string {
+		return formatPrometheusMetrics(this.getMetrics(), prefix);
+	}
+
+	/**
+	 * Bind parameter limit, SQLite version and compile options of the connection
+	 * Read once when the adapter is created
+	 */
+	getConnectionInfo(): BunSqliteConnectionInfo {
+		return { ...this.connectionInfo, compileOptions: [...this.connectionInfo.compileOptions] };
 	}
 }
 
 /**
  * Factory function to create a BunSqlite adapter
+ *
+ * Wraps the handle as-is: no PRAGMA, WAL or extension setup is performed.
+ * Use `PrismaBunSqlite.fromDatabase()` to run the factory's configuration pipeline.
  */
-export function createBunSqliteAdapter(db: Database): SqlDriverAdapter {
-	return new BunSqliteAdapter(db);
+export function createBunSqliteAdapter(
+	db: Database,
+	adapterOptions?: PrismaBunSqliteOptions,
+): SqlDriverAdapter {
+	return new BunSqliteAdapter(db, adapterOptions);
 }
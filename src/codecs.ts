@@ -0,0 +1,515 @@
+/**
+ * Custom column codecs (`codecs` option)
+ *
+ * Codecs are keyed by declared type (`UUID`, `MONEY`) or by `table.column`. A declared type
+ * key matches the whole declared type or its first word, so `UUID` covers `UUID BLOB`.
+ *
+ * bun:sqlite does not report which table a result column or a bound parameter belongs to,
+ * so both are located from the SQL:
+ * - Result columns by name and declared type, in the first table of the statement that
+ *   has such a column
+ * - Parameters by the column they are inserted into, assigned to or compared with
+ *   (`"col" = ?`, `"t"."col" IN (?, ?)`, `"col" + ?`)
+ *
+ * A parameter is only matched when its column is certain: qualified by a table or alias that
+ * names a single table, or unqualified with exactly one referenced table having the column.
+ * Statements that also read from CTEs, table-valued functions or subqueries in `FROM` leave
+ * unqualified columns unmatched, since those can shadow a table's column.
+ *
+ * Anything else (function arguments, `LIMIT ?`, computed columns) uses the default conversion.
+ * The same lookup tells `mapArg()` when a `datetime` argument is bound to a `DATE` or `TIME` column,
+ * which only runs while the schema has such columns.
+ */
+
+import type { Database } from "bun:sqlite";
+import { ColumnTypeEnum } from "@prisma/driver-adapter-utils";
+
+import type { ColumnCodec } from "./types.js";
+import { mapDeclType, type ArgumentColumn } from "./conversion.js";
+
+/**
+ * Number of analyzed SQL strings kept per connection
+ */
+const MAX_ANALYZED_STATEMENTS = 500;
+
+// Tokens: whitespace and comments (skipped), string and blob literals, quoted names ("", ``, []),
+// parameters, names, numbers, operators
+const TOKEN_PATTERN = new RegExp(
+	[
+		/\s+|--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/.source,
+		/[xX]?'(?:[^']|'')*'/.source,
+		/"((?:[^"]|"")*)"|`((?:[^`]|``)*)`|\[([^\]]*)\]/.source,
+		/\?(\d*)|([:@$][A-Za-z_]\w*)/.source,
+		/([A-Za-z_\u0080-\uffff][\w$\u0080-\uffff]*)/.source,
+		/\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?/.source,
+		/(<=|>=|<>|!=|==|\|\||<<|>>|[^\s])/.source,
+	].join("|"),
+	"y",
+);
+
+/** Operators whose right-hand parameter is a value of the column on the left */
+const VALUE_OPERATORS = new Set(["=", "==", "!=", "<>", "<", "<=", ">", ">=", "+", "-"]);
+const VALUE_KEYWORDS = new Set(["LIKE", "GLOB", "IS"]);
+
+/** Keywords that can follow a table reference, so they are not taken for an alias */
+const CLAUSE_KEYWORDS = new Set([
+	"CROSS",
+	"DEFAULT",
+	"DO",
+	"EXCEPT",
+	"FULL",
+	"GROUP",
+	"HAVING",
+	"INDEXED",
+	"INNER",
+	"INTERSECT",
+	"JOIN",
+	"LEFT",
+	"LIMIT",
+	"NATURAL",
+	"NOT",
+	"ON",
+	"ORDER",
+	"OUTER",
+	"RETURNING",
+	"RIGHT",
+	"SELECT",
+	"SET",
+	"UNION",
+	"USING",
+	"VALUES",
+	"WHERE",
+	"WINDOW",
+]);
+
+type Token =
+	| { kind: "name"; value: string; quoted: boolean }
+	| { kind: "parameter"; index: number }
+	| { kind: "symbol"; value: string }
+	| { kind: "literal" };
+
+/**
+ * Column a parameter or result column belongs to, with lower-cased names
+ */
+export type ColumnTarget = { table?: string; column: string };
+
+export type StatementShape = {
+	/** Referenced tables in order of appearance, lower-cased */
+	tables: string[];
+	/** Parameter targets by zero-based parameter index */
+	parameters: (ColumnTarget | undefined)[];
+	/** Whether the statement reads from a CTE or a subquery in `FROM` / `JOIN`, whose columns have no table */
+	derivedTables: boolean;
+};
+
+type Analysis = {
+	shape: StatementShape;
+	arguments?: (ArgumentColumn | undefined)[];
+	columns?: (ColumnCodec | undefined)[];
+};
+
+/**
+ * Declared type as used for codec keys: upper-cased, without size arguments (`MONEY(10,2)` → `MONEY`)
+ */
+export function declaredTypeKey(declaredType: string): string {
+	return declaredType.replace(/\(.*$/s, "").trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+/**
+ * Codec and column type lookup for one connection, shared by the adapter and its transactions
+ */
+export class CodecRegistry {
+	/** Whether the `codecs` option defines any codec */
+	readonly hasCodecs: boolean;
+	private readonly byColumn = new Map<string, ColumnCodec>();
+	private readonly byDeclaredType = new Map<string, ColumnCodec>();
+	private readonly analyses = new Map<string, Analysis>();
+	private readonly tableColumns = new Map<string, Map<string, string>>();
+	/** `hasDateOrTimeColumns()` result, with the `schema_version` it was read at */
+	private dateOrTimeColumns?: { schemaVersion: unknown; found: boolean };
+
+	/**
+	 * @param db - Connection whose schema resolves `table.column` and declared types
+	 * @param codecs - `codecs` option
+	 */
+	constructor(
+		private readonly db: Database,
+		codecs: Record<string, ColumnCodec> = {},
+	) {
+		this.hasCodecs = Object.keys(codecs).length > 0;
+		for (const [key, codec] of Object.entries(codecs)) {
+			if (key.includes(".")) {
+				this.byColumn.set(key.toLowerCase(), codec);
+			} else {
+				this.byDeclaredType.set(declaredTypeKey(key), codec);
+			}
+		}
+	}
+
+	/**
+	 * Columns the parameters of `sql` are bound to, by zero-based parameter index
+	 * @returns `undefined` when no parameter has a known column
+	 */
+	forArguments(sql: string): (ArgumentColumn | undefined)[] | undefined {
+		const analysis = this.analyze(sql);
+		if (!("arguments" in analysis)) {
+			const columns = analysis.shape.parameters.map((target) => target && this.argumentColumn(target, analysis.shape));
+			analysis.arguments = columns.some(Boolean) ? columns : undefined;
+		}
+		return analysis.arguments;
+	}
+
+	/**
+	 * Codecs of the result columns of `sql`
+	 * @returns `undefined` when no column has a codec
+	 */
+	forColumns(
+		sql: string,
+		columnNames: string[],
+		declaredTypes: (string | null)[],
+	): (ColumnCodec | undefined)[] | undefined {
+		const analysis = this.analyze(sql);
+		if (!("columns" in analysis)) {
+			const codecs = columnNames.map((name, i) => {
+				const declaredType = declaredTypes[i];
+				// Computed columns have no declared type
+				return declaredType ? this.codecForColumn(name, declaredType, analysis.shape) : undefined;
+			});
+			analysis.columns = codecs.some(Boolean) ? codecs : undefined;
+		}
+		return analysis.columns;
+	}
+
+	/**
+	 * Whether a table declares a `DATE` or `TIME` column
+	 * Read again only when `PRAGMA schema_version` changes.
+	 */
+	hasDateOrTimeColumns(): boolean {
+		// Constant SQL - left to bun:sqlite's own cache rather than the LRU
+		const schemaVersion = this.db.query("PRAGMA schema_version").values()[0]![0];
+		let cached = this.dateOrTimeColumns;
+		if (!cached || cached.schemaVersion !== schemaVersion) {
+			const types = this.db
+				.query(
+					"SELECT DISTINCT c.type FROM sqlite_master t, pragma_table_info(t.name) c WHERE t.type = 'table'",
+				)
+				.values() as [string][];
+			const found = types.some(([type]) => {
+				const columnType = mapDeclType(String(type));
+				return columnType === ColumnTypeEnum.Date || columnType === ColumnTypeEnum.Time;
+			});
+			cached = this.dateOrTimeColumns = { schemaVersion, found };
+		}
+		return cached.found;
+	}
+
+	/**
+	 * Forget analyzed statements and table schemas, after a schema change
+	 */
+	clear(): void {
+		this.analyses.clear();
+		this.tableColumns.clear();
+		this.dateOrTimeColumns = undefined;
+	}
+
+	private analyze(sql: string): Analysis {
+		let analysis = this.analyses.get(sql);
+		if (!analysis) {
+			if (this.analyses.size >= MAX_ANALYZED_STATEMENTS) {
+				// Oldest first
+				this.analyses.delete(this.analyses.keys().next().value!);
+			}
+			analysis = { shape: analyzeStatement(sql) };
+			this.analyses.set(sql, analysis);
+		}
+		return analysis;
+	}
+
+	private argumentColumn(target: ColumnTarget, shape: StatementShape): ArgumentColumn | undefined {
+		// A wrong guess converts the argument for another column: a DATE column truncates timestamps
+		const table = target.table ?? this.onlyTableWith(target.column, shape);
+		if (table === undefined) return undefined;
+
+		const declaredType = this.columnsOf(table).get(target.column);
+		const codec =
+			this.byColumn.get(`${table}.${target.column}`) ??
+			(declaredType ? this.codecForDeclaredType(declaredTypeKey(declaredType)) : undefined);
+		const columnType = declaredType ? mapDeclType(declaredType) : null;
+		return codec || columnType !== null ? { codec, columnType } : undefined;
+	}
+
+	private codecForColumn(name: string, declaredType: string, shape: StatementShape): ColumnCodec | undefined {
+		const column = name.toLowerCase();
+		const key = declaredTypeKey(declaredType);
+		const table = shape.tables.find((table) => {
+			const tableType = this.columnsOf(table).get(column);
+			return tableType !== undefined && declaredTypeKey(tableType) === key;
+		});
+		return (table !== undefined && this.byColumn.get(`${table}.${column}`)) || this.codecForDeclaredType(key);
+	}
+
+	/**
+	 * The referenced table an unqualified column belongs to, when no other name in scope could have it
+	 */
+	private onlyTableWith(column: string, shape: StatementShape): string | undefined {
+		if (shape.derivedTables) return undefined;
+		const tables = [...new Set(shape.tables)];
+		// CTEs and table-valued functions have no schema to check
+		if (tables.some((table) => this.columnsOf(table).size === 0)) return undefined;
+		const matches = tables.filter((table) => this.columnsOf(table).has(column));
+		return matches.length === 1 ? matches[0] : undefined;
+	}
+
+	/**
+	 * Codec of the whole declared type (`UUID BLOB`), else of its first word (`UUID`)
+	 */
+	private codecForDeclaredType(key: string): ColumnCodec | undefined {
+		return this.byDeclaredType.get(key) ?? this.byDeclaredType.get(key.split(" ", 1)[0]!);
+	}
+
+	/**
+	 * Declared types by lower-cased column name; empty for unknown tables
+	 */
+	private columnsOf(table: string): Map<string, string> {
+		let columns = this.tableColumns.get(table);
+		if (!columns) {
+			// Constant SQL - left to bun:sqlite's own cache rather than the LRU
+			const rows = this.db.query("SELECT name, type FROM pragma_table_info(?)").values(table) as [string, string][];
+			columns = new Map(rows.map(([name, type]) => [String(name).toLowerCase(), String(type)]));
+			this.tableColumns.set(table, columns);
+		}
+		return columns;
+	}
+}
+
+/**
+ * Split SQL into the tokens the analysis needs
+ */
+function tokenize(sql: string): Token[] {
+	const tokens: Token[] = [];
+	const named = new Map<string, number>();
+	let nextIndex = 0;
+	TOKEN_PATTERN.lastIndex = 0;
+
+	while (TOKEN_PATTERN.lastIndex < sql.length) {
+		const match = TOKEN_PATTERN.exec(sql);
+		if (!match) break;
+		const [text, doubleQuoted, backticked, bracketed, numbered, namedParameter, word, symbol] = match;
+
+		if (doubleQuoted !== undefined || backticked !== undefined || bracketed !== undefined) {
+			const value =
+				doubleQuoted?.replaceAll('""', '"') ?? backticked?.replaceAll("``", "`") ?? bracketed ?? "";
+			tokens.push({ kind: "name", value, quoted: true });
+		} else if (numbered !== undefined) {
+			// `?` takes the index after the largest one assigned so far, `?NNN` its own
+			const index = numbered === "" ? nextIndex : Number(numbered) - 1;
+			nextIndex = Math.max(nextIndex, index + 1);
+			tokens.push({ kind: "parameter", index });
+		} else if (namedParameter !== undefined) {
+			let index = named.get(namedParameter);
+			if (index === undefined) {
+				index = nextIndex++;
+				named.set(namedParameter, index);
+			}
+			tokens.push({ kind: "parameter", index });
+		} else if (word !== undefined) {
+			tokens.push({ kind: "name", value: word, quoted: false });
+		} else if (symbol !== undefined) {
+			tokens.push({ kind: "symbol", value: symbol });
+		} else if (/^[xX']|^[\d.]/.test(text)) {
+			tokens.push({ kind: "literal" });
+		}
+	}
+	return tokens;
+}
+
+/**
+ * Find the tables a statement references and the column each parameter belongs to
+ */
+export function analyzeStatement(sql: string): StatementShape {
+	const tokens = tokenize(sql);
+	const tables: string[] = [];
+	// Table names and aliases; null for a name bound to different tables (an alias reused in a subquery)
+	const aliases = new Map<string, string | null>();
+	const parameters: (ColumnTarget | undefined)[] = [];
+	const cteNames = new Set<string>();
+	let derivedTables = false;
+
+	const isKeyword = (i: number, keyword: string) => {
+		const token = tokens[i];
+		return token?.kind === "name" && !token.quoted && token.value.toUpperCase() === keyword;
+	};
+	const isSymbol = (i: number, value: string) => {
+		const token = tokens[i];
+		return token?.kind === "symbol" && token.value === value;
+	};
+	const bind = (name: string, table: string) => {
+		const bound = aliases.get(name);
+		aliases.set(name, bound === undefined || bound === table ? table : null);
+	};
+
+	/**
+	 * Read `[schema.]table [[AS] alias]` at `i`
+	 * @returns Index after the reference
+	 */
+	const readTable = (i: number): number => {
+		if (tokens[i]?.kind !== "name") return i;
+		let table = (tokens[i] as { value: string }).value;
+		let schemaQualified = false;
+		i++;
+		while (isSymbol(i, ".") && tokens[i + 1]?.kind === "name") {
+			table = (tokens[i + 1] as { value: string }).value;
+			schemaQualified = true;
+			i += 2;
+		}
+		table = table.toLowerCase();
+		// A CTE hides the table of the same name
+		const cte = !schemaQualified && cteNames.has(table);
+		if (cte) {
+			derivedTables = true;
+			aliases.set(table, null);
+		} else {
+			tables.push(table);
+			bind(table, table);
+		}
+
+		if (isKeyword(i, "AS")) i++;
+		const alias = tokens[i];
+		if (alias?.kind === "name" && (alias.quoted || !CLAUSE_KEYWORDS.has(alias.value.toUpperCase()))) {
+			if (cte) {
+				aliases.set(alias.value.toLowerCase(), null);
+			} else {
+				bind(alias.value.toLowerCase(), table);
+			}
+			i++;
+		}
+		return i;
+	};
+
+	/**
+	 * Column reference (`col`, `t.col`, `schema.t.col`) ending at `i`
+	 * Qualifiers that name no table of the statement, or several, are left unresolved
+	 */
+	const columnEndingAt = (i: number): ColumnTarget | undefined => {
+		const last = tokens[i];
+		if (last?.kind !== "name") return undefined;
+		const column = last.value.toLowerCase();
+		const qualifier = isSymbol(i - 1, ".") ? tokens[i - 2] : undefined;
+		if (qualifier?.kind !== "name") return { column };
+		const table = aliases.get(qualifier.value.toLowerCase());
+		return table ? { table, column } : undefined;
+	};
+
+	// First pass: CTE names, tables, aliases and INSERT column lists
+	let insert: { table: string; columns: string[]; valuesStart?: number } | undefined;
+	for (let i = 0; i < tokens.length; i++) {
+		// WITH [RECURSIVE] name [(columns)] AS [[NOT] MATERIALIZED] (...), name AS (...)
+		const name = tokens[i + 1];
+		if ((isKeyword(i, "WITH") || isKeyword(i, "RECURSIVE") || isSymbol(i, ",")) && name?.kind === "name") {
+			let j = i + 2;
+			if (isSymbol(j, "(")) {
+				while (j < tokens.length && !isSymbol(j, ")")) j++;
+				j++;
+			}
+			if (isKeyword(j, "AS")) {
+				j++;
+				if (isKeyword(j, "NOT")) j++;
+				if (isKeyword(j, "MATERIALIZED")) j++;
+				if (isSymbol(j, "(")) cteNames.add(name.value.toLowerCase());
+			}
+		}
+
+		if (isKeyword(i, "FROM") || isKeyword(i, "JOIN") || isKeyword(i, "INTO") || isKeyword(i, "UPDATE")) {
+			// ON CONFLICT ... DO UPDATE SET
+			if (isKeyword(i, "UPDATE") && isKeyword(i - 1, "DO")) continue;
+			let next = i + 1;
+			// UPDATE OR REPLACE ...
+			if (isKeyword(i, "UPDATE") && isKeyword(next, "OR")) next += 2;
+			if (isSymbol(next, "(")) {
+				// FROM (SELECT ...), JOIN (SELECT ...)
+				derivedTables = true;
+				continue;
+			}
+			const end = readTable(next);
+			if (end === next) continue;
+
+			if (isKeyword(i, "INTO") && isSymbol(end, "(") && insert === undefined) {
+				const columns: string[] = [];
+				let j = end + 1;
+				for (; j < tokens.length && !isSymbol(j, ")"); j++) {
+					const token = tokens[j]!;
+					if (token.kind === "name") columns.push(token.value.toLowerCase());
+				}
+				insert = { table: tables[tables.length - 1]!, columns };
+				if (isKeyword(j + 1, "VALUES")) insert.valuesStart = j + 2;
+			}
+
+			// FROM a, b
+			let after = end;
+			while (isKeyword(i, "FROM") && isSymbol(after, ",") && tokens[after + 1]?.kind === "name") {
+				after = readTable(after + 1);
+			}
+			if (isKeyword(i, "FROM") && isSymbol(after, ",") && isSymbol(after + 1, "(")) derivedTables = true;
+			i = after - 1;
+		}
+	}
+
+	// Second pass: parameter targets
+	let valuesEnd = -1;
+	if (insert?.valuesStart !== undefined) {
+		// VALUES (?, ?), (?, ?): parameters directly inside a row take the column at their position
+		let depth = 0;
+		let column = 0;
+		let i = insert.valuesStart;
+		for (; i < tokens.length; i++) {
+			const token = tokens[i]!;
+			if (isSymbol(i, "(")) {
+				if (depth === 0) column = 0;
+				depth++;
+			} else if (isSymbol(i, ")")) {
+				depth--;
+			} else if (depth === 1 && isSymbol(i, ",")) {
+				column++;
+			} else if (depth === 1 && token.kind === "parameter") {
+				const name = insert.columns[column];
+				parameters[token.index] = name === undefined ? undefined : { table: insert.table, column: name };
+			} else if (depth === 0 && !isSymbol(i, ",")) {
+				break;
+			}
+		}
+		valuesEnd = i;
+	}
+
+	for (let i = valuesEnd < 0 ? 0 : valuesEnd; i < tokens.length; i++) {
+		const token = tokens[i]!;
+		if (token.kind !== "parameter") continue;
+
+		// col [NOT] IN (?, ?, ?)
+		let j = i - 1;
+		while (isSymbol(j, ",") || tokens[j]?.kind === "parameter") j--;
+		if (isSymbol(j, "(") && isKeyword(j - 1, "IN")) {
+			j -= 2;
+			if (isKeyword(j, "NOT")) j--;
+			parameters[token.index] ??= columnEndingAt(j);
+			continue;
+		}
+
+		// col = ?, col LIKE ?, col IS NOT ?, col + ?
+		j = i - 1;
+		while (isSymbol(j, "(")) j--;
+		const operator = tokens[j];
+		if (operator?.kind === "symbol" && VALUE_OPERATORS.has(operator.value)) {
+			j--;
+		} else if (isKeyword(j, "NOT") && isKeyword(j - 1, "IS")) {
+			j -= 2;
+		} else if (operator?.kind === "name" && !operator.quoted && VALUE_KEYWORDS.has(operator.value.toUpperCase())) {
+			j--;
+			if (isKeyword(j, "NOT")) j--;
+		} else {
+			continue;
+		}
+		parameters[token.index] ??= columnEndingAt(j);
+	}
+
+	return { tables, parameters, derivedTables };
+}
@@ -0,0 +1,70 @@
+/**
+ * SQLite library limits reported through `getConnectionInfo()`
+ *
+ * Prisma splits `createMany` and large `IN (...)` filters into chunks of at most
+ * `maxBindValues` parameters, so reporting the real limit of the linked library
+ * (Bun's bundled SQLite or `customSqliteLibrary`) saves most of those statements.
+ */
+
+import type { Database } from "bun:sqlite";
+
+import type { BunSqliteConnectionInfo } from "./types.js";
+
+/**
+ * `SQLITE_MAX_VARIABLE_NUMBER` default before SQLite 3.32.0
+ */
+export const LEGACY_MAX_VARIABLE_NUMBER = 999;
+
+/**
+ * `SQLITE_MAX_VARIABLE_NUMBER` default since SQLite 3.32.0
+ */
+export const DEFAULT_MAX_VARIABLE_NUMBER = 32766;
+
+const MAX_VARIABLE_NUMBER_PATTERN = /^MAX_VARIABLE_NUMBER=(\d+)$/;
+
+/**
+ * Read the version, compile options and bind parameter limit of the library behind `db`
+ *
+ * `PRAGMA compile_options` only lists `MAX_VARIABLE_NUMBER` when the library was built
+ * with a non-default value; otherwise the default of its version applies.
+ *
+ * @param db - Open connection
+ * @param maxBindValues - `maxBindValues` option, used instead of the detected limit
+ */
+export function readConnectionInfo(db: Database, maxBindValues?: number): BunSqliteConnectionInfo {
+	// Prepared and finalized directly: these run once per connection
+	const versionStmt = db.prepare("SELECT sqlite_version()");
+	const optionsStmt = db.prepare("PRAGMA compile_options");
+	let sqliteVersion: string;
+	let compileOptions: string[];
+	try {
+		sqliteVersion = String((versionStmt.values()[0] as unknown[])[0]);
+		compileOptions = optionsStmt.values().map((row) => String(row[0]));
+	} finally {
+		versionStmt.finalize();
+		optionsStmt.finalize();
+	}
+
+	return {
+		maxBindValues: maxBindValues ?? detectMaxVariableNumber(sqliteVersion, compileOptions),
+		supportsRelationJoins: true,
+		sqliteVersion,
+		compileOptions,
+	};
+}
+
+/**
+ * Bind parameter limit from the compile options, or the default of `version`
+ *
+ * @param version - `sqlite_version()`, e.g. `3.45.1`
+ * @param compileOptions - `PRAGMA compile_options` rows
+ */
+export function detectMaxVariableNumber(version: string, compileOptions: string[]): number {
+	for (const option of compileOptions) {
+		const match = MAX_VARIABLE_NUMBER_PATTERN.exec(option);
+		if (match) return Number(match[1]);
+	}
+
+	const [major = 0, minor = 0] = version.split(".").map(Number);
+	return major > 3 || (major === 3 && minor >= 32) ? DEFAULT_MAX_VARIABLE_NUMBER : LEGACY_MAX_VARIABLE_NUMBER;
+}
@@ -4,6 +4,73 @@
 
 import { ColumnTypeEnum, type ArgType, type ColumnType } from "@prisma/driver-adapter-utils";
 
+import { canonicalJson, stringifyJson } from "./json.js";
+import type { ColumnCodec, TimestampFormat } from "./types.js";
+
+/**
+ * Column an argument is bound to, when `CodecRegistry` could locate it in the SQL
+ */
+export type ArgumentColumn = {
+	/** Codec from the `codecs` option */
+	codec?: ColumnCodec;
+	/** Type mapped from the column's declared type */
+	columnType: ColumnType | null;
+};
+
+/**
+ * Conversion settings, resolved from the adapter options
+ */
+export type ConversionOptions = {
+	timestampFormat: TimestampFormat;
+	/** Accept any timestamp format per value when reading DateTime columns (`tolerantTimestamps`) */
+	tolerantTimestamps: boolean;
+	allowBigIntToNumberConversion: boolean;
+	decimalStorage: "real" | "text";
+	/** Return BLOBs as read instead of `number[]` (`bytesOutput`) */
+	bytesOutput: "array" | "uint8array";
+	/** Rewrite `Json` arguments with sorted keys (`canonicalJson`) */
+	canonicalJson: boolean;
+	/** Reject `Json` arguments that are not valid JSON (`validateJson`) */
+	validateJson: boolean;
+	/** Convert a JSONB blob read from a `Json` column to JSON text */
+	decodeJsonb: (blob: Uint8Array) => string;
+};
+
+export const TIMESTAMP_FORMATS: readonly TimestampFormat[] = [
+	"iso8601",
+	"unixepoch-ms",
+	"unixepoch-s",
+	"julianday",
+	"sqlite-text",
+];
+
+const MS_PER_DAY = 86_400_000;
+const UNIX_EPOCH_JULIAN_DAY = 2440587.5;
+
+/**
+ * Upper bounds of SQLite's `auto` modifier: Julian day numbers up to 9999-12-31,
+ * then Unix seconds up to 9999-12-31T23:59:59
+ */
+const MAX_AUTO_JULIAN_DAY = 5373484.5;
+const MAX_AUTO_UNIX_SECONDS = 253402300799;
+
+/**
+ * Date and time text accepted by SQLite's date functions: `YYYY-MM-DD`, optionally
+ * followed by `HH:MM[:SS[.SSS]]` (after a space or `T`) and a time zone
+ */
+const SQLITE_TIME_PATTERN =
+	/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2})(?::(\d{2})(?:\.(\d+))?)?)?\s*(Z|[+-]\d{2}:\d{2})?$/i;
+
+const TIME_OF_DAY_PATTERN = /^\d{2}:\d{2}/;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Largest distance of the decimal point from the first digit accepted by `canonicalDecimal()`
+ * (far beyond the REAL range, but stops `1e999999999` from expanding to a billion zeros)
+ */
+const MAX_DECIMAL_SCALE = 1000;
+
 /**
  * Maps SQLite column type declarations to Prisma ColumnType enum
  * Handles type variants with length specifiers (e.g., VARCHAR(255))
@@ -67,6 +134,10 @@ export function mapDeclType(declType: string): ColumnType | null {
 		case "NVARCHAR":
 			return ColumnTypeEnum.Text;
 		case "BLOB":
+		// Vector types (libSQL, sqlite-vec), stored as BLOBs; see vector.ts
+		case "F32_BLOB":
+		case "VECTOR":
+		case "I8_BLOB":
 			return ColumnTypeEnum.Bytes;
 		case "BOOLEAN":
 			return ColumnTypeEnum.Boolean;
@@ -140,6 +211,23 @@ export function getColumnTypes(
 	});
 }
 
+/**
+ * Runtime types (as reported by `stmt.columnTypes`) derived from the values of a row
+ *
+ * Used while iterating, where reading `stmt.columnTypes` would reset the statement.
+ * Without safeIntegers an INTEGER and a whole REAL value are indistinguishable; both
+ * are reported as INTEGER.
+ */
+export function runtimeTypesFromRow(values: unknown[]): (string | null)[] {
+	return values.map((value) => {
+		if (typeof value === "bigint") return "INTEGER";
+		if (typeof value === "number") return Number.isInteger(value) ? "INTEGER" : "FLOAT";
+		if (typeof value === "string") return "TEXT";
+		if (value instanceof Uint8Array || value instanceof ArrayBuffer) return "BLOB";
+		return "NULL";
+	});
+}
+
 /**
  * Infers column type from an actual value
  * Used when both declaredTypes and runtimeTypes are unavailable
@@ -177,24 +265,49 @@ function inferTypeFromValue(value: unknown): ColumnType | null {
  *
  * @param row - Raw row values from SQLite
  * @param columnTypes - Column type information for proper conversion
- * @param allowBigIntToNumberConversion - When true, BigInt values in timestamp range are converted to numbers
+ * @param options - Conversion settings (BigInt to number conversion, decimal storage)
+ * @param result - Array receiving the converted values; pass `row` to convert it in place
+ * @param codecs - Codecs of the columns (`codecs` option), if any
  */
 export function mapRow(
 	row: unknown[],
 	columnTypes: ColumnType[],
-	allowBigIntToNumberConversion = false,
+	options: ConversionOptions,
+	result: unknown[] = new Array(row.length),
+	codecs?: readonly (ColumnCodec | undefined)[],
 ): unknown[] {
-	const result: unknown[] = new Array(row.length);
 	for (let i = 0; i < row.length; i++) {
 		const value = row[i];
 
-		// Handle BLOB/Bytes - convert to array of numbers
+		const decode = codecs?.[i]?.decode;
+		if (decode && value !== null) {
+			result[i] = decode(value);
+			continue;
+		}
+
+		// JSONB (SQLite 3.45+) in a JSON column - Prisma expects JSON text
+		if (value instanceof Uint8Array && columnTypes[i] === ColumnTypeEnum.Json) {
+			result[i] = options.decodeJsonb(value);
+			continue;
+		}
+
+		// Handle BLOB/Bytes - convert to array of numbers, unless Uint8Arrays are requested
 		if (value instanceof ArrayBuffer) {
-			result[i] = Array.from(new Uint8Array(value));
+			result[i] = options.bytesOutput === "uint8array" ? new Uint8Array(value) : Array.from(new Uint8Array(value));
 			continue;
 		}
 		if (value instanceof Uint8Array || Buffer.isBuffer(value)) {
-			result[i] = Array.from(value);
+			result[i] = options.bytesOutput === "uint8array" ? value : Array.from(value);
+			continue;
+		}
+
+		// Decimal columns hold REAL (or INTEGER) values under NUMERIC affinity - return exact strings
+		if (
+			options.decimalStorage === "text" &&
+			columnTypes[i] === ColumnTypeEnum.Numeric &&
+			(typeof value === "number" || typeof value === "bigint")
+		) {
+			result[i] = canonicalDecimal(value);
 			continue;
 		}
 
@@ -208,12 +321,14 @@ export function mapRow(
 			continue;
 		}
 
-		// Handle DateTime - convert to ISO string
+		// Handle DateTime, Date and Time - convert to ISO 8601 text
 		if (
-			(typeof value === "number" || typeof value === "bigint") &&
-			columnTypes[i] === ColumnTypeEnum.DateTime
+			(columnTypes[i] === ColumnTypeEnum.DateTime ||
+				columnTypes[i] === ColumnTypeEnum.Date ||
+				columnTypes[i] === ColumnTypeEnum.Time) &&
+			value !== null
 		) {
-			result[i] = new Date(Number(value)).toISOString();
+			result[i] = readTimestamp(value, options, columnTypes[i]);
 			continue;
 		}
 
@@ -223,7 +338,7 @@ export function mapRow(
 			// to numbers. This fixes DateTime aggregate functions (_min, _max) when using
 			// unixepoch-ms timestamp format, as Prisma can then correctly parse the numeric value.
 			// Range: 0 (1970) to ~7300000000000 (year 2200) covers all reasonable timestamps.
-			if (allowBigIntToNumberConversion && value >= 0n && value <= 7_300_000_000_000n) {
+			if (options.allowBigIntToNumberConversion && value >= 0n && value <= 7_300_000_000_000n) {
 				result[i] = Number(value);
 			} else {
 				result[i] = value.toString();
@@ -240,18 +355,20 @@ export function mapRow(
 /**
  * Maps arguments from Prisma format to SQLite format
  * Matches the official Prisma better-sqlite3 adapter argument handling
+ *
+ * @param column - Column the argument is bound to, when known
  */
-export function mapArg(
-	arg: unknown,
-	argType: ArgType,
-	timestampFormat: "iso8601" | "unixepoch-ms",
-): unknown {
+export function mapArg(arg: unknown, argType: ArgType, options: ConversionOptions, column?: ArgumentColumn): unknown {
 	if (arg === null) {
 		return null;
 	}
 
+	if (column?.codec?.encode) {
+		return column.codec.encode(arg, argType);
+	}
+
 	// SQLite does not natively support booleans - convert to 1/0
-	if (typeof arg === "boolean") {
+	if (typeof arg === "boolean" && argType.scalarType !== "json") {
 		return arg ? 1 : 0;
 	}
 
@@ -260,38 +377,222 @@ export function mapArg(
 		case "int":
 			return typeof arg === "string" ? Number.parseInt(arg) : arg;
 
-		case "float":
 		case "decimal":
-			// Note: decimal can lose precision, but SQLite does not have a native decimal type
+			// Decimal strings are bound as-is (normalized) so no digits are lost before SQLite sees them
+			if (options.decimalStorage === "text") {
+				return typeof arg === "string" || typeof arg === "number" || typeof arg === "bigint"
+					? canonicalDecimal(arg)
+					: arg;
+			}
+			// Note: "real" storage can lose precision, but SQLite does not have a native decimal type
+			return typeof arg === "string" ? Number.parseFloat(arg) : arg;
+
+		case "float":
 			return typeof arg === "string" ? Number.parseFloat(arg) : arg;
 
 		case "bigint":
 			return typeof arg === "string" ? BigInt(arg) : arg;
 
+		case "json":
+			// Prisma sends JSON text; other values are serialized here
+			if (typeof arg !== "string") return stringifyJson(arg);
+			if (options.canonicalJson) return canonicalJson(arg);
+			if (options.validateJson) {
+				try {
+					JSON.parse(arg);
+				} catch (error: any) {
+					throw new Error(`Invalid JSON argument: ${error.message}`);
+				}
+			}
+			return arg;
+
 		case "datetime": {
 			// Convert string to Date if needed
 			const date = typeof arg === "string" ? new Date(arg) : arg;
 			if (date instanceof Date) {
-				if (timestampFormat === "unixepoch-ms") {
-					return date.getTime();
-				}
-				// Use +00:00 suffix instead of Z for better SQLite compatibility
-				// Matches official @prisma/adapter-better-sqlite3 behavior
-				return date.toISOString().replace("Z", "+00:00");
+				return writeTimestamp(date, options.timestampFormat, column?.columnType ?? undefined);
 			}
 			return date;
 		}
 
 		case "bytes":
+			// Prisma sends Bytes as base64, so decoding is the one copy; Uint8Arrays are bound as-is
 			if (typeof arg === "string") {
 				return Buffer.from(arg, "base64");
 			}
 			if (Array.isArray(arg)) {
 				return Buffer.from(arg);
 			}
+			// Float32Array and other typed arrays (vector embeddings) are bound as their bytes
+			if (ArrayBuffer.isView(arg) && !(arg instanceof Uint8Array)) {
+				return new Uint8Array(arg.buffer, arg.byteOffset, arg.byteLength);
+			}
 			return arg;
 
 		default:
 			return arg;
 	}
 }
+
+/**
+ * Normalize a decimal to plain notation without redundant zeros
+ * (`"1.50"` → `"1.5"`, `"1e-7"` → `"0.0000001"`, `-0` → `"0"`)
+ *
+ * Equal amounts get identical strings, so they compare equal as TEXT.
+ *
+ * @throws Error for values that are not finite decimals (`NaN`, `Infinity`, `"abc"`)
+ */
+export function canonicalDecimal(value: string | number | bigint): string {
+	const text = typeof value === "string" ? value.trim() : String(value);
+	const match = DECIMAL_PATTERN.exec(text);
+	if (!match || (match[2] === "" && !match[3])) {
+		throw new Error(`Invalid decimal value: ${JSON.stringify(text)}`);
+	}
+
+	const [, sign, integerPart = "", fractionPart = "", exponent = "0"] = match;
+	let digits = integerPart + fractionPart;
+	// Position of the decimal point within `digits`
+	let point = integerPart.length + Number(exponent);
+
+	const leadingZeros = /^0*/.exec(digits)![0].length;
+	digits = digits.slice(leadingZeros).replace(/0+$/, "");
+	point -= leadingZeros;
+	if (digits === "") return "0";
+
+	if (Math.abs(point) > MAX_DECIMAL_SCALE) {
+		throw new Error(`Decimal value out of range: ${JSON.stringify(text)}`);
+	}
+
+	let plain: string;
+	if (point <= 0) {
+		plain = `0.${"0".repeat(-point)}${digits}`;
+	} else if (point >= digits.length) {
+		plain = digits + "0".repeat(point - digits.length);
+	} else {
+		plain = `${digits.slice(0, point)}.${digits.slice(point)}`;
+	}
+	return sign === "-" ? `-${plain}` : plain;
+}
+
+/**
+ * Convert a Date argument to `format`
+ *
+ * For `DATE` columns only the UTC date is kept (`YYYY-MM-DD`, or midnight in the numeric
+ * formats), and for `TIME` columns only the UTC time of day (`HH:MM:SS.sss`, or that time
+ * on 1970-01-01 in the numeric formats).
+ *
+ * @param columnType - Type of the column the argument is bound to
+ */
+export function writeTimestamp(
+	date: Date,
+	format: TimestampFormat,
+	columnType: ColumnType = ColumnTypeEnum.DateTime,
+): string | number {
+	const textFormat = format === "iso8601" || format === "sqlite-text";
+	if (columnType === ColumnTypeEnum.Date) {
+		const day = date.toISOString().slice(0, 10);
+		return textFormat ? day : writeTimestamp(new Date(`${day}T00:00:00Z`), format);
+	}
+	if (columnType === ColumnTypeEnum.Time) {
+		if (!textFormat) {
+			const timeOfDay = ((date.getTime() % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY;
+			return writeTimestamp(new Date(timeOfDay), format);
+		}
+		const time = date.toISOString().slice(11, 23);
+		// Like datetimes, sqlite-text only shows milliseconds when present
+		return format === "sqlite-text" ? time.replace(/\.000$/, "") : time;
+	}
+
+	switch (format) {
+		case "unixepoch-ms":
+			return date.getTime();
+		case "unixepoch-s":
+			return date.getTime() / 1000;
+		case "julianday":
+			return date.getTime() / MS_PER_DAY + UNIX_EPOCH_JULIAN_DAY;
+		case "sqlite-text":
+			// Milliseconds only when present, so whole seconds match CURRENT_TIMESTAMP values
+			return date.toISOString().replace("T", " ").replace(/(?:\.000)?Z$/, "");
+		default:
+			// Use +00:00 suffix instead of Z for better SQLite compatibility
+			// Matches official @prisma/adapter-better-sqlite3 behavior
+			return date.toISOString().replace("Z", "+00:00");
+	}
+}
+
+/**
+ * Convert a non-null value read from a DateTime, Date or Time column to ISO 8601 text
+ *
+ * Numbers are read in the configured format (milliseconds for the text formats). With
+ * `tolerantTimestamps` and a text format, numbers are read by magnitude instead. Date columns return `YYYY-MM-DD` and Time columns
+ * `HH:MM:SS.sss`, both in UTC. Text that is not in a recognized form is returned
+ * unchanged for Prisma to parse.
+ *
+ * @param columnType - `DateTime`, `Date` or `Time`
+ */
+export function readTimestamp(
+	value: unknown,
+	options: ConversionOptions,
+	columnType: ColumnType = ColumnTypeEnum.DateTime,
+): unknown {
+	let iso: string | undefined;
+	if (typeof value === "number" || typeof value === "bigint") {
+		const number = Number(value);
+		// A numeric timestampFormat says how numbers are stored: only guess when it is a text format
+		const numericFormat = options.timestampFormat !== "iso8601" && options.timestampFormat !== "sqlite-text";
+		const format =
+			options.tolerantTimestamps && !numericFormat ? detectNumericFormat(number) : options.timestampFormat;
+		iso = new Date(timestampToMs(number, format)).toISOString();
+	} else if (typeof value === "string") {
+		if (columnType === ColumnTypeEnum.Time && TIME_OF_DAY_PATTERN.test(value)) {
+			iso = parseSqliteTime(`1970-01-01 ${value}`);
+		} else if (
+			columnType !== ColumnTypeEnum.DateTime ||
+			options.tolerantTimestamps ||
+			options.timestampFormat === "sqlite-text"
+		) {
+			iso = parseSqliteTime(value);
+		}
+	}
+
+	if (iso === undefined) return value;
+	if (columnType === ColumnTypeEnum.Date) return iso.slice(0, 10);
+	if (columnType === ColumnTypeEnum.Time) return iso.slice(11, 23);
+	return iso;
+}
+
+/**
+ * Numeric timestamp format by magnitude, like SQLite's `auto` modifier
+ * (which reads values beyond the Unix seconds range as invalid, not as milliseconds)
+ */
+function detectNumericFormat(value: number): TimestampFormat {
+	if (value >= 0 && value <= MAX_AUTO_JULIAN_DAY) return "julianday";
+	if (Math.abs(value) <= MAX_AUTO_UNIX_SECONDS) return "unixepoch-s";
+	return "unixepoch-ms";
+}
+
+function timestampToMs(value: number, format: TimestampFormat): number {
+	switch (format) {
+		case "unixepoch-s":
+			// Rounded: binary fractions of seconds and days are not exact milliseconds
+			return Math.round(value * 1000);
+		case "julianday":
+			return Math.round((value - UNIX_EPOCH_JULIAN_DAY) * MS_PER_DAY);
+		default:
+			return value;
+	}
+}
+
+/**
+ * Parse SQLite date and time text as UTC unless it has a time zone
+ * @returns ISO 8601 string, or `undefined` when `text` is not in a recognized form
+ */
+function parseSqliteTime(text: string): string | undefined {
+	const match = SQLITE_TIME_PATTERN.exec(text);
+	if (!match) return undefined;
+
+	const [, date, hoursMinutes = "00:00", seconds = "00", fraction = "", zone = "Z"] = match;
+	const milliseconds = fraction.padEnd(3, "0").slice(0, 3);
+	const parsed = new Date(`${date}T${hoursMinutes}:${seconds}.${milliseconds}${zone.toUpperCase()}`);
+	return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
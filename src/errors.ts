@@ -34,6 +34,17 @@ export const SQLITE_ERROR_MAP: Record<number, string> = {
 	25: "SQLITE_RANGE",
 	26: "SQLITE_NOTADB",
 	// Extended result codes
+	261: "SQLITE_BUSY_RECOVERY",
+	517: "SQLITE_BUSY_SNAPSHOT",
+	773: "SQLITE_BUSY_TIMEOUT",
+	262: "SQLITE_LOCKED_SHAREDCACHE",
+	518: "SQLITE_LOCKED_VTAB",
+	264: "SQLITE_READONLY_RECOVERY",
+	520: "SQLITE_READONLY_CANTLOCK",
+	776: "SQLITE_READONLY_ROLLBACK",
+	1032: "SQLITE_READONLY_DBMOVED",
+	1288: "SQLITE_READONLY_CANTINIT",
+	1544: "SQLITE_READONLY_DIRECTORY",
 	2067: "SQLITE_CONSTRAINT_UNIQUE",
 	1555: "SQLITE_CONSTRAINT_PRIMARYKEY",
 	787: "SQLITE_CONSTRAINT_NOTNULL",
@@ -73,11 +84,30 @@ export function convertDriverError(error: any): any {
 	// Reference: https://www.sqlite.org/rescode.html
 	switch (code) {
 		case "SQLITE_BUSY":
+		case "SQLITE_BUSY_RECOVERY":
+		case "SQLITE_BUSY_SNAPSHOT": // Deferred transaction could not upgrade its read lock
+		case "SQLITE_BUSY_TIMEOUT":
+		case "SQLITE_LOCKED":
+		case "SQLITE_LOCKED_SHAREDCACHE":
+		case "SQLITE_LOCKED_VTAB":
 			return {
 				...baseError,
 				kind: "SocketTimeout",
 			};
 
+		case "SQLITE_READONLY":
+		case "SQLITE_READONLY_RECOVERY":
+		case "SQLITE_READONLY_CANTLOCK":
+		case "SQLITE_READONLY_ROLLBACK":
+		case "SQLITE_READONLY_DBMOVED":
+		case "SQLITE_READONLY_CANTINIT":
+		case "SQLITE_READONLY_DIRECTORY":
+			// Write attempt on a read-only connection (readonly option, mode=ro, query_only)
+			return {
+				...baseError,
+				kind: "DatabaseAccessDenied",
+			};
+
 		case "SQLITE_CONSTRAINT_UNIQUE":
 		case "SQLITE_CONSTRAINT_PRIMARYKEY": {
 			const fields = message
@@ -0,0 +1,123 @@
+/**
+ * Slow query reports with `EXPLAIN QUERY PLAN`
+ */
+
+import type { Database, SQLQueryBindings } from "bun:sqlite";
+
+import type { QueryEvent, QueryPlanNode, SlowQueryArgsPolicy, SlowQueryReport } from "./types.js";
+import { debug } from "./queryable.js";
+
+/**
+ * Full table scan step: `SCAN users` (3.36+) or `SCAN TABLE users` (older versions)
+ * Index scans (`SCAN users USING INDEX ...`) and `SCAN CONSTANT ROW` do not match
+ */
+const TABLE_SCAN_PATTERN = /^SCAN (?:TABLE )?(\S+)(?: AS \S+)?$/;
+
+/**
+ * Subqueries and views that show up as `SCAN <name>` once materialized
+ */
+const SUBQUERY_PATTERN = /^(?:CO-ROUTINE|MATERIALIZE) (\S+)$/;
+
+// `id` / `parent` are bigints on connections opened with safeIntegers
+type QueryPlanRow = { id: number | bigint; parent: number | bigint; detail: string };
+
+/**
+ * Build a slow query report for a statement that already ran
+ *
+ * `EXPLAIN QUERY PLAN` only compiles the statement, so it is safe to run inside a transaction
+ * and for writes. A failure is reported in `planError` instead of being thrown.
+ *
+ * @param db - Connection the statement ran on
+ * @param event - The statement's `onQuery` event
+ * @param argsPolicy - `slowQueryArgs` option
+ */
+export function buildSlowQueryReport(
+	db: Database,
+	event: QueryEvent & { method: SlowQueryReport["method"] },
+	argsPolicy: SlowQueryArgsPolicy = "redact",
+): SlowQueryReport {
+	let rows: QueryPlanRow[] = [];
+	let planError: string | undefined;
+
+	// Not cached: plans are only needed for the rare slow statement
+	let stmt: ReturnType<Database["prepare"]> | undefined;
+	try {
+		stmt = db.prepare(`EXPLAIN QUERY PLAN ${event.sql}`);
+		rows = stmt.all(...(event.args as SQLQueryBindings[])) as QueryPlanRow[];
+	} catch (error: any) {
+		planError = error?.message ?? String(error);
+	} finally {
+		stmt?.finalize();
+	}
+	if (planError !== undefined) debug("[js::slowQuery] EXPLAIN QUERY PLAN failed: %s", planError);
+
+	const subqueries = new Set(rows.flatMap((row) => SUBQUERY_PATTERN.exec(row.detail)?.[1] ?? []));
+	const scannedTables = [
+		...new Set(
+			rows.flatMap((row) => {
+				const table = TABLE_SCAN_PATTERN.exec(row.detail)?.[1];
+				return table !== undefined && !subqueries.has(table) ? [table] : [];
+			}),
+		),
+	];
+
+	return {
+		method: event.method,
+		sql: event.sql,
+		args: redactArgs(event.args, argsPolicy),
+		durationMs: event.durationMs,
+		inTransaction: event.inTransaction,
+		plan: buildPlanTree(rows),
+		fullScan: scannedTables.length > 0,
+		scannedTables,
+		...(planError !== undefined && { planError }),
+	};
+}
+
+/**
+ * Turn the flat `EXPLAIN QUERY PLAN` rows (linked by `parent`) into a tree
+ */
+function buildPlanTree(rows: QueryPlanRow[]): QueryPlanNode[] {
+	const nodes = new Map<number, QueryPlanNode>();
+	const roots: QueryPlanNode[] = [];
+
+	// Rows are ordered so that parents come before their children
+	for (const row of rows) {
+		const node: QueryPlanNode = { id: Number(row.id), detail: row.detail, children: [] };
+		nodes.set(node.id, node);
+		const parent = nodes.get(Number(row.parent));
+		if (parent) parent.children.push(node);
+		else roots.push(node);
+	}
+
+	return roots;
+}
+
+function redactArgs(args: unknown[], policy: SlowQueryArgsPolicy): unknown[] {
+	if (typeof policy === "function") return policy(args);
+	if (policy === "include") return args;
+
+	return args.map((arg) => {
+		if (arg === null || arg === undefined) return null;
+		if (arg instanceof Uint8Array || arg instanceof ArrayBuffer) return "<blob>";
+		return `<${typeof arg}>`;
+	});
+}
+
+/**
+ * One-line summary plus the indented plan, logged with `debug` when no `onSlowQuery` hook is set
+ */
+export function formatSlowQueryReport(report: SlowQueryReport): string {
+	const lines = [`[prisma-adapter-bun-sqlite] Slow ${report.method} (${report.durationMs.toFixed(1)}ms): ${report.sql}`];
+
+	const walk = (nodes: QueryPlanNode[], indent: string) => {
+		for (const node of nodes) {
+			lines.push(`${indent}${node.detail}`);
+			walk(node.children, `${indent}  `);
+		}
+	};
+	walk(report.plan, "  ");
+
+	if (report.planError !== undefined) lines.push(`  (no plan: ${report.planError})`);
+	return lines.join("\n");
+}
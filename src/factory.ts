@@ -3,15 +3,161 @@
  */
 
 import { Database } from "bun:sqlite";
+import { dlopen, FFIType } from "bun:ffi";
 import {
+	ColumnTypeEnum,
 	DriverAdapterError,
-	type SqlDriverAdapter,
+	type ColumnType,
 	type SqlMigrationAwareDriverAdapterFactory,
 } from "@prisma/driver-adapter-utils";
 
-import type { PrismaBunSqliteConfig, WalConfiguration } from "./types.js";
-import { ADAPTER_NAME } from "./queryable.js";
-import { BunSqliteAdapter } from "./adapter.js";
+import type {
+	PrismaBunSqliteConfig,
+	PrismaBunSqliteOptions,
+	PrismaBunSqliteDatabaseConfig,
+	WalConfiguration,
+} from "./types.js";
+import { ADAPTER_NAME, debug, invokeHook } from "./queryable.js";
+import { mapDeclType, TIMESTAMP_FORMATS } from "./conversion.js";
+import { BunSqliteAdapter, TRANSACTION_MODES } from "./adapter.js";
+import { parseDatabaseUrl, type ParsedDatabaseUrl } from "./url.js";
+import { resolveRetryPolicy } from "./retry.js";
+import { formatPrometheusMetrics, MetricsRegistry, type MetricsSnapshot } from "./metrics.js";
+import { DEFAULT_STATEMENT_CACHE_SIZE, type StatementCacheStats } from "./statement-cache.js";
+
+/**
+ * Library passed to `Database.setCustomSQLite()`, with its `sqlite3_sourceid()`.
+ * The setting is process-wide, so it is tracked here to reject conflicting configurations.
+ */
+let activeCustomSqliteLibrary: { path: string; sourceId: string } | undefined;
+
+/**
+ * Switch bun:sqlite to a custom SQLite library (once per process)
+ *
+ * `Database.setCustomSQLite()` reports success even where it has no effect (Linux, or once a
+ * database is open), so the library is opened first to read its source id, which
+ * `verifyCustomSqliteLibrary()` compares with the library connections actually use.
+ *
+ * @returns The library's `sqlite3_sourceid()`
+ */
+function useCustomSqliteLibrary(path: string): string {
+	if (activeCustomSqliteLibrary?.path === path) return activeCustomSqliteLibrary.sourceId;
+
+	if (activeCustomSqliteLibrary !== undefined) {
+		throw new DriverAdapterError({
+			kind: "GenericJs",
+			id: 0,
+			originalMessage:
+				`Cannot use custom SQLite library "${path}": "${activeCustomSqliteLibrary.path}" is already in use. ` +
+				`The SQLite library is process-wide and can only be set once.`,
+		});
+	}
+
+	let sourceId: string;
+	let loaded = false;
+	try {
+		sourceId = readLibrarySourceId(path);
+		loaded = Database.setCustomSQLite(path);
+	} catch (error: any) {
+		throw new DriverAdapterError({
+			kind: "GenericJs",
+			id: 0,
+			originalMessage: `Failed to load custom SQLite library "${path}": ${error.message}`,
+		});
+	}
+	if (!loaded) {
+		throw new DriverAdapterError({
+			kind: "GenericJs",
+			id: 0,
+			originalMessage: `Failed to load custom SQLite library "${path}"`,
+		});
+	}
+
+	activeCustomSqliteLibrary = { path, sourceId };
+	return sourceId;
+}
+
+/**
+ * `sqlite3_sourceid()` of a SQLite library file, which identifies its exact build
+ */
+function readLibrarySourceId(path: string): string {
+	const library = dlopen(path, { sqlite3_sourceid: { args: [], returns: FFIType.cstring } });
+	try {
+		return String(library.symbols.sqlite3_sourceid());
+	} finally {
+		library.close();
+	}
+}
+
+/**
+ * Check that a new connection runs on the custom SQLite library
+ *
+ * @param sourceId - `sqlite3_sourceid()` of `customSqliteLibrary`
+ */
+function verifyCustomSqliteLibrary(db: Database, path: string, sourceId: string): void {
+	const [version, actual] = db.prepare("SELECT sqlite_version(), sqlite_source_id()").values()[0]!;
+	if (actual !== sourceId) {
+		throw new DriverAdapterError({
+			kind: "GenericJs",
+			id: 0,
+			originalMessage:
+				`Custom SQLite library "${path}" is not in use: connections run SQLite ${version} (${actual}). ` +
+				`Database.setCustomSQLite() has no effect on this platform or after a database was opened.`,
+		});
+	}
+}
+
+/**
+ * Forget the custom SQLite library, for tests that mock `Database.setCustomSQLite()`
+ */
+export function resetCustomSqliteLibrary(): void {
+	activeCustomSqliteLibrary = undefined;
+}
+
+const PRAGMA_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PRAGMA_VALUE_PATTERN = /^[A-Za-z0-9_.+-]+$/;
+
+// A declared type (possibly several words) or table.column
+const CODEC_KEY_PATTERN = /^(?:[^.\s()]+(?: [^.\s()]+)*|[^.\s]+\.[^.\s]+)$/;
+const COLUMN_TYPES: readonly ColumnType[] = Object.values(ColumnTypeEnum);
+
+/**
+ * Named values of enumerated PRAGMAs, as reported when read back
+ */
+const PRAGMA_ENUM_VALUES: Record<string, Record<string, number>> = {
+	synchronous: { OFF: 0, NORMAL: 1, FULL: 2, EXTRA: 3 },
+	temp_store: { DEFAULT: 0, FILE: 1, MEMORY: 2 },
+	auto_vacuum: { NONE: 0, FULL: 1, INCREMENTAL: 2 },
+	secure_delete: { OFF: 0, ON: 1, FAST: 2 },
+};
+
+const PRAGMA_BOOLEAN_VALUES: Record<string, number> = {
+	ON: 1,
+	TRUE: 1,
+	YES: 1,
+	OFF: 0,
+	FALSE: 0,
+	NO: 0,
+};
+
+/**
+ * Compare a PRAGMA value as written with the value read back from SQLite
+ */
+function pragmaValueMatches(name: string, expected: string | number, actual: unknown): boolean {
+	const actualString = String(actual).toLowerCase();
+	if (typeof expected === "number") {
+		return actualString === String(expected);
+	}
+
+	const upper = expected.toUpperCase();
+	const enumValue = PRAGMA_ENUM_VALUES[name.toLowerCase()]?.[upper] ?? PRAGMA_BOOLEAN_VALUES[upper];
+	if (enumValue !== undefined) {
+		return actualString === String(enumValue);
+	}
+
+	// Numeric strings ("-64000") and names reported back as strings (journal_mode, locking_mode)
+	return actualString === expected.toLowerCase();
+}
 
 /**
  * Prisma driver adapter factory for Bun's native SQLite (`bun:sqlite`).
@@ -30,6 +176,13 @@ import { BunSqliteAdapter } from "./adapter.js";
  * const users = await prisma.user.findMany();
  * ```
  *
+ * @example With URL parameters
+ * ```typescript
+ * const adapter = new PrismaBunSqlite({
+ *   url: "file:./dev.db?busy_timeout=10000&journal_mode=WAL"
+ * });
+ * ```
+ *
  * @example With WAL mode
  * ```typescript
  * const adapter = new PrismaBunSqlite({
@@ -50,15 +203,177 @@ export class PrismaBunSqlite implements SqlMigrationAwareDriverAdapterFactory {
 
 	private config: PrismaBunSqliteConfig;
 
+	/** Externally created handle adopted through `fromDatabase()` */
+	private adopted?: { db: Database; closeOnDispose: boolean };
+
+	/** Metrics of the main database, kept across reconnects */
+	private readonly metrics = new MetricsRegistry();
+
+	/** Last adapter returned by `connect()`, for live lock state */
+	private mainAdapter?: BunSqliteAdapter;
+
 	constructor(config: PrismaBunSqliteConfig) {
 		this.validateConfig(config);
 		this.config = config;
 	}
 
+	/**
+	 * Create a factory around an existing `bun:sqlite` Database.
+	 *
+	 * `connect()` runs the same validation and configuration pipeline as for a URL
+	 * (extensions, foreign keys, WAL, busy timeout, PRAGMAs, onConnect) on the given
+	 * handle. The shadow database is still opened from `shadowDatabaseUrl`.
+	 *
+	 * The handle must have been opened with the same `safeIntegers` setting as the
+	 * options (default `true`), otherwise this throws.
+	 *
+	 * The caller keeps ownership of the handle: `dispose()` leaves it open (and turns
+	 * `readonly`'s `PRAGMA query_only` back off), so `$disconnect()` / `$connect()` cycles work.
+	 *
+	 * @param db - Database handle shared with the rest of the application
+	 * @param config - Adapter options; set `closeOnDispose: true` to close the handle on dispose
+	 *
+	 * @example
+	 * ```typescript
+	 * const db = new Database("./dev.db", { safeIntegers: true });
+	 * const adapter = PrismaBunSqlite.fromDatabase(db, { wal: true });
+	 * const prisma = new PrismaClient({ adapter });
+	 *
+	 * // db stays usable for hand-written queries, even after prisma.$disconnect()
+	 * ```
+	 */
+	static fromDatabase(db: Database, config: PrismaBunSqliteDatabaseConfig = {}): PrismaBunSqlite {
+		const { closeOnDispose = false, ...options } = config;
+
+		if (options.customSqliteLibrary !== undefined) {
+			throw new Error(
+				`customSqliteLibrary cannot be used with fromDatabase(): the database is already open. ` +
+					`Call Database.setCustomSQLite() before creating the handle instead.`,
+			);
+		}
+
+		// Detect how the handle returns integers - bun:sqlite does not expose the option
+		const sample = (db.prepare("SELECT 1").values()[0] as unknown[] | undefined)?.[0];
+		const handleSafeIntegers = typeof sample === "bigint";
+		const expectedSafeIntegers = options.safeIntegers !== false;
+		if (handleSafeIntegers !== expectedSafeIntegers) {
+			throw new Error(
+				`safeIntegers mismatch: the Database handle was opened with safeIntegers: ${handleSafeIntegers}, ` +
+					`but the adapter is configured with safeIntegers: ${expectedSafeIntegers}. ` +
+					`Open the handle with new Database(path, { safeIntegers: ${expectedSafeIntegers} }) ` +
+					`or set safeIntegers: ${handleSafeIntegers} in the adapter options.`,
+			);
+		}
+
+		// The URL is informational for adopted handles (the query string is not ours to apply)
+		const url = db.filename.split("?")[0] || ":memory:";
+		const factory = new PrismaBunSqlite({ ...options, url });
+		factory.adopted = { db, closeOnDispose };
+		return factory;
+	}
+
 	/**
 	 * Validate configuration options
 	 */
 	private validateConfig(config: PrismaBunSqliteConfig): void {
+		// Parse URLs eagerly so unknown parameters fail at construction rather than on connect
+		const parsedUrl = parseDatabaseUrl(config.url);
+		if (config.shadowDatabaseUrl !== undefined) {
+			parseDatabaseUrl(config.shadowDatabaseUrl);
+		}
+
+		if (config.readonly === true && parsedUrl.mode === "memory") {
+			throw new Error(`readonly cannot be used with an in-memory database`);
+		}
+
+		resolveRetryPolicy(config.retry);
+
+		const integerOptions = [
+			"acquireTimeoutMs",
+			"maxTransactionDurationMs",
+			"slowQueryThresholdMs",
+			"statementCacheSize",
+		] as const;
+		for (const option of integerOptions) {
+			const value = config[option];
+			if (value !== undefined && (typeof value !== "number" || !Number.isInteger(value) || value < 0)) {
+				throw new Error(`Invalid ${option}: ${value}. Must be a non-negative integer.`);
+			}
+		}
+
+		const { maxBindValues } = config;
+		if (maxBindValues !== undefined && (!Number.isInteger(maxBindValues) || maxBindValues < 1)) {
+			throw new Error(`Invalid maxBindValues: ${maxBindValues}. Must be a positive integer.`);
+		}
+
+		if (config.timestampFormat !== undefined && !TIMESTAMP_FORMATS.includes(config.timestampFormat)) {
+			throw new Error(
+				`Invalid timestampFormat: "${config.timestampFormat}". Valid values: ${TIMESTAMP_FORMATS.join(", ")}`,
+			);
+		}
+
+		for (const [key, codec] of Object.entries(config.codecs ?? {})) {
+			if (!CODEC_KEY_PATTERN.test(key)) {
+				throw new Error(`Invalid codec key: "${key}". Use a declared type (UUID) or table.column`);
+			}
+			const validCodec =
+				typeof codec === "object" &&
+				codec !== null &&
+				(codec.columnType === undefined || COLUMN_TYPES.includes(codec.columnType)) &&
+				(codec.decode === undefined || typeof codec.decode === "function") &&
+				(codec.encode === undefined || typeof codec.encode === "function");
+			if (!validCodec) {
+				throw new Error(
+					`Invalid codec for "${key}": expects { columnType?: ColumnType, decode?: function, encode?: function }`,
+				);
+			}
+		}
+
+		if (config.decimalStorage !== undefined && !["real", "text"].includes(config.decimalStorage)) {
+			throw new Error(`Invalid decimalStorage: "${config.decimalStorage}". Valid values: real, text`);
+		}
+
+		if (config.bytesOutput !== undefined && !["array", "uint8array"].includes(config.bytesOutput)) {
+			throw new Error(`Invalid bytesOutput: "${config.bytesOutput}". Valid values: array, uint8array`);
+		}
+
+		if (config.transactionMode !== undefined) {
+			if (!TRANSACTION_MODES.includes(config.transactionMode)) {
+				throw new Error(
+					`Invalid transactionMode: "${config.transactionMode}". Valid modes: ${TRANSACTION_MODES.join(", ")}`,
+				);
+			}
+			if (config.transactionMode !== "deferred" && (config.readonly === true || parsedUrl.mode === "ro")) {
+				throw new Error(
+					`transactionMode "${config.transactionMode}" cannot be used with a read-only connection: ` +
+						`it takes the write lock at BEGIN. Use "deferred" or omit the option.`,
+				);
+			}
+		}
+
+		for (const extension of config.extensions ?? []) {
+			const path = typeof extension === "string" ? extension : extension?.path;
+			if (typeof path !== "string" || path === "") {
+				throw new Error(
+					`Invalid SQLite extension: ${JSON.stringify(extension)}. Expected a path or { path, entryPoint }.`,
+				);
+			}
+		}
+
+		// PRAGMA statements cannot use bound parameters, so names and values are interpolated
+		for (const [name, value] of Object.entries(config.pragmas ?? {})) {
+			if (!PRAGMA_NAME_PATTERN.test(name)) {
+				throw new Error(`Invalid PRAGMA name: "${name}"`);
+			}
+			const validValue =
+				typeof value === "boolean" ||
+				(typeof value === "number" && Number.isFinite(value)) ||
+				(typeof value === "string" && PRAGMA_VALUE_PATTERN.test(value));
+			if (!validValue) {
+				throw new Error(`Invalid value for PRAGMA ${name}: ${JSON.stringify(value)}`);
+			}
+		}
+
 		// When using unixepoch-ms with safeIntegers (default), require explicit acknowledgment
 		// of DateTime aggregate limitation. Three valid workarounds:
 		// 1. safeIntegers: false - no BigInts, but potential precision loss
@@ -88,6 +403,17 @@ export class PrismaBunSqlite implements SqlMigrationAwareDriverAdapterFactory {
 			}
 		}
 
+		// Aggregates over seconds or Julian days reach Prisma as plain numbers, read as milliseconds,
+		// whatever safeIntegers is; converting BigInts to numbers does not help
+		const secondsOrDays = config.timestampFormat === "unixepoch-s" || config.timestampFormat === "julianday";
+		if (secondsOrDays && config.allowUnsafeDateTimeAggregates !== true) {
+			throw new Error(
+				`timestampFormat "${config.timestampFormat}" requires allowUnsafeDateTimeAggregates: true ` +
+					`to acknowledge that DateTime aggregates (_min, _max) return wrong dates.\n\n` +
+					`See documentation for details: https://github.com/mmvsk/prisma-adapter-bun-sqlite#timestamp-format`,
+			);
+		}
+
 		// These options are only meaningful with unixepoch-ms + safeIntegers
 		if (config.timestampFormat !== "unixepoch-ms" || config.safeIntegers === false) {
 			if (config.allowBigIntToNumberConversion !== undefined) {
@@ -95,9 +421,10 @@ export class PrismaBunSqlite implements SqlMigrationAwareDriverAdapterFactory {
 					`allowBigIntToNumberConversion is only applicable when timestampFormat is "unixepoch-ms" with safeIntegers enabled`,
 				);
 			}
-			if (config.allowUnsafeDateTimeAggregates !== undefined) {
+			if (config.allowUnsafeDateTimeAggregates !== undefined && !secondsOrDays) {
 				throw new Error(
-					`allowUnsafeDateTimeAggregates is only applicable when timestampFormat is "unixepoch-ms" with safeIntegers enabled`,
+					`allowUnsafeDateTimeAggregates is only applicable when timestampFormat is "unixepoch-ms" ` +
+						`with safeIntegers enabled, "unixepoch-s" or "julianday"`,
 				);
 			}
 		}
@@ -105,31 +432,188 @@ export class PrismaBunSqlite implements SqlMigrationAwareDriverAdapterFactory {
 
 	/**
 	 * Create database connection with standard configuration
+	 * Closes the handle if any configuration step or the onConnect hook fails
 	 */
-	private createConnection(url: string): Database {
-		// Parse URL - support both "file:./path" and "./path" formats
-		const dbPath = url.replace(/^file:/, "");
+	private async createConnection(parsed: ParsedDatabaseUrl, readonly: boolean): Promise<Database> {
+		for (const warning of parsed.warnings) {
+			this.warn("[js::createConnection]", warning);
+		}
+
+		// Must happen before the first Database is opened in this process
+		const customLibrary = this.config.customSqliteLibrary;
+		const customSourceId = customLibrary !== undefined ? useCustomSqliteLibrary(customLibrary) : undefined;
 
 		// Enable safe integers by default to prevent precision loss for BIGINT values
 		const safeIntegers = this.config.safeIntegers !== false;
-		const db = new Database(dbPath, { safeIntegers });
+		const db = new Database(parsed.path, {
+			safeIntegers,
+			readonly,
+			readwrite: !readonly && parsed.mode === "rw",
+			create: !readonly && (parsed.mode === "rwc" || parsed.mode === "memory"),
+		});
+
+		try {
+			if (customSourceId !== undefined) {
+				verifyCustomSqliteLibrary(db, customLibrary!, customSourceId);
+			}
+			await this.configureConnection(db, parsed, readonly);
+		} catch (error) {
+			db.close();
+			throw error;
+		}
+
+		return db;
+	}
+
+	/**
+	 * Configuration pipeline shared by opened and adopted (`fromDatabase`) handles
+	 */
+	private async configureConnection(
+		db: Database,
+		parsed: ParsedDatabaseUrl,
+		readonly: boolean,
+	): Promise<void> {
+		// Extensions first, so PRAGMAs, onConnect and migrations can rely on them
+		this.loadExtensions(db);
 
 		// Enable foreign key constraints (required for cascading deletes)
 		db.run("PRAGMA foreign_keys = ON");
 
+		// Read-only file handles already reject writes; query_only also covers temp tables
+		// and makes BEGIN IMMEDIATE/EXCLUSIVE fail consistently
+		if (readonly) {
+			db.run("PRAGMA query_only = ON");
+		}
+
 		// Configure WAL mode if specified (only for file-based databases)
-		if (dbPath !== ":memory:") {
-			this.configureWalMode(db);
+		if (parsed.path !== ":memory:") {
+			this.configureWalMode(db, readonly);
 		}
 
-		return db;
+		this.applyConfigPragmas(db, parsed);
+
+		// URL parameters are applied last so they take precedence over adapter options
+		this.applyUrlPragmas(db, parsed);
+
+		await this.config.onConnect?.(db);
+
+		if (this.config.decimalStorage === "text") {
+			this.checkDecimalColumns(db);
+		}
+	}
+
+	/**
+	 * Warn about `DECIMAL` columns when `decimalStorage` is `"text"`: their NUMERIC affinity
+	 * makes SQLite convert the bound strings to REAL, keeping 15 significant digits
+	 */
+	private checkDecimalColumns(db: Database): void {
+		const columns = db
+			.prepare("SELECT t.name, c.name, c.type FROM sqlite_master t, pragma_table_info(t.name) c WHERE t.type = 'table'")
+			.values() as [string, string, string][];
+		const decimalColumns = columns
+			.filter(([, , type]) => mapDeclType(type) === ColumnTypeEnum.Numeric)
+			.map(([table, column]) => `"${table}"."${column}"`);
+		if (decimalColumns.length === 0) return;
+
+		this.warn(
+			"[js::connect]",
+			`decimalStorage: "text" only keeps every digit in TEXT columns. ${decimalColumns.join(", ")} ` +
+				`have NUMERIC affinity (declared DECIMAL), so SQLite stores their values as REAL with ` +
+				`15 significant digits. Declare them TEXT in the migration SQL, or use decimalStorage: "real".`,
+		);
+	}
+
+	/**
+	 * Report a configuration warning to the debug log and the `onWarning` hook
+	 */
+	private warn(tag: string, warning: string): void {
+		debug(`${tag} ${warning}`);
+		invokeHook("onWarning", this.config.onWarning, warning);
+	}
+
+	/**
+	 * Load the configured SQLite extensions
+	 */
+	private loadExtensions(db: Database): void {
+		for (const extension of this.config.extensions ?? []) {
+			const { path, entryPoint } =
+				typeof extension === "string" ? { path: extension, entryPoint: undefined } : extension;
+			try {
+				db.loadExtension(path, entryPoint);
+			} catch (error: any) {
+				throw new DriverAdapterError({
+					kind: "GenericJs",
+					id: 0,
+					originalMessage: `Failed to load SQLite extension "${path}"${entryPoint ? ` (entry point ${entryPoint})` : ""}: ${error.message}`,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Apply the `pragmas` option and verify that each value took effect
+	 */
+	private applyConfigPragmas(db: Database, parsed: ParsedDatabaseUrl): void {
+		for (const [name, value] of Object.entries(this.config.pragmas ?? {})) {
+			// In-memory databases always report "memory", like with the wal option
+			if (name.toLowerCase() === "journal_mode" && parsed.path === ":memory:") continue;
+
+			const sqlValue = typeof value === "boolean" ? (value ? "ON" : "OFF") : value;
+			let actual: unknown;
+			try {
+				db.run(`PRAGMA ${name} = ${sqlValue}`);
+				// Read back - write-only PRAGMAs (and mmap_size on :memory:) return no row
+				actual = (db.prepare(`PRAGMA ${name}`).values()[0] as unknown[] | undefined)?.[0];
+			} catch (error: any) {
+				throw new DriverAdapterError({
+					kind: "GenericJs",
+					id: 0,
+					originalMessage: `Failed to set PRAGMA ${name} = ${sqlValue}: ${error.message}`,
+				});
+			}
+
+			if (actual !== undefined && !pragmaValueMatches(name, sqlValue, actual)) {
+				throw new DriverAdapterError({
+					kind: "GenericJs",
+					id: 0,
+					originalMessage: `PRAGMA ${name} = ${sqlValue} did not take effect. Current value: ${String(actual)}`,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Apply PRAGMAs requested through URL parameters
+	 */
+	private applyUrlPragmas(db: Database, parsed: ParsedDatabaseUrl): void {
+		for (const [name, value] of Object.entries(parsed.pragmas)) {
+			if (name === "journal_mode") {
+				// In-memory databases always report "memory", like with the wal option
+				if (parsed.path === ":memory:") continue;
+
+				const result = db.prepare(`PRAGMA journal_mode = ${value}`).get() as
+					| { journal_mode: string }
+					| undefined;
+				const currentMode = result?.journal_mode?.toLowerCase();
+				if (currentMode !== String(value).toLowerCase()) {
+					throw new DriverAdapterError({
+						kind: "GenericJs",
+						id: 0,
+						originalMessage: `Failed to set journal_mode=${value} from database URL. Current mode: ${currentMode || "unknown"}`,
+					});
+				}
+				continue;
+			}
+
+			db.run(`PRAGMA ${name} = ${value}`);
+		}
 	}
 
 	/**
 	 * Configure WAL (Write-Ahead Logging) mode
 	 * Only applies to file-based databases
 	 */
-	private configureWalMode(db: Database): void {
+	private configureWalMode(db: Database, readonly: boolean): void {
 		const walConfig = this.config.wal;
 
 		// If wal not specified or explicitly disabled, skip WAL configuration
@@ -150,23 +634,26 @@ export class PrismaBunSqlite implements SqlMigrationAwareDriverAdapterFactory {
 			return;
 		}
 
-		// Enable WAL mode
-		try {
-			const result = db.prepare("PRAGMA journal_mode = WAL").get() as
-				| { journal_mode: string }
-				| undefined;
-			const currentMode = result?.journal_mode?.toLowerCase();
+		// Enable WAL mode. Read-only handles cannot write the journal mode: they keep the file's
+		// current mode and follow the writer once it switches to WAL, since the mode is persistent
+		if (!readonly) {
+			try {
+				const result = db.prepare("PRAGMA journal_mode = WAL").get() as
+					| { journal_mode: string }
+					| undefined;
+				const currentMode = result?.journal_mode?.toLowerCase();
 
-			// Check if WAL was successfully enabled
-			if (currentMode !== "wal") {
-				throw new Error(`Failed to enable WAL mode. Current mode: ${currentMode || "unknown"}`);
+				// Check if WAL was successfully enabled
+				if (currentMode !== "wal") {
+					throw new Error(`Failed to enable WAL mode. Current mode: ${currentMode || "unknown"}`);
+				}
+			} catch (error: any) {
+				throw new DriverAdapterError({
+					kind: "GenericJs",
+					id: 0,
+					originalMessage: `Failed to enable WAL mode: ${error.message}`,
+				});
 			}
-		} catch (error: any) {
-			throw new DriverAdapterError({
-				kind: "GenericJs",
-				id: 0,
-				originalMessage: `Failed to enable WAL mode: ${error.message}`,
-			});
 		}
 
 		// Configure synchronous mode if specified (with validation)
@@ -208,12 +695,108 @@ export class PrismaBunSqlite implements SqlMigrationAwareDriverAdapterFactory {
 		db.run(`PRAGMA busy_timeout = ${timeout}`);
 	}
 
+	/**
+	 * Metrics of the main database connection.
+	 *
+	 * Counters accumulate across reconnects (`$disconnect()` / `$connect()`); lock state
+	 * comes from the current connection. The shadow database is not included.
+	 *
+	 * @example
+	 * ```typescript
+	 * const adapter = new PrismaBunSqlite({ url: "file:./dev.db" });
+	 * const prisma = new PrismaClient({ adapter });
+	 *
+	 * Bun.serve({
+	 *   routes: { "/metrics": () => new Response(adapter.getPrometheusMetrics()) },
+	 * });
+	 * ```
+	 */
+	getMetrics(): MetricsSnapshot {
+		return this.mainAdapter?.getMetrics() ?? this.metrics.snapshot({ queueDepth: 0, held: false });
+	}
+
+	/**
+	 * Metrics of the main database connection in the Prometheus text exposition format
+	 * @param prefix - Metric name prefix (default: `bun_sqlite`)
+	 */
+	getPrometheusMetrics(prefix?: string): string {
+		return formatPrometheusMetrics(this.getMetrics(), prefix);
+	}
+
+	/**
+	 * Prepared statement cache of the main database connection (empty before `connect()`)
+	 */
+	getStatementCacheStats(): StatementCacheStats {
+		return (
+			this.mainAdapter?.getStatementCacheStats() ?? {
+				size: 0,
+				maxSize: this.config.statementCacheSize ?? DEFAULT_STATEMENT_CACHE_SIZE,
+				hits: 0,
+				misses: 0,
+				evictions: 0,
+			}
+		);
+	}
+
+	/**
+	 * Finalize the cached statements of the main database connection
+	 * @see BunSqliteAdapter.clearStatementCache
+	 */
+	clearStatementCache(): void {
+		this.mainAdapter?.clearStatementCache();
+	}
+
+	/**
+	 * Runtime options for an adapter on the given connection
+	 */
+	private adapterOptions(parsed: ParsedDatabaseUrl, readonly: boolean): PrismaBunSqliteOptions {
+		const { tracing } = this.config;
+		return {
+			...this.config,
+			readonly,
+			// db.name defaults to the database path from the URL
+			tracing: tracing && { dbName: parsed.path, ...tracing },
+		};
+	}
+
 	/**
 	 * Connect to the main database
 	 */
-	async connect(): Promise<SqlDriverAdapter> {
-		const db = this.createConnection(this.config.url);
-		return new BunSqliteAdapter(db, this.config);
+	async connect(): Promise<BunSqliteAdapter> {
+		if (this.adopted) {
+			const { db, closeOnDispose } = this.adopted;
+			try {
+				db.prepare("SELECT 1").finalize();
+			} catch (error: any) {
+				throw new DriverAdapterError({
+					kind: "GenericJs",
+					id: 0,
+					originalMessage:
+						`Cannot connect to the adopted Database: ${error.message}. With closeOnDispose: true, ` +
+						`dispose() ($disconnect()) closes it for good; use closeOnDispose: false to reconnect.`,
+				});
+			}
+
+			const readonly = this.config.readonly === true;
+			// Read before configuring: the handle gets it back when the adapter is disposed
+			const queryOnly = readonly ? (db.prepare("PRAGMA query_only").values()[0]![0] as unknown) : undefined;
+			// Configuration failures leave the caller's handle open - it is theirs to close
+			const parsed = parseDatabaseUrl(this.config.url);
+			await this.configureConnection(db, parsed, readonly);
+			const options = this.adapterOptions(parsed, readonly);
+			const restoreHandle = readonly
+				? (handle: Database) => handle.run(`PRAGMA query_only = ${queryOnly}`)
+				: undefined;
+			this.mainAdapter = new BunSqliteAdapter(db, options, closeOnDispose, this.metrics, restoreHandle);
+			return this.mainAdapter;
+		}
+
+		// Parse URL - supports "file:./path", "./path" and SQLite URI query parameters
+		const parsed = parseDatabaseUrl(this.config.url);
+		const readonly = this.config.readonly === true || parsed.mode === "ro";
+		const db = await this.createConnection(parsed, readonly);
+		this.mainAdapter = new BunSqliteAdapter(db, this.adapterOptions(parsed, readonly), true, this.metrics);
+		return this.mainAdapter;
 	}
 
 	/**
@@ -221,10 +804,14 @@ export class PrismaBunSqlite implements SqlMigrationAwareDriverAdapterFactory {
 	 * Shadow database is used by Prisma Migrate for migration testing and diffing.
 	 * Defaults to :memory: if shadowDatabaseUrl is not specified.
 	 */
-	async connectToShadowDb(): Promise<SqlDriverAdapter> {
+	async connectToShadowDb(): Promise<BunSqliteAdapter> {
 		// Use :memory: by default for shadow database (faster and isolated)
 		const shadowUrl = this.config.shadowDatabaseUrl ?? ":memory:";
-		const db = this.createConnection(shadowUrl);
-		return new BunSqliteAdapter(db, this.config);
+
+		// The readonly option targets the main database - Prisma Migrate writes to the shadow database
+		const parsed = parseDatabaseUrl(shadowUrl);
+		const readonly = parsed.mode === "ro";
+		const db = await this.createConnection(parsed, readonly);
+		return new BunSqliteAdapter(db, this.adapterOptions(parsed, readonly));
 	}
 }
@@ -3,15 +3,43 @@
 // Types
 export type {
 	WalConfiguration,
+	SqliteExtension,
+	RetryConfiguration,
+	QueryMethod,
+	QueryEvent,
+	ExecuteResult,
+	QueryErrorEvent,
+	TransactionEvent,
+	SlowQueryReport,
+	SlowQueryArgsPolicy,
+	QueryPlanNode,
+	TracingConfiguration,
+	TracerLike,
+	SpanLike,
+	SpanAttributeValue,
+	TransactionMode,
+	TimestampFormat,
+	ColumnCodec,
+	StartTransactionOptions,
+	BunSqliteConnectionInfo,
 	PrismaBunSqliteOptions,
 	PrismaBunSqliteConfig,
+	PrismaBunSqliteDatabaseConfig,
 } from "./types.js";
 
 // Factory (main entry point)
 export { PrismaBunSqlite } from "./factory.js";
 
+// Connection URL parsing
+export { parseDatabaseUrl, type DatabaseUrlMode, type ParsedDatabaseUrl } from "./url.js";
+
 // Adapter
 export { BunSqliteAdapter, createBunSqliteAdapter } from "./adapter.js";
+export type { BunSqliteTransaction } from "./transaction.js";
+export type { StatementCacheStats } from "./statement-cache.js";
+
+// Metrics
+export { formatPrometheusMetrics, type MetricsSnapshot, type HistogramSnapshot } from "./metrics.js";
 
 // Migration utilities (v0.2.0+)
 export {
@@ -24,5 +52,17 @@ export {
 	type MigrationOptions,
 } from "./migration.js";
 
+// Vector embeddings
+export {
+	vectorCodec,
+	encodeVector,
+	decodeVector,
+	findNearestNeighbors,
+	type VectorType,
+	type VectorMetric,
+	type NearestNeighborsOptions,
+	type NearestNeighbor,
+} from "./vector.js";
+
 // Sanity check utilities
 export { checkWalMode, checkForeignKeys } from "./sanity-check.js";
@@ -0,0 +1,286 @@
+/**
+ * JSON argument serialization and JSONB decoding
+ *
+ * Numbers are kept as written rather than going through JS numbers, so 64-bit
+ * integers and long decimals inside JSON documents survive unchanged.
+ */
+
+/**
+ * Thrown by `decodeJsonb()` for JSON5 elements (`INT5`, `FLOAT5`, `TEXT5`), which
+ * are left to SQLite's own `json()` function
+ */
+export class UnsupportedJsonbError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "UnsupportedJsonbError";
+	}
+}
+
+// JSONB element types
+// @see https://sqlite.org/jsonb.html
+const JSONB_NULL = 0;
+const JSONB_TRUE = 1;
+const JSONB_FALSE = 2;
+const JSONB_INT = 3;
+const JSONB_INT5 = 4;
+const JSONB_FLOAT = 5;
+const JSONB_FLOAT5 = 6;
+const JSONB_TEXT = 7;
+const JSONB_TEXTJ = 8;
+const JSONB_TEXT5 = 9;
+const JSONB_TEXTRAW = 10;
+const JSONB_ARRAY = 11;
+const JSONB_OBJECT = 12;
+
+const utf8 = new TextDecoder();
+
+/**
+ * Convert a JSONB blob (SQLite 3.45+) to JSON text, like SQLite's `json()`
+ *
+ * @throws UnsupportedJsonbError for JSON5 elements
+ * @throws Error when the blob is not well-formed JSONB
+ */
+export function decodeJsonb(blob: Uint8Array): string {
+	const parts: string[] = [];
+	const end = decodeElement(blob, 0, parts);
+	if (end !== blob.length) {
+		throw new Error(`Malformed JSONB: ${blob.length - end} trailing bytes`);
+	}
+	return parts.join("");
+}
+
+/**
+ * Decode the element starting at `offset` into `parts`
+ * @returns Offset just past the element
+ */
+function decodeElement(blob: Uint8Array, offset: number, parts: string[]): number {
+	if (offset >= blob.length) throw new Error("Malformed JSONB: truncated element");
+
+	const header = blob[offset]!;
+	const type = header & 0x0f;
+	const sizeField = header >> 4;
+	let start = offset + 1;
+	let size = sizeField;
+
+	// 12-15: the payload size follows in 1, 2, 4 or 8 big-endian bytes
+	if (sizeField >= 12) {
+		const width = 1 << (sizeField - 12);
+		if (start + width > blob.length) throw new Error("Malformed JSONB: truncated header");
+		size = 0;
+		for (let i = 0; i < width; i++) size = size * 256 + blob[start + i]!;
+		start += width;
+	}
+
+	const end = start + size;
+	if (end > blob.length) throw new Error("Malformed JSONB: payload exceeds blob");
+
+	switch (type) {
+		case JSONB_NULL:
+			parts.push("null");
+			break;
+		case JSONB_TRUE:
+			parts.push("true");
+			break;
+		case JSONB_FALSE:
+			parts.push("false");
+			break;
+		case JSONB_INT:
+		case JSONB_FLOAT:
+			parts.push(utf8.decode(blob.subarray(start, end)));
+			break;
+		case JSONB_TEXT:
+		case JSONB_TEXTJ:
+			// Already valid inside JSON quotes (TEXTJ keeps its JSON escapes)
+			parts.push(`"${utf8.decode(blob.subarray(start, end))}"`);
+			break;
+		case JSONB_TEXTRAW:
+			parts.push(JSON.stringify(utf8.decode(blob.subarray(start, end))));
+			break;
+		case JSONB_ARRAY:
+		case JSONB_OBJECT: {
+			const object = type === JSONB_OBJECT;
+			parts.push(object ? "{" : "[");
+			let position = start;
+			for (let index = 0; position < end; index++) {
+				if (index > 0) parts.push(object && index % 2 === 1 ? ":" : ",");
+				position = decodeElement(blob, position, parts);
+			}
+			if (position !== end) throw new Error("Malformed JSONB: element exceeds its container");
+			parts.push(object ? "}" : "]");
+			break;
+		}
+		case JSONB_INT5:
+		case JSONB_FLOAT5:
+		case JSONB_TEXT5:
+			throw new UnsupportedJsonbError(`JSON5 element (type ${type})`);
+		default:
+			throw new Error(`Malformed JSONB: reserved element type ${type}`);
+	}
+
+	return end;
+}
+
+/**
+ * Serialize a `Json` argument that is not already JSON text
+ * Object keys are sorted, so equal values always produce the same text.
+ */
+export function stringifyJson(value: unknown): string {
+	if (value === null || value === undefined) return "null";
+	if (typeof value === "bigint") return value.toString();
+	if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+		return JSON.stringify(value) ?? "null";
+	}
+	// Date, Decimal, ...
+	if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+		return stringifyJson((value as { toJSON: () => unknown }).toJSON());
+	}
+	if (Array.isArray(value)) return `[${value.map(stringifyJson).join(",")}]`;
+
+	const entries = Object.entries(value as Record<string, unknown>)
+		.filter(([, item]) => item !== undefined && typeof item !== "function")
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stringifyJson(item)}`).join(",")}}`;
+}
+
+/**
+ * Rewrite JSON text with sorted object keys and no insignificant whitespace
+ *
+ * Numbers keep their original spelling. Duplicate keys keep the last value, like `JSON.parse()`.
+ *
+ * @throws SyntaxError when `text` is not valid JSON
+ */
+export function canonicalJson(text: string): string {
+	return new JsonParser(text).parseDocument();
+}
+
+// Sticky patterns, matched at the parser position without slicing the text
+const STRING_PATTERN = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const WHITESPACE_PATTERN = /[ \t\n\r]*/y;
+
+/**
+ * Recursive descent parser emitting canonical JSON text
+ */
+class JsonParser {
+	private position = 0;
+
+	constructor(private readonly text: string) {}
+
+	parseDocument(): string {
+		const value = this.parseValue();
+		this.skipWhitespace();
+		if (this.position !== this.text.length) this.fail("Unexpected data after JSON value");
+		return value;
+	}
+
+	private parseValue(): string {
+		this.skipWhitespace();
+		const char = this.text[this.position];
+		switch (char) {
+			case "{":
+				return this.parseObject();
+			case "[":
+				return this.parseArray();
+			case '"':
+				return JSON.stringify(this.parseString());
+			case "t":
+				return this.parseLiteral("true");
+			case "f":
+				return this.parseLiteral("false");
+			case "n":
+				return this.parseLiteral("null");
+			default:
+				return this.parseNumber();
+		}
+	}
+
+	private parseObject(): string {
+		this.position++;
+		const members = new Map<string, string>();
+		this.skipWhitespace();
+		if (this.text[this.position] === "}") {
+			this.position++;
+			return "{}";
+		}
+		for (;;) {
+			this.skipWhitespace();
+			if (this.text[this.position] !== '"') this.fail("Expected property name");
+			const key = this.parseString();
+			this.skipWhitespace();
+			this.expect(":");
+			members.set(key, this.parseValue());
+			this.skipWhitespace();
+			if (this.text[this.position] === ",") {
+				this.position++;
+				continue;
+			}
+			this.expect("}");
+			break;
+		}
+		const keys = [...members.keys()].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+		return `{${keys.map((key) => `${JSON.stringify(key)}:${members.get(key)}`).join(",")}}`;
+	}
+
+	private parseArray(): string {
+		this.position++;
+		const items: string[] = [];
+		this.skipWhitespace();
+		if (this.text[this.position] === "]") {
+			this.position++;
+			return "[]";
+		}
+		for (;;) {
+			items.push(this.parseValue());
+			this.skipWhitespace();
+			if (this.text[this.position] === ",") {
+				this.position++;
+				continue;
+			}
+			this.expect("]");
+			break;
+		}
+		return `[${items.join(",")}]`;
+	}
+
+	private parseString(): string {
+		const lexeme = this.match(STRING_PATTERN);
+		if (lexeme === undefined) this.fail("Invalid string");
+		return JSON.parse(lexeme) as string;
+	}
+
+	private parseNumber(): string {
+		const lexeme = this.match(NUMBER_PATTERN);
+		if (lexeme === undefined) this.fail("Unexpected token");
+		return lexeme;
+	}
+
+	private parseLiteral(literal: string): string {
+		if (!this.text.startsWith(literal, this.position)) this.fail("Unexpected token");
+		this.position += literal.length;
+		return literal;
+	}
+
+	private expect(char: string): void {
+		if (this.text[this.position] !== char) this.fail(`Expected "${char}"`);
+		this.position++;
+	}
+
+	private skipWhitespace(): void {
+		this.match(WHITESPACE_PATTERN);
+	}
+
+	/**
+	 * Consume a non-empty match of a sticky pattern at the current position
+	 */
+	private match(pattern: RegExp): string | undefined {
+		pattern.lastIndex = this.position;
+		const match = pattern.exec(this.text);
+		if (!match || match[0] === "") return undefined;
+		this.position += match[0].length;
+		return match[0];
+	}
+
+	private fail(message: string): never {
+		throw new SyntaxError(`Invalid JSON: ${message} at position ${this.position}`);
+	}
+}
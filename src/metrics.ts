@@ -0,0 +1,304 @@
+/**
+ * Built-in metrics registry for queries, transactions and lock contention
+ *
+ * Fed by the same events as the `onQuery` / `onError` / `onTransaction` hooks,
+ * plus lock state read from the adapter's AsyncMutex at snapshot time.
+ */
+
+import type { PrismaBunSqliteOptions, QueryErrorEvent, QueryEvent, TransactionEvent } from "./types.js";
+import { statementOperation } from "./tracing.js";
+
+/**
+ * Histogram bucket upper bounds in milliseconds
+ */
+const LATENCY_BUCKETS_MS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * Statement kinds reported as-is; anything else is reported as `OTHER`
+ * (keeps label cardinality bounded)
+ */
+const STATEMENT_KINDS = new Set([
+	"SELECT",
+	"INSERT",
+	"UPDATE",
+	"DELETE",
+	"REPLACE",
+	"WITH",
+	"PRAGMA",
+	"CREATE",
+	"DROP",
+	"ALTER",
+	"BEGIN",
+	"COMMIT",
+	"ROLLBACK",
+	"SAVEPOINT",
+	"RELEASE",
+]);
+
+/**
+ * Histogram state. Bucket counts are cumulative, like Prometheus `le` buckets.
+ */
+export type HistogramSnapshot = {
+	/** Number of observations */
+	count: number;
+	/** Sum of observed values in milliseconds */
+	sumMs: number;
+	/** Cumulative counts of observations `<= le` milliseconds */
+	buckets: Array<{ le: number; count: number }>;
+};
+
+/**
+ * Point-in-time copy of the adapter metrics, returned by `getMetrics()`
+ */
+export type MetricsSnapshot = {
+	/** Query latency by statement kind (`SELECT`, `INSERT`, ..., `SCRIPT`, `OTHER`) */
+	queries: Record<string, HistogramSnapshot>;
+	/** Rows returned by `queryRaw` */
+	rowsReturned: number;
+	/** Rows changed by `executeRaw` */
+	rowsAffected: number;
+	/** Failed operations by `DriverAdapterError` kind */
+	errors: Record<string, number>;
+	/** Retries after `SQLITE_BUSY` / `SQLITE_LOCKED` (statements and `BEGIN`) */
+	busyRetries: number;
+	/** Outer transactions (savepoints are not counted) */
+	transactions: {
+		committed: number;
+		rolledBack: number;
+		/** Rolled back by `maxTransactionDurationMs` (included in `rolledBack`) */
+		expired: number;
+		/** Lifetime from `BEGIN` to commit/rollback */
+		duration: HistogramSnapshot;
+	};
+	/** Transaction lock (AsyncMutex) */
+	lock: {
+		/** Callers currently waiting for the lock */
+		queueDepth: number;
+		/** Whether a transaction currently holds the lock */
+		held: boolean;
+		/** Time spent waiting for the lock by transactions that got it */
+		wait: HistogramSnapshot;
+		/** `startTransaction()` calls that hit `acquireTimeoutMs` */
+		timeouts: number;
+	};
+};
+
+class Histogram {
+	private counts = new Array<number>(LATENCY_BUCKETS_MS.length).fill(0);
+	private count = 0;
+	private sum = 0;
+
+	observe(valueMs: number): void {
+		this.count++;
+		this.sum += valueMs;
+		const index = LATENCY_BUCKETS_MS.findIndex((le) => valueMs <= le);
+		if (index !== -1) this.counts[index]!++;
+	}
+
+	snapshot(): HistogramSnapshot {
+		let cumulative = 0;
+		return {
+			count: this.count,
+			sumMs: this.sum,
+			buckets: LATENCY_BUCKETS_MS.map((le, i) => ({ le, count: (cumulative += this.counts[i]!) })),
+		};
+	}
+}
+
+/**
+ * Counters and histograms for one adapter
+ */
+export class MetricsRegistry {
+	private queries = new Map<string, Histogram>();
+	private rowsReturned = 0;
+	private rowsAffected = 0;
+	private errors = new Map<string, number>();
+	private busyRetries = 0;
+	private committed = 0;
+	private rolledBack = 0;
+	private expired = 0;
+	private transactionDuration = new Histogram();
+	private lockWait = new Histogram();
+	private lockTimeouts = 0;
+
+	/**
+	 * Wrap the adapter options so that hook events also feed the registry.
+	 * User hooks still receive every event; their return value is passed through
+	 * so `invokeHook()` can handle async rejections.
+	 */
+	instrument(options: PrismaBunSqliteOptions | undefined): PrismaBunSqliteOptions {
+		const { onQuery, onError, onTransaction } = options ?? {};
+		return {
+			...options,
+			onQuery: (event) => {
+				this.recordQuery(event);
+				return onQuery?.(event);
+			},
+			onError: (event) => {
+				this.recordQueryError(event);
+				return onError?.(event);
+			},
+			onTransaction: (event) => {
+				this.recordTransaction(event);
+				return onTransaction?.(event);
+			},
+		};
+	}
+
+	recordQuery(event: QueryEvent): void {
+		this.queryHistogram(event).observe(event.durationMs);
+		this.rowsReturned += event.rowCount ?? 0;
+		this.rowsAffected += event.changes ?? 0;
+		this.busyRetries += event.retries;
+	}
+
+	recordQueryError(event: QueryErrorEvent): void {
+		this.queryHistogram(event).observe(event.durationMs);
+		this.busyRetries += event.retries;
+		this.recordError(event.kind);
+	}
+
+	recordTransaction(event: TransactionEvent): void {
+		// Savepoints share the outer transaction's lock and lifetime
+		if (event.depth !== 0) return;
+
+		switch (event.action) {
+			case "begin":
+				this.lockWait.observe(event.lockWaitMs ?? 0);
+				this.busyRetries += event.retries ?? 0;
+				break;
+			case "commit":
+				this.committed++;
+				this.transactionDuration.observe(event.durationMs);
+				break;
+			case "rollback":
+				this.rolledBack++;
+				if (event.expired) this.expired++;
+				this.transactionDuration.observe(event.durationMs);
+				break;
+		}
+	}
+
+	recordError(kind: string): void {
+		this.errors.set(kind, (this.errors.get(kind) ?? 0) + 1);
+	}
+
+	recordLockTimeout(): void {
+		this.lockTimeouts++;
+	}
+
+	/**
+	 * Copy the current values
+	 * @param lock - Live lock state, read from the AsyncMutex
+	 */
+	snapshot(lock: { queueDepth: number; held: boolean }): MetricsSnapshot {
+		return {
+			queries: Object.fromEntries([...this.queries].map(([kind, histogram]) => [kind, histogram.snapshot()])),
+			rowsReturned: this.rowsReturned,
+			rowsAffected: this.rowsAffected,
+			errors: Object.fromEntries(this.errors),
+			busyRetries: this.busyRetries,
+			transactions: {
+				committed: this.committed,
+				rolledBack: this.rolledBack,
+				expired: this.expired,
+				duration: this.transactionDuration.snapshot(),
+			},
+			lock: {
+				...lock,
+				wait: this.lockWait.snapshot(),
+				timeouts: this.lockTimeouts,
+			},
+		};
+	}
+
+	private queryHistogram(event: QueryEvent | QueryErrorEvent): Histogram {
+		const kind = statementKind(event);
+		let histogram = this.queries.get(kind);
+		if (!histogram) {
+			histogram = new Histogram();
+			this.queries.set(kind, histogram);
+		}
+		return histogram;
+	}
+}
+
+function statementKind(event: QueryEvent | QueryErrorEvent): string {
+	if (event.method === "executeScript") return "SCRIPT";
+	const operation = statementOperation(event.sql);
+	return STATEMENT_KINDS.has(operation) ? operation : "OTHER";
+}
+
+/**
+ * Render a metrics snapshot in the Prometheus text exposition format.
+ * Durations are exported in seconds, following Prometheus conventions.
+ *
+ * @param snapshot - Result of `getMetrics()`
+ * @param prefix - Metric name prefix
+ *
+ * @see https://prometheus.io/docs/instrumenting/exposition_formats/#text-based-format
+ */
+export function formatPrometheusMetrics(snapshot: MetricsSnapshot, prefix = "bun_sqlite"): string {
+	const lines: string[] = [];
+
+	const header = (name: string, type: string, help: string) => {
+		lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+	};
+	const sample = (name: string, labels: Record<string, string>, value: number) => {
+		const rendered = Object.entries(labels)
+			.map(([key, label]) => `${key}="${label.replace(/["\\\n]/g, (c) => (c === "\n" ? "\\n" : `\\${c}`))}"`)
+			.join(",");
+		lines.push(`${prefix}_${name}${rendered ? `{${rendered}}` : ""} ${value}`);
+	};
+	const histogram = (name: string, labels: Record<string, string>, data: HistogramSnapshot) => {
+		for (const bucket of data.buckets) {
+			sample(`${name}_bucket`, { ...labels, le: String(bucket.le / 1000) }, bucket.count);
+		}
+		sample(`${name}_bucket`, { ...labels, le: "+Inf" }, data.count);
+		sample(`${name}_sum`, labels, data.sumMs / 1000);
+		sample(`${name}_count`, labels, data.count);
+	};
+
+	header("query_duration_seconds", "histogram", "Query latency by statement kind");
+	for (const [kind, data] of Object.entries(snapshot.queries)) {
+		histogram("query_duration_seconds", { kind }, data);
+	}
+
+	header("rows_returned_total", "counter", "Rows returned by queries");
+	sample("rows_returned_total", {}, snapshot.rowsReturned);
+
+	header("rows_affected_total", "counter", "Rows changed by statements");
+	sample("rows_affected_total", {}, snapshot.rowsAffected);
+
+	header("errors_total", "counter", "Failed operations by error kind");
+	for (const [kind, count] of Object.entries(snapshot.errors)) {
+		sample("errors_total", { kind }, count);
+	}
+
+	header("busy_retries_total", "counter", "Retries after SQLITE_BUSY or SQLITE_LOCKED");
+	sample("busy_retries_total", {}, snapshot.busyRetries);
+
+	header("transactions_total", "counter", "Finished transactions by outcome");
+	sample("transactions_total", { outcome: "commit" }, snapshot.transactions.committed);
+	sample("transactions_total", { outcome: "rollback" }, snapshot.transactions.rolledBack);
+
+	header("transactions_expired_total", "counter", "Transactions rolled back by maxTransactionDurationMs");
+	sample("transactions_expired_total", {}, snapshot.transactions.expired);
+
+	header("transaction_duration_seconds", "histogram", "Transaction lifetime");
+	histogram("transaction_duration_seconds", {}, snapshot.transactions.duration);
+
+	header("lock_queue_depth", "gauge", "Callers waiting for the transaction lock");
+	sample("lock_queue_depth", {}, snapshot.lock.queueDepth);
+
+	header("lock_held", "gauge", "Whether a transaction holds the lock (0 or 1)");
+	sample("lock_held", {}, snapshot.lock.held ? 1 : 0);
+
+	header("lock_wait_seconds", "histogram", "Time spent waiting for the transaction lock");
+	histogram("lock_wait_seconds", {}, snapshot.lock.wait);
+
+	header("lock_timeouts_total", "counter", "startTransaction() calls that hit acquireTimeoutMs");
+	sample("lock_timeouts_total", {}, snapshot.lock.timeouts);
+
+	return lines.join("\n") + "\n";
+}
@@ -20,6 +20,8 @@
 
 import type { SqlDriverAdapter } from "@prisma/driver-adapter-utils";
 
+import type { TimestampFormat } from "./types.js";
+
 /**
  * A migration to apply
  */
@@ -338,7 +340,7 @@ async function generateChecksum(sql: string): Promise<string> {
  */
 export async function createTestDatabase(
 	migrations: Migration[],
-	config?: { safeIntegers?: boolean; timestampFormat?: "iso8601" | "unixepoch-ms" },
+	config?: { safeIntegers?: boolean; timestampFormat?: TimestampFormat },
 ): Promise<SqlDriverAdapter> {
 	const { PrismaBunSqlite } = await import("./factory.js");
 
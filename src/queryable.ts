@@ -2,17 +2,24 @@
  * Base queryable class for adapter and transactions
  */
 
-import { Database, type SQLQueryBindings } from "bun:sqlite";
+import { Database, type SQLQueryBindings, type Statement } from "bun:sqlite";
 import {
 	Debug,
 	DriverAdapterError,
+	type ColumnType,
 	type SqlQuery,
 	type SqlResultSet,
 } from "@prisma/driver-adapter-utils";
 
-import type { PrismaBunSqliteOptions } from "./types.js";
+import type { ColumnCodec, ExecuteResult, PrismaBunSqliteOptions, QueryEvent, QueryMethod, SpanLike } from "./types.js";
 import { convertDriverError } from "./errors.js";
-import { getColumnTypes, mapArg, mapRow } from "./conversion.js";
+import { getColumnTypes, mapArg, mapRow, runtimeTypesFromRow, type ConversionOptions } from "./conversion.js";
+import { resolveRetryPolicy, withRetry, type RetryPolicy } from "./retry.js";
+import { endSpanWithError, startSpan, statementOperation } from "./tracing.js";
+import { buildSlowQueryReport, formatSlowQueryReport } from "./explain.js";
+import { StatementCache } from "./statement-cache.js";
+import { decodeJsonb, UnsupportedJsonbError } from "./json.js";
+import { CodecRegistry } from "./codecs.js";
 
 export const ADAPTER_NAME = "prisma-adapter-bun-sqlite";
 export const debug = Debug("prisma:driver-adapter:bun-sqlite");
@@ -21,141 +28,506 @@ export const debug = Debug("prisma:driver-adapter:bun-sqlite");
  * Base queryable class for both adapter and transactions
  */
 export class BunSqliteQueryable {
-	private readonly timestampFormat: "iso8601" | "unixepoch-ms";
-	private readonly allowBigIntToNumberConversion: boolean;
+	private readonly conversion: ConversionOptions;
+	private readonly mapRowsInPlace: boolean;
+	protected readonly retryPolicy?: RetryPolicy;
 
+	/**
+	 * @param db - Open bun:sqlite database
+	 * @param adapterOptions - Runtime options
+	 * @param statements - Prepared statement cache, shared by the adapter and its transactions
+	 * @param codecs - Column codec and type lookup, shared like `statements`
+	 */
 	constructor(
 		protected db: Database,
 		protected adapterOptions?: PrismaBunSqliteOptions,
+		protected readonly statements = new StatementCache(db, adapterOptions?.statementCacheSize),
+		protected readonly codecs = new CodecRegistry(db, adapterOptions?.codecs),
 	) {
-		this.timestampFormat = adapterOptions?.timestampFormat ?? "iso8601";
-		this.allowBigIntToNumberConversion = adapterOptions?.allowBigIntToNumberConversion === true;
+		this.conversion = {
+			timestampFormat: adapterOptions?.timestampFormat ?? "iso8601",
+			tolerantTimestamps: adapterOptions?.tolerantTimestamps === true,
+			allowBigIntToNumberConversion: adapterOptions?.allowBigIntToNumberConversion === true,
+			decimalStorage: adapterOptions?.decimalStorage ?? "real",
+			bytesOutput: adapterOptions?.bytesOutput ?? "array",
+			canonicalJson: adapterOptions?.canonicalJson === true,
+			validateJson: adapterOptions?.validateJson === true,
+			decodeJsonb: (blob) => this.decodeJsonb(blob),
+		};
+		this.mapRowsInPlace = adapterOptions?.mapRowsInPlace === true;
+		this.retryPolicy = resolveRetryPolicy(adapterOptions?.retry);
 	}
 
 	readonly provider = "sqlite" as const;
 	readonly adapterName = ADAPTER_NAME;
 
+	/**
+	 * Whether a statement failing with SQLITE_BUSY / SQLITE_LOCKED can be retried
+	 * Outside a transaction a failed statement has no side effects
+	 */
+	protected canRetry(): boolean {
+		return !this.db.inTransaction;
+	}
+
+	/**
+	 * Span that statement spans are parented under (the transaction span for transactions)
+	 */
+	protected traceParent(): SpanLike | undefined {
+		return undefined;
+	}
+
 	/**
 	 * Execute a query and return the result set
 	 *
 	 * Note: Requires Bun 1.3.3+ where statement metadata is available after execution.
 	 */
 	async queryRaw(query: SqlQuery): Promise<SqlResultSet> {
-		const tag = "[js::queryRaw]";
+		return this.runStatement(
+			"queryRaw",
+			query,
+			(args) => this.performQuery(query.sql, args),
+			(result) => ({
+				rowCount: result.rows.length,
+				...(result.lastInsertId !== undefined && { lastInsertId: result.lastInsertId }),
+			}),
+		);
+	}
+
+	/**
+	 * Stream the rows of a query one at a time instead of loading the whole result set
+	 *
+	 * Rows are mapped like `queryRaw()` rows, with column types resolved from the declared
+	 * types and the first row. The statement is prepared for the stream (not cached) and
+	 * finalized when the stream ends, fails or is left early (`break`).
+	 *
+	 * Unlike `queryRaw()`, the stream is not retried on `SQLITE_BUSY` and not reported as a
+	 * slow query: its duration includes the time spent by the consumer. `onQuery` is emitted once the stream ends.
+	 *
+	 * @example
+	 * ```typescript
+	 * const rows = adapter.queryStream({ sql: "SELECT id, email FROM User", args: [], argTypes: [] });
+	 * for await (const [id, email] of rows) {
+	 *   await output.write(`${id},${email}\n`);
+	 * }
+	 * ```
+	 */
+	async *queryStream(query: SqlQuery): AsyncGenerator<unknown[], void, undefined> {
+		const tag = "[js::queryStream]";
 		debug(`${tag} %O`, query);
 
+		const start = performance.now();
+		const inTransaction = this.db.inTransaction;
+		let args: unknown[] = query.args;
+		let rowCount = 0;
+		let stmt: Statement | undefined;
+		let failed = false;
+
+		const span = startSpan(
+			this.adapterOptions?.tracing,
+			"sqlite.queryStream",
+			{ "db.statement": query.sql, "db.operation": statementOperation(query.sql) },
+			this.traceParent(),
+		);
+
 		try {
-			// Map arguments from Prisma format to SQLite format
-			// Always run mapArg to ensure strings for ints/decimals are coerced like the official adapters
-			const args = query.args.map((arg, i) => {
-				const argType = query.argTypes[i];
-				return argType ? mapArg(arg, argType, this.timestampFormat) : arg;
-			});
+			args = this.mapArgs(query);
+			// Not cached: the statement stays active until the stream ends, while queryRaw() may run the same SQL
+			stmt = this.db.prepare(query.sql);
+
+			// iterate() yields objects, which keep one value per column name
+			const columnNames = stmt.columnNames;
+			const duplicates = columnNames.filter((name, i) => columnNames.indexOf(name) !== i);
+			if (duplicates.length > 0) {
+				throw new Error(
+					`queryStream() cannot return several columns named ${[...new Set(duplicates)].join(", ")}. ` +
+						`Alias them in the SELECT list.`,
+				);
+			}
 
-			// Use db.query() which caches compiled statements (vs db.prepare() which recompiles every time)
-			const stmt = this.db.query(query.sql);
-
-			// IMPORTANT: Use stmt.values() instead of stmt.all() to preserve column order
-			// When queries have duplicate column names (e.g., SELECT u.id, p.id),
-			// stmt.all() returns objects which lose duplicate keys, causing data corruption.
-			// stmt.values() returns arrays preserving all columns in order.
-			const rowArrays = stmt.values(...(args as SQLQueryBindings[])) ?? [];
-
-			// Get metadata after execution (Bun 1.3.3+ pattern)
-			let columnNames: string[] = [];
-			let declaredTypes: (string | null)[] = [];
-			try {
-				columnNames = stmt.columnNames?.slice() ?? [];
-				declaredTypes = stmt.declaredTypes?.slice() ?? [];
-			} catch {
-				// Metadata not available (edge case), use defaults from first row
-				const firstRow = rowArrays[0];
-				if (firstRow) {
-					columnNames = firstRow.map((_, i) => `column_${i}`);
-					declaredTypes = firstRow.map(() => null);
+			let columnTypes: ReturnType<typeof getColumnTypes> | undefined;
+			let columnCodecs: (ColumnCodec | undefined)[] | undefined;
+			for (const object of stmt.iterate(...(args as SQLQueryBindings[])) as Iterable<Record<string, unknown>>) {
+				const row = columnNames.map((name) => object[name]);
+				// Reading stmt.columnTypes here would reset the statement, so the first row stands in for it
+				if (!columnTypes) {
+					const declaredTypes = stmt.declaredTypes.slice();
+					columnTypes = getColumnTypes(declaredTypes, runtimeTypesFromRow(row), row);
+					columnCodecs = this.columnCodecs(query.sql, columnNames, declaredTypes, columnTypes);
 				}
+				rowCount++;
+				yield mapRow(row, columnTypes, this.conversion, row, columnCodecs);
 			}
+		} catch (error: any) {
+			failed = true;
+			const adapterError = new DriverAdapterError(convertDriverError(error));
+			endSpanWithError(span, adapterError);
+			invokeHook("onError", this.adapterOptions?.onError, {
+				method: "queryStream",
+				sql: query.sql,
+				args,
+				durationMs: performance.now() - start,
+				inTransaction,
+				retries: 0,
+				error: adapterError,
+				kind: adapterError.cause.kind,
+			});
+			throw adapterError;
+		} finally {
+			// Also runs when the consumer stops early; an active statement holds its read lock
+			stmt?.finalize();
+			if (!failed) {
+				span?.setAttribute("db.sqlite.rows_returned", rowCount);
+				span?.end();
+				invokeHook("onQuery", this.adapterOptions?.onQuery, {
+					method: "queryStream",
+					sql: query.sql,
+					args,
+					durationMs: performance.now() - start,
+					inTransaction,
+					retries: 0,
+					rowCount,
+				});
+			}
+		}
+	}
 
-			// Handle column count mismatch due to duplicate names in JOINs
-			const firstRow = rowArrays[0];
-			if (firstRow && firstRow.length !== columnNames.length) {
-				const actualColumnCount = Math.max(
-					declaredTypes.length,
-					firstRow.length,
-					columnNames.length,
-				);
+	/**
+	 * Run a statement with argument mapping, retries, error conversion and hooks
+	 *
+	 * Every statement goes through here, so instrumentation only has to be added once.
+	 *
+	 * @param method - Public method name, used for the debug tag and hook events
+	 * @param query - Query as received from Prisma
+	 * @param execute - Synchronous execution with mapped arguments, throwing raw bun:sqlite errors
+	 * @param summarize - Extracts row counts from the result for the onQuery event
+	 */
+	protected async runStatement<T>(
+		method: QueryMethod,
+		query: SqlQuery,
+		execute: (args: unknown[]) => T,
+		summarize: (result: T) => Pick<QueryEvent, "rowCount" | "changes" | "lastInsertId">,
+	): Promise<T> {
+		const tag = `[js::${method}]`;
+		debug(`${tag} %O`, query);
 
-				if (columnNames.length < actualColumnCount) {
-					for (let i = columnNames.length; i < actualColumnCount; i++) {
-						columnNames.push(`column_${i}`);
-					}
-				}
+		const start = performance.now();
+		const inTransaction = this.db.inTransaction;
+		let args: unknown[] = query.args;
+		let retries = 0;
 
-				if (declaredTypes.length < actualColumnCount) {
-					for (let i = declaredTypes.length; i < actualColumnCount; i++) {
-						declaredTypes.push(null);
-					}
-				}
+		const span = startSpan(
+			this.adapterOptions?.tracing,
+			`sqlite.${method}`,
+			{ "db.statement": query.sql, "db.operation": statementOperation(query.sql) },
+			this.traceParent(),
+		);
+
+		let result: T;
+		let event: QueryEvent;
+		try {
+			args = this.mapArgs(query);
+
+			// A script may fail halfway through, after earlier statements were committed
+			const retryPolicy = method !== "executeScript" && this.canRetry() ? this.retryPolicy : undefined;
+			result = await withRetry(
+				retryPolicy,
+				tag,
+				() => execute(args),
+				() => retries++,
+			);
+			const counts = summarize(result);
+
+			if (span) {
+				if (counts.rowCount !== undefined) span.setAttribute("db.sqlite.rows_returned", counts.rowCount);
+				if (counts.changes !== undefined) span.setAttribute("db.sqlite.rows_affected", counts.changes);
+				span.end();
 			}
 
-			// Get runtime column types (available after execution)
-			// This provides actual types for computed columns (COUNT, expressions, etc.)
-			// Note: columnTypes throws for non-read-only statements (INSERT...RETURNING, etc.) and pragmas
-			let runtimeTypes: (string | null)[] = [];
-			try {
-				runtimeTypes = stmt.columnTypes?.slice() ?? [];
-			} catch {
-				// columnTypes not available for INSERT/UPDATE/DELETE with RETURNING or certain pragmas
+			event = {
+				method,
+				sql: query.sql,
+				args,
+				durationMs: performance.now() - start,
+				inTransaction,
+				retries,
+				...counts,
+			};
+			invokeHook("onQuery", this.adapterOptions?.onQuery, event);
+		} catch (error: any) {
+			const adapterError = new DriverAdapterError(convertDriverError(error));
+			endSpanWithError(span, adapterError);
+
+			invokeHook("onError", this.adapterOptions?.onError, {
+				method,
+				sql: query.sql,
+				args,
+				durationMs: performance.now() - start,
+				inTransaction,
+				retries,
+				error: adapterError,
+				kind: adapterError.cause.kind,
+			});
+			throw adapterError;
+		}
+
+		// The statement succeeded: reporting it must not turn it into a failure
+		this.reportSlowQuery(event);
+		return result;
+	}
+
+	/**
+	 * Map arguments from Prisma format to SQLite format
+	 * Always runs mapArg to ensure strings for ints/decimals are coerced like the official adapters
+	 */
+	private mapArgs(query: SqlQuery): unknown[] {
+		// The SQL is only analyzed when a codec or a DATE/TIME column can change the conversion
+		const analyze =
+			this.codecs.hasCodecs ||
+			(query.argTypes.some((argType) => argType?.scalarType === "datetime") && this.codecs.hasDateOrTimeColumns());
+		const columns = analyze ? this.codecs.forArguments(query.sql) : undefined;
+		return query.args.map((arg, i) => {
+			const argType = query.argTypes[i];
+			return argType ? mapArg(arg, argType, this.conversion, columns?.[i]) : arg;
+		});
+	}
+
+	/**
+	 * Codecs of the result columns, applying their `columnType` to `columnTypes`
+	 */
+	private columnCodecs(
+		sql: string,
+		columnNames: string[],
+		declaredTypes: (string | null)[],
+		columnTypes: ColumnType[],
+	): (ColumnCodec | undefined)[] | undefined {
+		if (!this.codecs.hasCodecs) return undefined;
+		const codecs = this.codecs.forColumns(sql, columnNames, declaredTypes);
+		codecs?.forEach((codec, i) => {
+			if (codec?.columnType !== undefined) columnTypes[i] = codec.columnType;
+		});
+		return codecs;
+	}
+
+	/**
+	 * JSONB to JSON text, decoded in JS; JSON5 elements are left to SQLite's `json()`
+	 */
+	private decodeJsonb(blob: Uint8Array): string {
+		try {
+			return decodeJsonb(blob);
+		} catch (error) {
+			if (!(error instanceof UnsupportedJsonbError)) throw error;
+			// Constant SQL - left to bun:sqlite's own cache rather than the LRU
+			return this.db.query("SELECT json(?)").values(blob)[0]![0] as string;
+		}
+	}
+
+	/**
+	 * Explain and report a statement that exceeded slowQueryThresholdMs
+	 * Reports go to onSlowQuery, or to the debug log when no hook is set; failures are only logged
+	 */
+	private reportSlowQuery(event: QueryEvent): void {
+		const thresholdMs = this.adapterOptions?.slowQueryThresholdMs;
+		if (thresholdMs === undefined || event.durationMs < thresholdMs) return;
+		if (event.method === "executeScript" || event.method === "queryStream") return;
+
+		const onSlowQuery = this.adapterOptions?.onSlowQuery;
+		if (!onSlowQuery && !debug.enabled) return;
+
+		try {
+			const report = buildSlowQueryReport(
+				this.db,
+				{ ...event, method: event.method },
+				this.adapterOptions?.slowQueryArgs,
+			);
+			if (onSlowQuery) {
+				invokeHook("onSlowQuery", onSlowQuery, report);
+			} else {
+				debug("[js::slowQuery] %s", formatSlowQueryReport(report));
 			}
+		} catch (error) {
+			// e.g. a slowQueryArgs function that throws
+			debug("[js::slowQuery] report failed: %O", error);
+		}
+	}
+
+	/**
+	 * Run a query synchronously, throwing raw bun:sqlite errors
+	 */
+	private performQuery(sql: string, args: unknown[]): SqlResultSet {
+		return this.statements.use(sql, (stmt) => this.readResultSet(stmt, sql, args));
+	}
+
+	/**
+	 * Execute a prepared query and convert its rows and column metadata
+	 */
+	private readResultSet(stmt: Statement, sql: string, args: unknown[]): SqlResultSet {
+		// IMPORTANT: Use stmt.values() instead of stmt.all() to preserve column order
+		// When queries have duplicate column names (e.g., SELECT u.id, p.id),
+		// stmt.all() returns objects which lose duplicate keys, causing data corruption.
+		// stmt.values() returns arrays preserving all columns in order.
+		const rowArrays = stmt.values(...(args as SQLQueryBindings[])) ?? [];
 
-			// Get column types, using runtime types for computed columns
-			// Pass first row for type inference when metadata is unavailable (e.g., pragmas)
-			const columnTypes = getColumnTypes(declaredTypes, runtimeTypes, firstRow);
-
-			// If no results, return empty set with column metadata
-			if (rowArrays.length === 0) {
-				return {
-					columnNames,
-					columnTypes,
-					rows: [],
-				};
+		// Get metadata after execution (Bun 1.3.3+ pattern)
+		let columnNames: string[] = [];
+		let declaredTypes: (string | null)[] = [];
+		try {
+			columnNames = stmt.columnNames?.slice() ?? [];
+			declaredTypes = stmt.declaredTypes?.slice() ?? [];
+		} catch {
+			// Metadata not available (edge case), use defaults from first row
+			const firstRow = rowArrays[0];
+			if (firstRow) {
+				columnNames = firstRow.map((_, i) => `column_${i}`);
+				declaredTypes = firstRow.map(() => null);
 			}
+		}
 
-			// Map rows to Prisma format
-			const mappedRows = rowArrays.map((rowArray) =>
-				mapRow(rowArray, columnTypes, this.allowBigIntToNumberConversion),
+		// Handle column count mismatch due to duplicate names in JOINs
+		const firstRow = rowArrays[0];
+		if (firstRow && firstRow.length !== columnNames.length) {
+			const actualColumnCount = Math.max(
+				declaredTypes.length,
+				firstRow.length,
+				columnNames.length,
 			);
 
+			if (columnNames.length < actualColumnCount) {
+				for (let i = columnNames.length; i < actualColumnCount; i++) {
+					columnNames.push(`column_${i}`);
+				}
+			}
+
+			if (declaredTypes.length < actualColumnCount) {
+				for (let i = declaredTypes.length; i < actualColumnCount; i++) {
+					declaredTypes.push(null);
+				}
+			}
+		}
+
+		// Get runtime column types (available after execution)
+		// This provides actual types for computed columns (COUNT, expressions, etc.)
+		// Note: columnTypes throws for non-read-only statements (INSERT...RETURNING, etc.) and pragmas
+		let runtimeTypes: (string | null)[] = [];
+		try {
+			runtimeTypes = stmt.columnTypes?.slice() ?? [];
+		} catch {
+			// columnTypes not available for INSERT/UPDATE/DELETE with RETURNING or certain pragmas
+		}
+
+		// Get column types, using runtime types for computed columns
+		// Pass first row for type inference when metadata is unavailable (e.g., pragmas)
+		const columnTypes = getColumnTypes(declaredTypes, runtimeTypes, firstRow);
+		const columnCodecs = this.columnCodecs(sql, columnNames, declaredTypes, columnTypes);
+
+		// INSERT ... RETURNING reports its rowid like executeRaw
+		const lastInsertId = isInsertStatement(sql) ? this.readLastInsertId() : undefined;
+
+		// If no results, return empty set with column metadata
+		if (rowArrays.length === 0) {
 			return {
 				columnNames,
 				columnTypes,
-				rows: mappedRows,
+				rows: [],
+				...(lastInsertId !== undefined && { lastInsertId }),
 			};
-		} catch (error: any) {
-			throw new DriverAdapterError(convertDriverError(error));
 		}
+
+		// Map rows to Prisma format
+		const mappedRows = rowArrays.map((rowArray) =>
+			mapRow(
+				rowArray,
+				columnTypes,
+				this.conversion,
+				this.mapRowsInPlace ? rowArray : undefined,
+				columnCodecs,
+			),
+		);
+
+		return {
+			columnNames,
+			columnTypes,
+			rows: mappedRows,
+			...(lastInsertId !== undefined && { lastInsertId }),
+		};
+	}
+
+	/**
+	 * Rowid inserted by the statement that just ran, or undefined if it changed nothing
+	 * Read as text so 64-bit rowids stay exact without safeIntegers
+	 */
+	private readLastInsertId(): string | undefined {
+		// Constant SQL - left to bun:sqlite's own cache rather than the LRU
+		const [changes, rowid] = this.db.query("SELECT changes(), CAST(last_insert_rowid() AS TEXT)").values()[0]!;
+		return Number(changes) > 0 ? String(rowid) : undefined;
 	}
 
 	/**
 	 * Execute a query and return the number of affected rows
 	 */
 	async executeRaw(query: SqlQuery): Promise<number> {
-		const tag = "[js::executeRaw]";
-		debug(`${tag} %O`, query);
+		return (await this.executeRawWithResult(query)).changes;
+	}
 
-		try {
-			// Always map arguments to match official adapter semantics
-			const args = query.args.map((arg, i) => {
-				const argType = query.argTypes[i];
-				return argType ? mapArg(arg, argType, this.timestampFormat) : arg;
-			});
+	/**
+	 * Execute a query and return the number of affected rows, plus the rowid of the
+	 * inserted row for `INSERT` / `REPLACE` statements
+	 *
+	 * The driver adapter interface only returns a count from `executeRaw()`, so this is
+	 * the way to read `lastInsertId` for statements without `RETURNING`.
+	 *
+	 * @example
+	 * ```typescript
+	 * const { lastInsertId } = await adapter.executeRawWithResult({
+	 *   sql: "INSERT INTO legacy_log (message) VALUES (?)",
+	 *   args: ["imported"],
+	 *   argTypes: [{ scalarType: "string", arity: "scalar" }],
+	 * });
+	 * ```
+	 */
+	async executeRawWithResult(query: SqlQuery): Promise<ExecuteResult> {
+		return this.runStatement(
+			"executeRaw",
+			query,
+			(args) =>
+				this.statements.use(query.sql, (stmt): ExecuteResult => {
+					const { changes, lastInsertRowid } = stmt.run(...(args as SQLQueryBindings[]));
+					if (changes === 0 || !isInsertStatement(query.sql)) return { changes };
 
-			// Use db.query() which caches compiled statements (vs db.prepare() which recompiles every time)
-			const stmt = this.db.query(query.sql);
-			const result = stmt.run(...(args as any));
-			return result.changes;
-		} catch (error: any) {
-			throw new DriverAdapterError(convertDriverError(error));
+					// Without safeIntegers, rowids beyond 2^53 come back rounded
+					const exact = typeof lastInsertRowid === "bigint" || Number.isSafeInteger(lastInsertRowid);
+					const lastInsertId = exact ? String(lastInsertRowid) : this.readLastInsertId();
+					return { changes, ...(lastInsertId !== undefined && { lastInsertId }) };
+				}),
+			(result) => result,
+		);
+	}
+}
+
+/**
+ * Whether a statement inserts rows, so that `last_insert_rowid()` refers to it
+ *
+ * CTEs can only hold SELECTs, so after `WITH` the statement is an insert when INSERT or
+ * REPLACE follows the closing parenthesis of a CTE.
+ */
+function isInsertStatement(sql: string): boolean {
+	const operation = statementOperation(sql);
+	return (
+		operation === "INSERT" || operation === "REPLACE" || (operation === "WITH" && /\)\s*(?:INSERT|REPLACE)\b/i.test(sql))
+	);
+}
+
+/**
+ * Call a user hook, never letting its errors reach the query path
+ */
+export function invokeHook<E>(name: string, hook: ((event: E) => void) | undefined, event: E): void {
+	if (!hook) return;
+	try {
+		const result: unknown = hook(event);
+		// Async hooks are not awaited, but their rejections must not go unhandled
+		if (result instanceof Promise) {
+			result.catch((error) => debug("[js::hooks] %s rejected: %O", name, error));
 		}
+	} catch (error) {
+		debug("[js::hooks] %s threw: %O", name, error);
 	}
 }
@@ -0,0 +1,99 @@
+/**
+ * Retry with exponential backoff for SQLITE_BUSY / SQLITE_LOCKED
+ */
+
+import type { RetryConfiguration } from "./types.js";
+import { SQLITE_ERROR_MAP } from "./errors.js";
+import { debug } from "./queryable.js";
+
+/**
+ * Retry configuration with defaults applied
+ */
+export type RetryPolicy = Required<RetryConfiguration>;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 5,
+	baseDelayMs: 50,
+	maxDelayMs: 2000,
+	jitter: true,
+};
+
+/**
+ * Resolve the `retry` option into a policy
+ * Returns undefined when retries are disabled
+ *
+ * @throws Error on invalid values
+ */
+export function resolveRetryPolicy(config: boolean | RetryConfiguration | undefined): RetryPolicy | undefined {
+	if (config === undefined || config === false) return undefined;
+
+	const policy = config === true ? DEFAULT_RETRY_POLICY : { ...DEFAULT_RETRY_POLICY, ...config };
+
+	if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+		throw new Error(`Invalid retry.maxAttempts: ${policy.maxAttempts}. Must be a positive integer.`);
+	}
+	for (const option of ["baseDelayMs", "maxDelayMs"] as const) {
+		if (!Number.isFinite(policy[option]) || policy[option] < 0) {
+			throw new Error(`Invalid retry.${option}: ${policy[option]}. Must be a non-negative number.`);
+		}
+	}
+
+	return policy;
+}
+
+/**
+ * Whether a raw bun:sqlite error is worth retrying (lock contention)
+ */
+export function isRetryableError(error: any): boolean {
+	const code: unknown = error?.code || SQLITE_ERROR_MAP[error?.errno];
+	return typeof code === "string" && (code.startsWith("SQLITE_BUSY") || code.startsWith("SQLITE_LOCKED"));
+}
+
+/**
+ * Delay before retry number `retry` (1-based)
+ */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+	const delay = Math.min(policy.baseDelayMs * 2 ** (retry - 1), policy.maxDelayMs);
+	return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Run an operation, retrying lock contention errors according to the policy
+ * Other errors, and the last contention error, are rethrown unchanged
+ *
+ * @param policy - Resolved policy, or undefined to run the operation once
+ * @param tag - Debug tag of the caller
+ * @param operation - Synchronous database operation
+ * @param onRetry - Called before each retry (used for retry counts in events)
+ */
+export async function withRetry<T>(
+	policy: RetryPolicy | undefined,
+	tag: string,
+	operation: () => T,
+	onRetry?: () => void,
+): Promise<T> {
+	if (!policy) return operation();
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			const result = operation();
+			if (attempt > 1) {
+				debug(`${tag} succeeded after %d retries`, attempt - 1);
+			}
+			return result;
+		} catch (error) {
+			if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+				if (attempt > 1) {
+					debug(`${tag} giving up after %d retries`, attempt - 1);
+				}
+				throw error;
+			}
+
+			const delay = retryDelay(policy, attempt);
+			const code = (error as any)?.code ?? SQLITE_ERROR_MAP[(error as any)?.errno];
+			debug(`${tag} %s, retry %d/%d in %dms`, code, attempt, policy.maxAttempts - 1, Math.round(delay));
+			onRetry?.();
+			await Bun.sleep(delay);
+		}
+	}
+}
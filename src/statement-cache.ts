@@ -0,0 +1,106 @@
+/**
+ * LRU cache of prepared statements
+ *
+ * `db.query()` caches every distinct SQL string for the lifetime of the connection.
+ * Prisma inlines one placeholder per `IN (...)` item, so long-running processes
+ * accumulate statements without bound. This cache keeps the most recently used ones
+ * and finalizes the rest.
+ */
+
+import type { Database, Statement } from "bun:sqlite";
+
+/**
+ * Default number of cached statements (`statementCacheSize`)
+ */
+export const DEFAULT_STATEMENT_CACHE_SIZE = 100;
+
+/**
+ * Statement cache counters, returned by `getStatementCacheStats()`
+ */
+export type StatementCacheStats = {
+	/** Statements currently cached */
+	size: number;
+	/** Capacity (`statementCacheSize`); 0 when caching is disabled */
+	maxSize: number;
+	/** Lookups served from the cache */
+	hits: number;
+	/** Lookups that prepared a new statement */
+	misses: number;
+	/** Statements finalized to make room */
+	evictions: number;
+};
+
+/**
+ * Prepared statements keyed by SQL, least recently used first
+ */
+export class StatementCache {
+	// Map iteration order is insertion order: re-inserting on hit keeps the LRU entry first
+	private statements = new Map<string, Statement>();
+	private hits = 0;
+	private misses = 0;
+	private evictions = 0;
+
+	/**
+	 * @param db - Connection the statements are prepared on
+	 * @param maxSize - Capacity; 0 prepares and finalizes a statement on every call
+	 */
+	constructor(
+		private readonly db: Database,
+		readonly maxSize = DEFAULT_STATEMENT_CACHE_SIZE,
+	) {}
+
+	/**
+	 * Run `fn` with a prepared statement for `sql`, preparing it on a miss
+	 */
+	use<T>(sql: string, fn: (stmt: Statement) => T): T {
+		let stmt = this.statements.get(sql);
+		if (stmt) {
+			this.hits++;
+			this.statements.delete(sql);
+		} else {
+			this.misses++;
+			stmt = this.db.prepare(sql);
+		}
+
+		try {
+			return fn(stmt);
+		} finally {
+			if (this.maxSize === 0) {
+				stmt.finalize();
+			} else {
+				// Most recently used goes last
+				this.statements.set(sql, stmt);
+				this.evict();
+			}
+		}
+	}
+
+	/**
+	 * Finalize every cached statement. Statistics are kept.
+	 */
+	clear(): void {
+		for (const stmt of this.statements.values()) {
+			stmt.finalize();
+		}
+		this.statements.clear();
+	}
+
+	stats(): StatementCacheStats {
+		return {
+			size: this.statements.size,
+			maxSize: this.maxSize,
+			hits: this.hits,
+			misses: this.misses,
+			evictions: this.evictions,
+		};
+	}
+
+	private evict(): void {
+		while (this.statements.size > this.maxSize) {
+			const [sql, stmt] = this.statements.entries().next().value!;
+			this.statements.delete(sql);
+			stmt.finalize();
+			this.evictions++;
+		}
+	}
+}
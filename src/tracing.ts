@@ -0,0 +1,67 @@
+/**
+ * OpenTelemetry-compatible span helpers
+ *
+ * Works with any object matching the OTel `Tracer` interface, without importing
+ * `@opentelemetry/api`. Enum values are inlined from the OTel specification.
+ */
+
+import type { DriverAdapterError } from "@prisma/driver-adapter-utils";
+
+import type { SpanAttributeValue, SpanLike, TracingConfiguration } from "./types.js";
+
+/** `SpanKind.CLIENT` - the adapter is a client of the database */
+const SPAN_KIND_CLIENT = 2;
+
+/** `SpanStatusCode.ERROR` */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Start a span with the common database attributes
+ * Returns undefined when tracing is disabled
+ *
+ * @param tracing - Tracing configuration from the adapter options
+ * @param name - Span name
+ * @param attributes - Span-specific attributes
+ * @param parent - Span to parent under (transaction or savepoint)
+ */
+export function startSpan(
+	tracing: TracingConfiguration | undefined,
+	name: string,
+	attributes: Record<string, SpanAttributeValue>,
+	parent?: SpanLike,
+): SpanLike | undefined {
+	if (!tracing) return undefined;
+
+	const context = parent && tracing.contextWithSpan ? tracing.contextWithSpan(parent) : undefined;
+	return tracing.tracer.startSpan(
+		name,
+		{
+			kind: SPAN_KIND_CLIENT,
+			attributes: {
+				"db.system": "sqlite",
+				...(tracing.dbName !== undefined && { "db.name": tracing.dbName }),
+				...attributes,
+			},
+		},
+		context,
+	);
+}
+
+/**
+ * Mark a span as failed with the converted adapter error, then end it
+ */
+export function endSpanWithError(span: SpanLike | undefined, error: DriverAdapterError): void {
+	if (!span) return;
+
+	span.setAttribute("db.sqlite.error_kind", error.cause.kind);
+	span.recordException(error);
+	span.setStatus({ code: SPAN_STATUS_ERROR, message: error.cause.kind });
+	span.end();
+}
+
+/**
+ * First keyword of a statement (`SELECT`, `INSERT`, ...), used as `db.operation`
+ */
+export function statementOperation(sql: string): string {
+	return /^\s*(\w+)/.exec(sql)?.[1]?.toUpperCase() ?? "";
+}
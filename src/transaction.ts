@@ -11,8 +11,22 @@ import {
 	type TransactionOptions,
 } from "@prisma/driver-adapter-utils";
 
-import type { PrismaBunSqliteOptions, TransactionState } from "./types.js";
-import { BunSqliteQueryable, debug } from "./queryable.js";
+import type { ExecuteResult, PrismaBunSqliteOptions, SpanLike, TransactionState } from "./types.js";
+import { convertDriverError } from "./errors.js";
+import { BunSqliteQueryable, debug, invokeHook } from "./queryable.js";
+import { endSpanWithError, startSpan } from "./tracing.js";
+import type { StatementCache } from "./statement-cache.js";
+import type { CodecRegistry } from "./codecs.js";
+
+/**
+ * Thrown by `AsyncMutex.acquire()` when the lock was not obtained in time
+ */
+export class MutexTimeoutError extends Error {
+	constructor(readonly timeoutMs: number) {
+		super(`Timed out after ${timeoutMs}ms waiting for the lock`);
+		this.name = "MutexTimeoutError";
+	}
+}
 
 /**
  * Simple async mutex for serializing operations
@@ -31,7 +45,26 @@ export class AsyncMutex {
 		this.maxQueueSize = maxQueueSize;
 	}
 
-	async acquire(): Promise<() => void> {
+	/**
+	 * Number of callers waiting for the lock
+	 */
+	get queueLength(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Whether the lock is currently held
+	 */
+	get isLocked(): boolean {
+		return this.locked;
+	}
+
+	/**
+	 * Acquire the lock, waiting in a FIFO queue if it is held
+	 * @param timeoutMs Give up waiting after this many milliseconds (default: wait forever)
+	 * @throws MutexTimeoutError if the timeout elapses first
+	 */
+	async acquire(timeoutMs?: number): Promise<() => void> {
 		// If not locked, acquire immediately
 		if (!this.locked) {
 			this.locked = true;
@@ -47,11 +80,24 @@ export class AsyncMutex {
 		}
 
 		// Otherwise, wait in queue
-		return new Promise<() => void>((resolve) => {
-			this.queue.push(() => {
+		return new Promise<() => void>((resolve, reject) => {
+			let timer: ReturnType<typeof setTimeout> | undefined;
+
+			const waiter = () => {
+				clearTimeout(timer);
 				this.locked = true;
 				resolve(this.createReleaser());
-			});
+			};
+			this.queue.push(waiter);
+
+			if (timeoutMs !== undefined) {
+				timer = setTimeout(() => {
+					// Leave the queue so the lock is never handed to a caller that gave up
+					const index = this.queue.indexOf(waiter);
+					if (index !== -1) this.queue.splice(index, 1);
+					reject(new MutexTimeoutError(timeoutMs));
+				}, timeoutMs);
+			}
 		});
 	}
 
@@ -76,6 +122,20 @@ export class AsyncMutex {
 	}
 }
 
+/**
+ * Position of a transaction level in the savepoint stack
+ */
+export type TransactionLevel = {
+	savepointName?: string;
+	depth?: number;
+	span?: SpanLike;
+};
+
+/**
+ * Savepoint names are interpolated into SQL, so only plain identifiers are accepted
+ */
+const SAVEPOINT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
 /**
  * Transaction implementation with state tracking
  *
@@ -83,70 +143,322 @@ export class AsyncMutex {
  * SQL statements through executeRaw(). The commit/rollback methods update state
  * and release the mutex lock.
  *
+ * Nested transactions are savepoints (see `savepoint()`): each level is its own
+ * `BunSqliteTransaction` with its own state, using `usePhantomQuery: true` so that
+ * commit()/rollback() issue `RELEASE` / `ROLLBACK TO` themselves.
+ *
  * State tracking provides defensive programming benefits:
  * - Prevents queries on closed transactions
+ * - Prevents queries on a level while a nested savepoint is active
  * - Clear error messages for debugging
  * - Catches potential Prisma engine bugs early
  */
 export class BunSqliteTransaction extends BunSqliteQueryable implements Transaction {
 	private state: TransactionState = "active";
+	private activeSavepoint?: BunSqliteTransaction;
+	private savepointMutex = new AsyncMutex();
+	private savepointCounter = 0;
+	private closedReason?: string;
+	private hasExecuted = false;
+	private readonly startedAt = performance.now();
+	private durationTimer?: ReturnType<typeof setTimeout>;
+
+	/** Savepoint backing this level, `undefined` for the outer transaction */
+	readonly savepointName?: string;
+	/** Nesting level, 0 for the outer transaction */
+	readonly depth: number;
+	/** Tracing span covering this level, ended when it closes */
+	private readonly span?: SpanLike;
 
+	/**
+	 * @param db - Database with an open transaction (or savepoint)
+	 * @param options - Transaction options reported to Prisma
+	 * @param adapterOptions - Runtime options (conversion)
+	 * @param statements - The adapter's prepared statement cache
+	 * @param codecs - The adapter's column codec and type lookup
+	 * @param releaseLock - Releases the adapter mutex (or the parent's savepoint slot)
+	 * @param level - Nesting information, omitted for the outer transaction
+	 */
 	constructor(
 		db: Database,
 		readonly options: TransactionOptions,
 		adapterOptions: PrismaBunSqliteOptions | undefined,
+		statements: StatementCache,
+		codecs: CodecRegistry,
 		private releaseLock: () => void,
+		level: TransactionLevel = {},
 	) {
-		super(db, adapterOptions);
+		super(db, adapterOptions, statements, codecs);
+		this.savepointName = level.savepointName;
+		this.depth = level.depth ?? 0;
+		this.span = level.span;
+
+		// Abandoned-transaction recovery: only the outer transaction holds the adapter lock
+		const maxDurationMs = adapterOptions?.maxTransactionDurationMs;
+		if (this.depth === 0 && maxDurationMs !== undefined) {
+			this.durationTimer = setTimeout(() => this.expire(maxDurationMs), maxDurationMs);
+			// A forgotten transaction must not keep the process alive
+			this.durationTimer.unref?.();
+		}
 	}
 
 	/**
 	 * Execute a query within the transaction
-	 * Throws if transaction is already closed
+	 * Throws if transaction is already closed or a nested savepoint is active
 	 */
 	override async queryRaw(query: SqlQuery): Promise<SqlResultSet> {
-		if (this.state !== "active") {
-			throw new DriverAdapterError({
-				kind: "TransactionAlreadyClosed",
-				cause: `Cannot execute query on a ${this.state} transaction.`,
-			});
+		this.assertUsable("execute query on");
+		try {
+			return await super.queryRaw(query);
+		} finally {
+			this.hasExecuted = true;
 		}
-		return super.queryRaw(query);
 	}
 
 	/**
-	 * Execute a statement within the transaction
-	 * Throws if transaction is already closed
+	 * Stream a query within the transaction
+	 * Throws if transaction is already closed or a nested savepoint is active
 	 */
-	override async executeRaw(query: SqlQuery): Promise<number> {
-		if (this.state !== "active") {
+	override async *queryStream(query: SqlQuery): AsyncGenerator<unknown[], void, undefined> {
+		this.assertUsable("stream query on");
+		this.hasExecuted = true;
+		yield* super.queryStream(query);
+	}
+
+	/**
+	 * Execute a statement within the transaction (`executeRaw()` goes through here too)
+	 * Throws if transaction is already closed or a nested savepoint is active
+	 */
+	override async executeRawWithResult(query: SqlQuery): Promise<ExecuteResult> {
+		this.assertUsable("execute statement on");
+		try {
+			return await super.executeRawWithResult(query);
+		} finally {
+			this.hasExecuted = true;
+		}
+	}
+
+	/**
+	 * Only the first statement of the outer transaction is retried on SQLITE_BUSY:
+	 * nothing has been read yet, so a retry cannot act on a stale snapshot
+	 */
+	protected override canRetry(): boolean {
+		return this.depth === 0 && !this.hasExecuted;
+	}
+
+	/**
+	 * Statements are parented under the span of their transaction level
+	 */
+	protected override traceParent(): SpanLike | undefined {
+		return this.span;
+	}
+
+	/**
+	 * Start a nested transaction backed by `SAVEPOINT`.
+	 *
+	 * The returned transaction commits with `RELEASE` and rolls back with
+	 * `ROLLBACK TO` + `RELEASE`, leaving this transaction active either way.
+	 * Only one savepoint per level is active at a time: concurrent calls wait for
+	 * the previous savepoint to be committed or rolled back.
+	 *
+	 * @param name - Savepoint name (identifier characters only), generated if omitted
+	 *
+	 * @example
+	 * ```typescript
+	 * const tx = await adapter.startTransaction();
+	 * const sp = await tx.savepoint();
+	 * try {
+	 *   await sp.executeRaw({ sql: "INSERT INTO audit ...", args: [], argTypes: [] });
+	 *   await sp.commit();
+	 * } catch {
+	 *   await sp.rollback(); // only the savepoint's changes are undone
+	 * }
+	 * ```
+	 */
+	async savepoint(name?: string): Promise<BunSqliteTransaction> {
+		const tag = "[js::savepoint]";
+
+		if (name !== undefined && !SAVEPOINT_NAME_PATTERN.test(name)) {
 			throw new DriverAdapterError({
-				kind: "TransactionAlreadyClosed",
-				cause: `Cannot execute statement on a ${this.state} transaction.`,
+				kind: "GenericJs",
+				id: 0,
+				originalMessage: `Invalid savepoint name: "${name}". Use letters, digits and underscores.`,
 			});
 		}
-		return super.executeRaw(query);
+		this.assertOpen("create savepoint on");
+
+		// Serialize savepoints on this level - wait for a sibling to finish
+		const start = performance.now();
+		const releaseSlot = await this.savepointMutex.acquire();
+		if (this.state !== "active") {
+			releaseSlot();
+			this.assertOpen("create savepoint on");
+		}
+
+		const savepointName = name ?? `sp_${this.depth + 1}_${++this.savepointCounter}`;
+		debug(`${tag} %s (depth %d)`, savepointName, this.depth + 1);
+
+		const lockWaitMs = performance.now() - start;
+		const span = startSpan(
+			this.adapterOptions?.tracing,
+			"sqlite.savepoint",
+			{ "db.sqlite.savepoint": savepointName, "db.sqlite.lock_wait_ms": lockWaitMs },
+			this.span,
+		);
+
+		try {
+			this.hasExecuted = true;
+			this.db.run(`SAVEPOINT "${savepointName}"`);
+		} catch (error: any) {
+			releaseSlot();
+			const adapterError = new DriverAdapterError(convertDriverError(error));
+			endSpanWithError(span, adapterError);
+			throw adapterError;
+		}
+
+		const savepoint = new BunSqliteTransaction(
+			this.db,
+			{ usePhantomQuery: true },
+			this.adapterOptions,
+			this.statements,
+			this.codecs,
+			() => {
+				this.activeSavepoint = undefined;
+				releaseSlot();
+			},
+			{ savepointName, depth: this.depth + 1, span },
+		);
+		this.activeSavepoint = savepoint;
+		invokeHook("onTransaction", this.adapterOptions?.onTransaction, {
+			action: "begin",
+			depth: savepoint.depth,
+			savepointName,
+			durationMs: performance.now() - start,
+			lockWaitMs,
+		});
+		return savepoint;
 	}
 
 	/**
 	 * Commit the transaction
 	 * With usePhantomQuery: false, Prisma engine sends COMMIT via executeRaw
 	 * This method updates state and releases the lock
+	 *
+	 * For savepoints, issues `RELEASE SAVEPOINT` (nested savepoints are released with it)
 	 */
 	async commit(): Promise<void> {
 		debug("[js::commit]");
-		this.state = "committed";
-		this.releaseLock();
+
+		if (this.savepointName !== undefined) {
+			this.assertOpen("commit");
+			this.run(`RELEASE SAVEPOINT "${this.savepointName}"`);
+		}
+
+		this.close("committed");
 	}
 
 	/**
 	 * Rollback the transaction
 	 * With usePhantomQuery: false, Prisma engine sends ROLLBACK via executeRaw
 	 * This method updates state and releases the lock
+	 *
+	 * For savepoints, issues `ROLLBACK TO SAVEPOINT` then `RELEASE SAVEPOINT`,
+	 * undoing only the changes made since the savepoint
 	 */
 	async rollback(): Promise<void> {
 		debug("[js::rollback]");
-		this.state = "rolled_back";
+
+		if (this.savepointName !== undefined) {
+			this.assertOpen("roll back");
+			this.run(`ROLLBACK TO SAVEPOINT "${this.savepointName}"`);
+			this.run(`RELEASE SAVEPOINT "${this.savepointName}"`);
+		}
+
+		this.close("rolled_back");
+	}
+
+	/**
+	 * Mark this level (and any active nested savepoint) as closed and release the lock
+	 */
+	private close(state: Exclude<TransactionState, "active">, reason?: string): void {
+		// Already closed (e.g. expired) - the lock was released at that point
+		if (this.state !== "active") return;
+
+		clearTimeout(this.durationTimer);
+		// Ending a level ends every savepoint nested in it
+		this.activeSavepoint?.close(state, reason);
+		this.state = state;
+		this.closedReason = reason;
 		this.releaseLock();
+
+		if (this.span) {
+			this.span.setAttribute("db.sqlite.transaction.outcome", state === "committed" ? "commit" : "rollback");
+			if (reason !== undefined) this.span.setAttribute("db.sqlite.transaction.expired", true);
+			this.span.end();
+		}
+
+		invokeHook("onTransaction", this.adapterOptions?.onTransaction, {
+			action: state === "committed" ? "commit" : "rollback",
+			depth: this.depth,
+			savepointName: this.savepointName,
+			durationMs: performance.now() - this.startedAt,
+			...(reason !== undefined && { expired: true }),
+		});
+	}
+
+	/**
+	 * Force-rollback a transaction that outlived maxTransactionDurationMs
+	 * Later calls on this transaction fail with TransactionAlreadyClosed
+	 */
+	private expire(maxDurationMs: number): void {
+		if (this.state !== "active") return;
+
+		const reason = `it exceeded maxTransactionDurationMs (${maxDurationMs}ms) and was rolled back`;
+		// Reported through onTransaction (`expired: true`) and the metrics, not the console
+		debug("[js::expire] %s", reason);
+
+		try {
+			if (this.db.inTransaction) {
+				this.db.run("ROLLBACK");
+			}
+		} catch {
+			// Ignore rollback errors - the lock must be released regardless
+		}
+		this.close("rolled_back", reason);
+	}
+
+	/**
+	 * Run a savepoint control statement, mapping SQLite errors
+	 */
+	private run(sql: string): void {
+		try {
+			this.db.run(sql);
+		} catch (error: any) {
+			throw new DriverAdapterError(convertDriverError(error));
+		}
+	}
+
+	private assertOpen(action: string): void {
+		if (this.state !== "active") {
+			throw new DriverAdapterError({
+				kind: "TransactionAlreadyClosed",
+				cause: this.closedReason
+					? `Cannot ${action} a ${this.state} transaction: ${this.closedReason}.`
+					: `Cannot ${action} a ${this.state} transaction.`,
+			});
+		}
+	}
+
+	private assertUsable(action: string): void {
+		this.assertOpen(action);
+		if (this.activeSavepoint) {
+			throw new DriverAdapterError({
+				kind: "GenericJs",
+				id: 0,
+				originalMessage:
+					`Cannot ${action} a transaction while its savepoint "${this.activeSavepoint.savepointName}" is active. ` +
+					`Use the savepoint transaction, or commit/roll it back first.`,
+			});
+		}
 	}
 }
@@ -2,6 +2,9 @@
  * Type definitions for prisma-adapter-bun-sqlite
  */
 
+import type { Database } from "bun:sqlite";
+import type { ArgType, ColumnType, ConnectionInfo, DriverAdapterError } from "@prisma/driver-adapter-utils";
+
 /**
  * WAL (Write-Ahead Logging) mode configuration for SQLite.
  * Only applies to file-based databases (:memory: databases don't support WAL).
@@ -59,6 +62,303 @@ export type WalConfiguration = {
 	busyTimeout?: number;
 };
 
+/**
+ * Retry policy for statements that fail with `SQLITE_BUSY` or `SQLITE_LOCKED`.
+ * Delays grow exponentially from `baseDelayMs` up to `maxDelayMs`.
+ *
+ * Retries happen on top of `busy_timeout`: SQLite first waits on the lock itself,
+ * the adapter then backs off asynchronously so the event loop keeps running.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new PrismaBunSqlite({
+ *   url: "file:./dev.db",
+ *   retry: { maxAttempts: 5, baseDelayMs: 50, maxDelayMs: 1000, jitter: true }
+ * });
+ * ```
+ */
+export type RetryConfiguration = {
+	/**
+	 * Total number of attempts, including the first one.
+	 * @default 5
+	 */
+	maxAttempts?: number;
+
+	/**
+	 * Delay before the first retry in milliseconds, doubled on every retry.
+	 * @default 50
+	 */
+	baseDelayMs?: number;
+
+	/**
+	 * Upper bound for a single delay in milliseconds.
+	 * @default 2000
+	 */
+	maxDelayMs?: number;
+
+	/**
+	 * Randomize each delay between 50% and 100% of its value, so processes
+	 * contending for the same file do not retry in lockstep.
+	 * @default true
+	 */
+	jitter?: boolean;
+};
+
+/**
+ * SQLite extension to load on every connection.
+ * Either a path (passed to `Database.loadExtension()`) or a path with a custom entry point.
+ *
+ * @example
+ * ```typescript
+ * "./extensions/vec0"
+ * { path: "/usr/lib/mod_spatialite", entryPoint: "sqlite3_modspatialite_init" }
+ * ```
+ *
+ * @see https://bun.sh/docs/api/sqlite#loadextension
+ */
+export type SqliteExtension = string | { path: string; entryPoint?: string };
+
+/**
+ * How `BEGIN` acquires locks.
+ * - `deferred`: No lock until the first read/write. A read that later writes must upgrade
+ *   its lock, which fails with `SQLITE_BUSY` if another connection wrote in between.
+ * - `immediate`: Takes the write lock at `BEGIN`, waiting up to `busy_timeout` for it.
+ *   Recommended when other processes write to the same file.
+ * - `exclusive`: Like `immediate`; outside WAL mode also blocks readers.
+ *
+ * @see https://www.sqlite.org/lang_transaction.html
+ */
+export type TransactionMode = "deferred" | "immediate" | "exclusive";
+
+/**
+ * DateTime storage format
+ *
+ * - `iso8601`: `2025-01-01T12:00:00.000+00:00` text
+ * - `unixepoch-ms`: Unix timestamp in milliseconds (INTEGER)
+ * - `unixepoch-s`: Unix timestamp in seconds (INTEGER, REAL when there are milliseconds)
+ * - `julianday`: Julian day number (REAL), as returned by SQLite's `julianday()`
+ * - `sqlite-text`: `2025-01-01 12:00:00` UTC text, as produced by `CURRENT_TIMESTAMP`
+ *   (with `.SSS` when there are milliseconds)
+ *
+ * @see https://www.sqlite.org/lang_datefunc.html
+ */
+export type TimestampFormat = "iso8601" | "unixepoch-ms" | "unixepoch-s" | "julianday" | "sqlite-text";
+
+/**
+ * Custom conversion for the columns matched by a `codecs` key
+ *
+ * `encode` and `decode` are not called for `NULL`. Without `decode`, values are converted
+ * like any column of `columnType`.
+ */
+export type ColumnCodec = {
+	/** Column type reported to Prisma, e.g. `ColumnTypeEnum.Text` for a `UUID BLOB` read as a string */
+	columnType?: ColumnType;
+	/** Convert a value read from SQLite to what Prisma expects for `columnType` */
+	decode?: (value: unknown) => unknown;
+	/** Convert an argument from Prisma to the value bound, replacing the default conversion */
+	encode?: (value: unknown, argType: ArgType) => unknown;
+};
+
+/**
+ * Options for a single `startTransaction()` call
+ */
+export type StartTransactionOptions = {
+	/** Overrides the adapter's `transactionMode` for this transaction (only `deferred` when read-only) */
+	mode?: TransactionMode;
+};
+
+/**
+ * Result of `getConnectionInfo()`, read from the linked SQLite library at connect time
+ */
+export type BunSqliteConnectionInfo = ConnectionInfo & {
+	/** Bind parameters per statement: `maxBindValues` option, or the library's `SQLITE_MAX_VARIABLE_NUMBER` */
+	maxBindValues: number;
+	/** `sqlite_version()`, e.g. `3.45.1` */
+	sqliteVersion: string;
+	/** `PRAGMA compile_options`, e.g. `["ENABLE_FTS5", "THREADSAFE=1"]` */
+	compileOptions: string[];
+};
+
+/**
+ * Adapter method that ran a statement
+ */
+export type QueryMethod = "queryRaw" | "queryStream" | "executeRaw" | "executeScript";
+
+/**
+ * Payload of the `onQuery` hook, emitted after a statement succeeds
+ */
+export type QueryEvent = {
+	method: QueryMethod;
+	sql: string;
+	/** Arguments after conversion to SQLite values (what was actually bound) */
+	args: unknown[];
+	/** Wall time in milliseconds, including retries (`queryStream`: until the stream ended) */
+	durationMs: number;
+	/** Whether the statement ran inside a transaction */
+	inTransaction: boolean;
+	/** Number of retries after `SQLITE_BUSY` / `SQLITE_LOCKED` (see `retry`) */
+	retries: number;
+	/** Rows returned (`queryRaw`, `queryStream`) */
+	rowCount?: number;
+	/** Rows changed (`executeRaw`) */
+	changes?: number;
+	/** Rowid of the inserted row (`INSERT` / `REPLACE` that changed at least one row) */
+	lastInsertId?: string;
+};
+
+/**
+ * Result of `executeRawWithResult()`
+ */
+export type ExecuteResult = {
+	/** Rows changed */
+	changes: number;
+	/**
+	 * Rowid of the last inserted row, as a string so 64-bit values stay exact.
+	 * Set for `INSERT` / `REPLACE` statements that changed at least one row. An upsert
+	 * (`ON CONFLICT DO UPDATE`) that updated an existing row reports the last inserted rowid.
+	 */
+	lastInsertId?: string;
+};
+
+/**
+ * Payload of the `onError` hook, emitted when a statement fails
+ */
+export type QueryErrorEvent = Omit<QueryEvent, "rowCount" | "changes" | "lastInsertId"> & {
+	/** Error thrown to Prisma */
+	error: DriverAdapterError;
+	/** Converted error kind (e.g. `UniqueConstraintViolation`, `SocketTimeout`) */
+	kind: DriverAdapterError["cause"]["kind"];
+};
+
+/**
+ * Payload of the `onTransaction` hook
+ *
+ * - `begin`: Emitted once `BEGIN` (or `SAVEPOINT`) succeeded. `durationMs` includes the wait for the lock.
+ * - `commit` / `rollback`: Emitted when the transaction (or savepoint) ends. `durationMs` is its lifetime.
+ */
+export type TransactionEvent = {
+	action: "begin" | "commit" | "rollback";
+	/** 0 for the outer transaction, 1+ for savepoints */
+	depth: number;
+	savepointName?: string;
+	/** Lock mode (`begin` of the outer transaction only) */
+	mode?: TransactionMode;
+	durationMs: number;
+	/** Time spent waiting for the transaction lock (`begin` only) */
+	lockWaitMs?: number;
+	/** Number of `BEGIN` retries after `SQLITE_BUSY` (`begin` of the outer transaction only) */
+	retries?: number;
+	/** Set when the rollback was forced by `maxTransactionDurationMs` */
+	expired?: boolean;
+};
+
+/**
+ * Node of an `EXPLAIN QUERY PLAN` tree
+ *
+ * @see https://www.sqlite.org/eqp.html
+ */
+export type QueryPlanNode = {
+	id: number;
+	/** Plan step, e.g. `SCAN users` or `SEARCH users USING INDEX users_email (email=?)` */
+	detail: string;
+	children: QueryPlanNode[];
+};
+
+/**
+ * How bound arguments appear in slow query reports
+ * - `redact`: Replace each value with its type (`<string>`, `<number>`, `<bigint>`, `<blob>`); `null` is kept
+ * - `include`: Report the values as bound
+ * - function: Custom redaction, receiving the values as bound
+ */
+export type SlowQueryArgsPolicy = "redact" | "include" | ((args: unknown[]) => unknown[]);
+
+/**
+ * Payload of the `onSlowQuery` hook, emitted after a statement exceeded `slowQueryThresholdMs`
+ */
+export type SlowQueryReport = {
+	method: Exclude<QueryMethod, "executeScript" | "queryStream">;
+	sql: string;
+	/** Arguments after applying `slowQueryArgs` */
+	args: unknown[];
+	durationMs: number;
+	inTransaction: boolean;
+	/** Top-level steps of the query plan */
+	plan: QueryPlanNode[];
+	/** Whether the plan scans a table without an index (`SCAN <table>`) */
+	fullScan: boolean;
+	/** Tables read by a full scan */
+	scannedTables: string[];
+	/** Set when `EXPLAIN QUERY PLAN` failed; `plan` is then empty */
+	planError?: string;
+};
+
+/**
+ * Attribute value accepted by spans
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Subset of the OpenTelemetry `Span` interface used by the adapter.
+ * Any OTel span satisfies it.
+ *
+ * @see https://opentelemetry.io/docs/specs/otel/trace/api/#span
+ */
+export type SpanLike = {
+	setAttribute(key: string, value: SpanAttributeValue): unknown;
+	setStatus(status: { code: number; message?: string }): unknown;
+	recordException(exception: Error): unknown;
+	end(): void;
+};
+
+/**
+ * Subset of the OpenTelemetry `Tracer` interface used by the adapter.
+ * Any OTel tracer satisfies it, so `@opentelemetry/api` is not a dependency.
+ *
+ * @see https://opentelemetry.io/docs/specs/otel/trace/api/#tracer
+ */
+export type TracerLike = {
+	startSpan(
+		name: string,
+		options?: { kind?: number; attributes?: Record<string, SpanAttributeValue> },
+		context?: unknown,
+	): SpanLike;
+};
+
+/**
+ * Tracing configuration.
+ *
+ * @example
+ * ```typescript
+ * import { context, trace } from "@opentelemetry/api";
+ *
+ * const adapter = new PrismaBunSqlite({
+ *   url: "file:./dev.db",
+ *   tracing: {
+ *     tracer: trace.getTracer("db"),
+ *     // Parent query spans under their transaction span
+ *     contextWithSpan: (span) => trace.setSpan(context.active(), span as any),
+ *   },
+ * });
+ * ```
+ */
+export type TracingConfiguration = {
+	/** Tracer creating the spans (e.g. `trace.getTracer("db")`) */
+	tracer: TracerLike;
+
+	/**
+	 * Builds the context passed to `startSpan()` so that spans started inside a
+	 * transaction are children of the transaction span. Without it, spans use
+	 * the tracer's active context.
+	 */
+	contextWithSpan?: (span: SpanLike) => unknown;
+
+	/**
+	 * Value of the `db.name` attribute.
+	 * @default the database path from the connection URL
+	 */
+	dbName?: string;
+};
+
 /**
  * Runtime options for BunSqlite adapter.
  * These options control how data is converted between SQLite and Prisma formats.
@@ -78,14 +378,30 @@ export type PrismaBunSqliteOptions = {
 	 * How to format DateTime values in the database.
 	 * - `iso8601`: Stores as ISO 8601 strings (human-readable, default, recommended)
 	 * - `unixepoch-ms`: Stores as Unix timestamps in milliseconds (more efficient)
+	 * - `unixepoch-s`, `julianday`, `sqlite-text`: Formats found in existing databases
+	 *   (see `TimestampFormat`)
 	 *
 	 * **Warning:** When using `unixepoch-ms`, you must also set either
 	 * `allowBigIntToNumberConversion` or `allowUnsafeDateTimeAggregates` to acknowledge
-	 * a known limitation with DateTime aggregate functions. See documentation for details.
+	 * a known limitation with DateTime aggregate functions. `unixepoch-s` and `julianday`
+	 * require `allowUnsafeDateTimeAggregates`. See documentation for details.
 	 *
 	 * @default "iso8601"
 	 */
-	timestampFormat?: "iso8601" | "unixepoch-ms";
+	timestampFormat?: TimestampFormat;
+
+	/**
+	 * Accept any supported timestamp format when reading DateTime columns, per value.
+	 * With a numeric `timestampFormat`, numbers are read in that format. With a text format
+	 * (`iso8601`, `sqlite-text`), whose numbers could be in any unit, they are read like SQLite's
+	 * `auto` modifier: 0 to 5373484.5 as Julian days, up to 253402300799 (year 9999) as Unix
+	 * seconds, larger values as milliseconds.
+	 * Text in ISO 8601 or SQLite's `YYYY-MM-DD HH:MM:SS` form is read as UTC unless it
+	 * has a time zone. Arguments are still written in `timestampFormat`.
+	 *
+	 * @default false
+	 */
+	tolerantTimestamps?: boolean;
 
 	/**
 	 * Enable safe 64-bit integer handling.
@@ -97,6 +413,76 @@ export type PrismaBunSqliteOptions = {
 	 */
 	safeIntegers?: boolean;
 
+	/**
+	 * How Prisma `Decimal` values are converted.
+	 * - `real`: Bound as JS numbers and returned as numbers (precision beyond ~15 significant digits is lost)
+	 * - `text`: Bound as normalized decimal strings (`"1.50"` → `"1.5"`) and returned as strings
+	 *
+	 * `text` only partly solves precision: the adapter keeps every digit, but Prisma Migrate declares
+	 * `Decimal` columns as `DECIMAL`, whose NUMERIC affinity makes SQLite store numeric-looking text
+	 * as REAL with 15 significant digits. For exact values, declare the column `TEXT` in the generated
+	 * migration SQL (`"amount" TEXT NOT NULL`). TEXT columns sort and compare as strings (`"10" < "9"`),
+	 * and migrations generated later by `prisma migrate dev` may turn them back into `DECIMAL`.
+	 * Connecting with `text` reports `DECIMAL` columns to `onWarning`. See "Decimal Storage" in the README.
+	 *
+	 * @default "real"
+	 */
+	decimalStorage?: "real" | "text";
+
+	/**
+	 * How BLOB values are returned.
+	 * - `array`: Copied into `number[]`, which every Prisma API accepts
+	 * - `uint8array`: The `Uint8Array` read by bun:sqlite, without a copy
+	 *
+	 * `uint8array` does not work with raw queries: `$queryRaw` and `$queryRawUnsafe` fail with
+	 * "Cannot serialize value of type object as Bytes" on BLOB columns. Select `hex(col)` there
+	 * or keep `array`. See "Bytes" in the README.
+	 *
+	 * @default "array"
+	 */
+	bytesOutput?: "array" | "uint8array";
+
+	/**
+	 * Rewrite `Json` arguments with object keys sorted and insignificant whitespace removed,
+	 * so that equal documents are stored as identical text (and match in `equals` filters).
+	 * Numbers keep their original spelling. Implies `validateJson`.
+	 *
+	 * @default false
+	 */
+	canonicalJson?: boolean;
+
+	/**
+	 * Reject `Json` arguments that are not valid JSON before they are written.
+	 * Prisma always sends valid JSON; this guards raw queries and other callers.
+	 *
+	 * @default false
+	 */
+	validateJson?: boolean;
+
+	/**
+	 * Custom conversions keyed by declared type or by `table.column`, which takes precedence.
+	 * A declared type key matches the whole declared type or its first word (`MONEY` matches
+	 * `MONEY INTEGER` and `MONEY(10,2)`). Keys are case-insensitive.
+	 *
+	 * Result columns are matched by name and declared type in the tables the statement
+	 * reads; arguments by the column they are inserted into, assigned to or compared with
+	 * (`=`, `<`, `IN`, `LIKE`, ...). Computed columns and other arguments are not converted.
+	 *
+	 * @example
+	 * ```typescript
+	 * codecs: {
+	 *   MONEY: {
+	 *     columnType: ColumnTypeEnum.Numeric,
+	 *     decode: (cents) => (Number(cents) / 100).toFixed(2),
+	 *     encode: (amount) => Math.round(Number(amount) * 100),
+	 *   },
+	 * }
+	 * ```
+	 *
+	 * @default undefined
+	 */
+	codecs?: Record<string, ColumnCodec>;
+
 	/**
 	 * WAL (Write-Ahead Logging) configuration.
 	 * - `true`: Enable WAL with default settings
@@ -110,6 +496,254 @@ export type PrismaBunSqliteOptions = {
 	 */
 	wal?: boolean | WalConfiguration;
 
+	/**
+	 * Open the database read-only.
+	 * Write attempts fail with a `DatabaseAccessDenied` error (Prisma P1010)
+	 * instead of reaching the database file, and transactions always start
+	 * with `BEGIN DEFERRED`.
+	 *
+	 * With `wal` enabled, the connection keeps the file's journal mode rather than
+	 * switching it, and moves to WAL once a writable connection enables it.
+	 *
+	 * Equivalent to `mode=ro` in the database URL. Does not apply to the shadow database.
+	 *
+	 * @default false
+	 */
+	readonly?: boolean;
+
+	/**
+	 * Lock mode used by `BEGIN` for transactions.
+	 * Use `immediate` when another process (a worker, a cron job, the Prisma CLI) writes
+	 * to the same database file: writers then queue on `busy_timeout` at `BEGIN` instead
+	 * of failing with `SQLITE_BUSY` when upgrading a read lock mid-transaction.
+	 *
+	 * Can be overridden per transaction with `adapter.startTransaction(level, { mode })`.
+	 * Read-only connections only support `deferred`.
+	 *
+	 * @default "deferred"
+	 * @see TransactionMode
+	 */
+	transactionMode?: TransactionMode;
+
+	/**
+	 * Called after every successful statement with its SQL, bound arguments,
+	 * duration and row counts. Hook errors are caught and logged via the debug logger.
+	 *
+	 * @example
+	 * ```typescript
+	 * onQuery: (event) => {
+	 *   histogram.observe({ method: event.method }, event.durationMs);
+	 *   if (event.durationMs > 100) logger.warn({ sql: event.sql }, "slow query");
+	 * }
+	 * ```
+	 */
+	onQuery?: (event: QueryEvent) => void;
+
+	/**
+	 * Called when a statement fails, with the converted `DriverAdapterError` and its kind.
+	 * The error is still thrown to Prisma.
+	 */
+	onError?: (event: QueryErrorEvent) => void;
+
+	/**
+	 * Called when a transaction or savepoint begins, commits or rolls back.
+	 */
+	onTransaction?: (event: TransactionEvent) => void;
+
+	/**
+	 * Number of prepared statements kept per connection. Least recently used
+	 * statements are finalized when the cache is full; `0` prepares every statement
+	 * anew. Prisma inlines one placeholder per `IN (...)` item, so each list length
+	 * is a distinct statement.
+	 *
+	 * @default 100
+	 */
+	statementCacheSize?: number;
+
+	/**
+	 * Bind parameters Prisma may use per statement, reported in `getConnectionInfo()`.
+	 * Prisma splits `createMany` and large `IN (...)` filters into chunks of this size.
+	 *
+	 * By default the limit of the linked SQLite library is detected at connect time:
+	 * its `MAX_VARIABLE_NUMBER` compile option, or else 32766 for SQLite 3.32.0+ and
+	 * 999 for older versions. Values above the library limit make those statements
+	 * fail with "too many SQL variables".
+	 *
+	 * @default detected
+	 */
+	maxBindValues?: number;
+
+	/**
+	 * Convert `queryRaw` rows into the arrays returned by bun:sqlite instead of copying
+	 * them, so that a large result set is not held twice while it is converted.
+	 *
+	 * Result sets still hold every row; use `adapter.queryStream()` for results that do
+	 * not fit in memory.
+	 *
+	 * @default false
+	 */
+	mapRowsInPlace?: boolean;
+
+	/**
+	 * Statements (`queryRaw` / `executeRaw`) taking at least this many milliseconds
+	 * are explained with `EXPLAIN QUERY PLAN` (using the same bound arguments) and
+	 * reported to `onSlowQuery`. Without the hook, reports only go to the debug log
+	 * (`DEBUG=prisma:driver-adapter:bun-sqlite`) and nothing is explained unless it is enabled.
+	 *
+	 * The plan is captured after the statement ran, so reporting adds the cost of
+	 * preparing the `EXPLAIN` statement to slow queries only.
+	 *
+	 * @default undefined (disabled)
+	 */
+	slowQueryThresholdMs?: number;
+
+	/**
+	 * Called with a `SlowQueryReport` for every statement exceeding `slowQueryThresholdMs`.
+	 * Hook errors, and errors from a `slowQueryArgs` function, are caught and logged via the
+	 * debug logger: the statement has already run and its result is returned regardless.
+	 *
+	 * @example
+	 * ```typescript
+	 * onSlowQuery: (report) => {
+	 *   if (report.fullScan) logger.warn({ sql: report.sql, tables: report.scannedTables }, "missing index?");
+	 * }
+	 * ```
+	 */
+	onSlowQuery?: (report: SlowQueryReport) => void;
+
+	/**
+	 * How bound arguments appear in slow query reports.
+	 *
+	 * @default "redact"
+	 * @see SlowQueryArgsPolicy
+	 */
+	slowQueryArgs?: SlowQueryArgsPolicy;
+
+	/**
+	 * Create OpenTelemetry-compatible spans for statements and transactions.
+	 * Spans carry `db.system`, `db.name`, `db.statement`, row counts, lock wait
+	 * time and the error kind on failure.
+	 *
+	 * @see TracingConfiguration
+	 */
+	tracing?: TracingConfiguration;
+
+	/**
+	 * Retry statements failing with `SQLITE_BUSY` / `SQLITE_LOCKED`.
+	 * - `true`: Retry with default settings
+	 * - `RetryConfiguration`: Retry with custom settings
+	 * - `undefined`: No retries (default)
+	 *
+	 * Only retries when it is safe: statements outside a transaction, the first
+	 * statement of a transaction, and `BEGIN`. A statement failing later in a
+	 * transaction may have lost its snapshot, so the error is surfaced instead.
+	 *
+	 * @default undefined (no retries)
+	 * @see RetryConfiguration
+	 */
+	retry?: boolean | RetryConfiguration;
+
+	/**
+	 * Maximum time in milliseconds `startTransaction()` waits for the previous
+	 * transaction to finish. Transactions are serialized on the single connection,
+	 * so a slow or abandoned transaction otherwise blocks every later one.
+	 *
+	 * On timeout, fails with a `TooManyConnections` error (Prisma P2037).
+	 *
+	 * @default undefined (wait forever)
+	 */
+	acquireTimeoutMs?: number;
+
+	/**
+	 * Maximum lifetime of a transaction in milliseconds. When exceeded, the adapter
+	 * rolls the transaction back, marks it `rolled_back` and releases the lock so
+	 * queued transactions can proceed. Later calls on the expired transaction fail
+	 * with a `TransactionAlreadyClosed` error (Prisma P1018). The rollback is reported
+	 * to `onTransaction` with `expired: true`.
+	 *
+	 * Recovers from interactive transactions that are never committed or rolled back.
+	 * Set it above Prisma's interactive transaction `timeout` so Prisma's own timeout
+	 * fires first in normal operation.
+	 *
+	 * @default undefined (no limit)
+	 */
+	maxTransactionDurationMs?: number;
+
+	/**
+	 * Additional PRAGMAs applied to every connection (main and shadow database).
+	 * Each PRAGMA is read back after being set, and connecting fails if the value
+	 * did not take effect. Booleans are written as `ON`/`OFF`.
+	 *
+	 * Applied after `wal` and before URL parameters.
+	 *
+	 * @example
+	 * ```typescript
+	 * pragmas: {
+	 *   cache_size: -64000,       // 64MB page cache
+	 *   mmap_size: 268435456,     // 256MB memory-mapped I/O
+	 *   temp_store: "MEMORY",
+	 *   journal_size_limit: 67108864,
+	 *   recursive_triggers: true,
+	 * }
+	 * ```
+	 *
+	 * @see https://www.sqlite.org/pragma.html
+	 */
+	pragmas?: Record<string, string | number | boolean>;
+
+	/**
+	 * SQLite extensions loaded on every connection (main and shadow database),
+	 * right after opening and before any PRAGMA or query. Loading them on the shadow
+	 * database lets Prisma Migrate diff migrations that use extension functions or
+	 * virtual tables (e.g. `vec0`, spatialite).
+	 *
+	 * A failing extension surfaces as a `DriverAdapterError` naming the extension.
+	 *
+	 * @see SqliteExtension
+	 */
+	extensions?: SqliteExtension[];
+
+	/**
+	 * Path to a SQLite library used instead of the one bundled with Bun,
+	 * set with `Database.setCustomSQLite()` before the first connection is opened.
+	 *
+	 * Mostly needed on macOS, where the system SQLite disables extension loading.
+	 * The library is process-wide: it must be set before any `bun:sqlite` database is
+	 * opened, and cannot be changed afterwards.
+	 * Connecting fails if the library cannot be opened or connections do not run it
+	 * (`Database.setCustomSQLite()` has no effect on Linux).
+	 *
+	 * @see https://bun.sh/docs/api/sqlite#setcustomsqlite
+	 */
+	customSqliteLibrary?: string;
+
+	/**
+	 * Hook called with the raw `bun:sqlite` handle once the connection is fully
+	 * configured, before the adapter is handed to Prisma. Runs for both the main
+	 * and the shadow database. If it throws, the connection is closed and the
+	 * error is rethrown.
+	 *
+	 * @example
+	 * ```typescript
+	 * onConnect: async (db) => {
+	 *   db.run("CREATE TEMP VIEW IF NOT EXISTS active_users AS SELECT * FROM User WHERE isActive = 1");
+	 * }
+	 * ```
+	 */
+	onConnect?: (db: Database) => void | Promise<void>;
+
+	/**
+	 * Called with configuration warnings, such as URL parameters that are ignored.
+	 * Runs on every connection, including the shadow database. Without it, warnings
+	 * only go to the debug log (`DEBUG=prisma:driver-adapter:bun-sqlite`).
+	 *
+	 * @example
+	 * ```typescript
+	 * onWarning: (warning) => logger.warn(warning)
+	 * ```
+	 */
+	onWarning?: (warning: string) => void;
+
 	/**
 	 * **Required when using `timestampFormat: "unixepoch-ms"`.**
 	 *
@@ -127,11 +761,13 @@ export type PrismaBunSqliteOptions = {
 	allowBigIntToNumberConversion?: boolean;
 
 	/**
-	 * **Required when using `timestampFormat: "unixepoch-ms"`.**
+	 * **Required when using `timestampFormat: "unixepoch-ms"`, `"unixepoch-s"` or `"julianday"`.**
 	 *
 	 * When `true`, acknowledges that DateTime aggregate functions (`_min`, `_max`)
 	 * may return `Invalid Date` due to BigInt-to-string conversion. Use this if you
 	 * don't use DateTime aggregates or prefer consistent BigInt→string behavior.
+	 * With `unixepoch-s` and `julianday`, aggregates return wrong dates: SQLite computes
+	 * them without column types, so the numbers reach Prisma as milliseconds.
 	 *
 	 * Choose this option if:
 	 * - You don't use DateTime aggregates
@@ -161,10 +797,17 @@ export type PrismaBunSqliteConfig = {
 	/**
 	 * Database URL - file path or `:memory:` for in-memory database.
 	 *
+	 * SQLite URI query parameters are supported (`mode`, `immutable`, `busy_timeout`,
+	 * `socket_timeout`, `journal_mode`, `synchronous`, `foreign_keys`, ...) and applied
+	 * after the adapter options. Unknown parameters are rejected.
+	 *
 	 * @example
 	 * - `"file:./dev.db"` - Relative path
 	 * - `"file:/absolute/path/db.sqlite"` - Absolute path
+	 * - `"file:./dev.db?mode=ro&busy_timeout=10000"` - With URL parameters
 	 * - `":memory:"` - In-memory database
+	 *
+	 * @see parseDatabaseUrl
 	 */
 	url: string;
 
@@ -181,8 +824,43 @@ export type PrismaBunSqliteConfig = {
 	shadowDatabaseUrl?: string;
 } & PrismaBunSqliteOptions;
 
+/**
+ * Configuration for `PrismaBunSqlite.fromDatabase()`, which adopts an existing
+ * `bun:sqlite` Database instead of opening one from a URL.
+ *
+ * @example
+ * ```typescript
+ * const db = new Database("./dev.db", { safeIntegers: true });
+ * const adapter = PrismaBunSqlite.fromDatabase(db, {
+ *   timestampFormat: "iso8601",
+ *   wal: true,
+ * });
+ * ```
+ */
+export type PrismaBunSqliteDatabaseConfig = {
+	/**
+	 * Shadow database URL for migrations (optional).
+	 *
+	 * @default ":memory:"
+	 * @see PrismaBunSqliteConfig.shadowDatabaseUrl
+	 */
+	shadowDatabaseUrl?: string;
+
+	/**
+	 * Close the adopted Database when the adapter is disposed (`prisma.$disconnect()`).
+	 * The factory cannot connect again afterwards, so Prisma's `$disconnect()` / `$connect()`
+	 * cycle fails. By default the handle stays open and ownership stays with the caller.
+	 *
+	 * @default false
+	 */
+	closeOnDispose?: boolean;
+} & PrismaBunSqliteOptions;
+
 /**
  * Transaction state for defensive programming
  * Prevents queries on closed transactions and provides clear error messages
+ *
+ * Tracked per level: the outer transaction and each savepoint have their own state.
+ * For savepoints, `committed` means released.
  */
 export type TransactionState = "active" | "committed" | "rolled_back";
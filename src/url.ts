@@ -0,0 +1,269 @@
+/**
+ * Connection URL parsing for SQLite database URLs
+ *
+ * Understands the URL format used by Prisma CLI and the official SQLite adapters,
+ * including SQLite URI query parameters:
+ *
+ * ```
+ * file:./dev.db?mode=ro&busy_timeout=10000&journal_mode=WAL
+ * ```
+ */
+
+/**
+ * How the database file is opened.
+ * Mirrors the `mode` parameter of SQLite URI filenames.
+ *
+ * - `ro`: Read-only
+ * - `rw`: Read-write, the file must already exist
+ * - `rwc`: Read-write, create the file if needed (default)
+ * - `memory`: In-memory database, the path is ignored
+ *
+ * @see https://www.sqlite.org/uri.html#urimode
+ */
+export type DatabaseUrlMode = "ro" | "rw" | "rwc" | "memory";
+
+/**
+ * Result of parsing a database URL
+ */
+export type ParsedDatabaseUrl = {
+	/** Path handed to `new Database()` (`:memory:` for in-memory databases) */
+	path: string;
+
+	/** Open mode resolved from `mode` and `immutable` parameters */
+	mode: DatabaseUrlMode;
+
+	/**
+	 * PRAGMAs requested through URL parameters, in the order they should be applied.
+	 * Keys are PRAGMA names (e.g. `busy_timeout`), values are ready to be interpolated.
+	 */
+	pragmas: Record<string, string | number>;
+
+	/** Parameters that were accepted but have no effect with this adapter */
+	warnings: string[];
+};
+
+const JOURNAL_MODES = ["DELETE", "TRUNCATE", "PERSIST", "MEMORY", "WAL", "OFF"] as const;
+const SYNCHRONOUS_MODES = ["OFF", "NORMAL", "FULL", "EXTRA"] as const;
+const URL_MODES = ["ro", "rw", "rwc", "memory"] as const;
+
+/**
+ * Connection pool parameters understood by Prisma's query engine.
+ * A single bun:sqlite connection has no pool, so these are accepted and ignored.
+ */
+const IGNORED_POOL_PARAMS = [
+	"connection_limit",
+	"pool_timeout",
+	"max_connection_lifetime",
+	"max_idle_connection_lifetime",
+] as const;
+
+const SUPPORTED_PARAMS = [
+	"mode",
+	"immutable",
+	"cache",
+	"busy_timeout",
+	"socket_timeout",
+	"journal_mode",
+	"synchronous",
+	"foreign_keys",
+	...IGNORED_POOL_PARAMS,
+];
+
+/**
+ * Parse a database URL into a path, open mode and PRAGMAs.
+ *
+ * Accepted forms:
+ * - `file:./dev.db`, `file:/absolute/path.db`, `file:///absolute/path.db`
+ * - `./dev.db`, `/absolute/path.db`
+ * - `:memory:`
+ *
+ * Paths of `file:` URLs are percent-decoded (`file:./my%20db.sqlite` opens `./my db.sqlite`).
+ *
+ * Supported query parameters:
+ * - `mode`: `ro` | `rw` | `rwc` | `memory`
+ * - `immutable`: boolean, opens the database read-only
+ * - `cache`: `private` | `shared` (`shared` is ignored with a warning)
+ * - `busy_timeout`: milliseconds
+ * - `socket_timeout`: seconds, used as busy timeout (Prisma connection string compatibility)
+ * - `journal_mode`: `DELETE` | `TRUNCATE` | `PERSIST` | `MEMORY` | `WAL` | `OFF`
+ * - `synchronous`: `OFF` | `NORMAL` | `FULL` | `EXTRA`
+ * - `foreign_keys`: boolean
+ * - `connection_limit`, `pool_timeout`, `max_connection_lifetime`,
+ *   `max_idle_connection_lifetime`: ignored with a warning
+ *
+ * @throws Error on unknown parameters, invalid values or malformed percent-encoding
+ *
+ * @example
+ * ```typescript
+ * parseDatabaseUrl("file:./dev.db?mode=ro&busy_timeout=10000");
+ * // { path: "./dev.db", mode: "ro", pragmas: { busy_timeout: 10000 }, warnings: [] }
+ * ```
+ */
+export function parseDatabaseUrl(url: string): ParsedDatabaseUrl {
+	let rest = url;
+	const isFileUri = rest.startsWith("file:");
+	if (rest.startsWith("file://")) {
+		// file:///absolute/path and file://localhost/absolute/path
+		rest = rest.slice("file://".length);
+		if (rest.startsWith("localhost/")) {
+			rest = rest.slice("localhost".length);
+		}
+	} else if (rest.startsWith("file:")) {
+		rest = rest.slice("file:".length);
+	}
+
+	// Fragments are ignored by SQLite URI filenames
+	const hashIndex = rest.indexOf("#");
+	if (hashIndex !== -1) {
+		rest = rest.slice(0, hashIndex);
+	}
+
+	const queryIndex = rest.indexOf("?");
+	const rawPath = queryIndex === -1 ? rest : rest.slice(0, queryIndex);
+	// Like SQLite URI filenames, only file: URLs are percent-decoded - plain paths are used as-is
+	const path = isFileUri ? decodePath(rawPath, url) : rawPath;
+	const params = new URLSearchParams(queryIndex === -1 ? "" : rest.slice(queryIndex + 1));
+
+	const result: ParsedDatabaseUrl = {
+		path,
+		mode: "rwc",
+		pragmas: {},
+		warnings: [],
+	};
+
+	const seen = new Set<string>();
+	let busyTimeout: number | undefined;
+	let socketTimeout: number | undefined;
+	let immutable = false;
+
+	for (const [name, value] of params) {
+		if (!SUPPORTED_PARAMS.includes(name)) {
+			throw new Error(
+				`Unknown database URL parameter "${name}" in "${url}". ` +
+					`Supported parameters: ${SUPPORTED_PARAMS.join(", ")}`,
+			);
+		}
+		if (seen.has(name)) {
+			throw new Error(`Duplicate database URL parameter "${name}" in "${url}"`);
+		}
+		seen.add(name);
+
+		switch (name) {
+			case "mode":
+				result.mode = parseEnum(name, value, URL_MODES);
+				break;
+
+			case "immutable":
+				immutable = parseBoolean(name, value);
+				break;
+
+			case "cache": {
+				const cache = parseEnum(name, value, ["private", "shared"] as const);
+				if (cache === "shared") {
+					result.warnings.push(
+						`cache=shared is ignored: bun:sqlite opens a private cache for each connection`,
+					);
+				}
+				break;
+			}
+
+			case "busy_timeout":
+				busyTimeout = parseNonNegativeInteger(name, value);
+				break;
+
+			case "socket_timeout": {
+				const seconds = Number(value);
+				if (value.trim() === "" || !Number.isFinite(seconds) || seconds < 0) {
+					throw new Error(
+						`Invalid database URL parameter socket_timeout=${value}. Must be a non-negative number of seconds.`,
+					);
+				}
+				socketTimeout = Math.round(seconds * 1000);
+				break;
+			}
+
+			case "journal_mode":
+				result.pragmas.journal_mode = parseEnum(name, value.toUpperCase(), JOURNAL_MODES);
+				break;
+
+			case "synchronous":
+				result.pragmas.synchronous = parseEnum(name, value.toUpperCase(), SYNCHRONOUS_MODES);
+				break;
+
+			case "foreign_keys":
+				result.pragmas.foreign_keys = parseBoolean(name, value) ? "ON" : "OFF";
+				break;
+
+			default:
+				// Connection pool parameters (see IGNORED_POOL_PARAMS)
+				result.warnings.push(
+					`${name} is ignored: the adapter uses a single connection per PrismaClient`,
+				);
+		}
+	}
+
+	// busy_timeout wins over socket_timeout when both are set
+	const timeout = busyTimeout ?? socketTimeout;
+	if (timeout !== undefined) {
+		result.pragmas.busy_timeout = timeout;
+	}
+
+	// bun:sqlite does not enable SQLite URI filenames, so immutable=1 cannot be forwarded
+	// as-is. The closest guarantee we can give is a read-only connection.
+	if (immutable && result.mode !== "memory") {
+		result.mode = "ro";
+	}
+
+	if (result.mode === "memory" || result.path === "" || result.path === ":memory:") {
+		if (result.mode === "ro") {
+			throw new Error(`Cannot open an in-memory database read-only ("${url}")`);
+		}
+		result.path = ":memory:";
+		result.mode = "memory";
+	}
+
+	return result;
+}
+
+function decodePath(path: string, url: string): string {
+	try {
+		return decodeURIComponent(path);
+	} catch {
+		throw new Error(
+			`Invalid percent-encoding in database URL path "${path}" in "${url}". Encode "%" as %25.`,
+		);
+	}
+}
+
+function parseBoolean(name: string, value: string): boolean {
+	switch (value.toLowerCase()) {
+		case "1":
+		case "true":
+		case "on":
+		case "yes":
+			return true;
+		case "0":
+		case "false":
+		case "off":
+		case "no":
+			return false;
+		default:
+			throw new Error(`Invalid database URL parameter ${name}=${value}. Must be a boolean (1/0, true/false).`);
+	}
+}
+
+function parseNonNegativeInteger(name: string, value: string): number {
+	if (!/^\d+$/.test(value)) {
+		throw new Error(`Invalid database URL parameter ${name}=${value}. Must be a non-negative integer.`);
+	}
+	return Number(value);
+}
+
+function parseEnum<T extends string>(name: string, value: string, allowed: readonly T[]): T {
+	if (!allowed.includes(value as T)) {
+		throw new Error(
+			`Invalid database URL parameter ${name}=${value}. Valid values: ${allowed.join(", ")}`,
+		);
+	}
+	return value as T;
+}
@@ -0,0 +1,256 @@
+/**
+ * Vector embeddings stored as BLOBs
+ *
+ * Vectors use the layout of sqlite-vec and libSQL: float32 elements in native (little-endian)
+ * byte order, or one signed byte per element for int8. Columns declared `F32_BLOB(n)` or
+ * `VECTOR(n)` (float32) and `I8_BLOB(n)` (int8) are typed `Bytes` by `mapDeclType()`.
+ *
+ * `findNearestNeighbors()` uses sqlite-vec's distance functions when the extension is loaded,
+ * else computes the distances in JS over every row.
+ */
+
+import { ColumnTypeEnum } from "@prisma/driver-adapter-utils";
+
+import type { ColumnCodec } from "./types.js";
+import type { PrismaClientLike } from "./sanity-check.js";
+
+/**
+ * Element type of a vector column
+ */
+export type VectorType = "float32" | "int8";
+
+/**
+ * Distance between two vectors: Euclidean (`l2`) or `cosine` (1 - cosine similarity)
+ */
+export type VectorMetric = "l2" | "cosine";
+
+/**
+ * Options of `findNearestNeighbors()`
+ */
+export type NearestNeighborsOptions = {
+	/** Table to search */
+	table: string;
+	/** Vector column */
+	column: string;
+	/** Vector to compare with */
+	vector: ArrayLike<number>;
+	/** Number of neighbors to return */
+	k: number;
+	/** @default "float32" */
+	type?: VectorType;
+	/** @default "l2" */
+	metric?: VectorMetric;
+	/** Other columns returned with each neighbor */
+	select?: string[];
+};
+
+/**
+ * Row found by `findNearestNeighbors()`, closest first
+ */
+export type NearestNeighbor<Row = Record<string, unknown>> = {
+	/** The `select` columns */
+	row: Row;
+	vector: Float32Array | Int8Array;
+	distance: number;
+};
+
+// Aliases of the computed columns, unlikely to clash with selected ones
+const VECTOR_ALIAS = "__vector";
+const DISTANCE_ALIAS = "__distance";
+
+/**
+ * Whether sqlite-vec is loaded, by client
+ */
+const extensionLoaded = new WeakMap<PrismaClientLike, Promise<boolean>>();
+
+/**
+ * Convert vector elements to the bytes stored in a vector column
+ *
+ * Typed arrays of the matching type are returned as a view of the same memory, unless it is
+ * a SharedArrayBuffer (Prisma's `Bytes` type needs an ArrayBuffer).
+ *
+ * @throws Error for int8 elements that are not integers from -128 to 127
+ */
+export function encodeVector(values: ArrayLike<number>, type: VectorType = "float32"): Uint8Array<ArrayBuffer> {
+	let vector: Float32Array<ArrayBuffer> | Int8Array<ArrayBuffer>;
+	if (values instanceof (type === "float32" ? Float32Array : Int8Array) && values.buffer instanceof ArrayBuffer) {
+		vector = values as Float32Array<ArrayBuffer> | Int8Array<ArrayBuffer>;
+	} else if (type === "float32") {
+		vector = Float32Array.from(values);
+	} else {
+		vector = new Int8Array(values.length);
+		for (let i = 0; i < values.length; i++) {
+			const value = values[i]!;
+			if (!Number.isInteger(value) || value < -128 || value > 127) {
+				throw new Error(`Invalid int8 vector element at index ${i}: ${value}`);
+			}
+			vector[i] = value;
+		}
+	}
+	return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+/**
+ * Read the bytes of a vector column
+ *
+ * The result shares the blob's memory when its offset allows.
+ *
+ * @throws Error when a float32 blob's length is not a multiple of 4
+ */
+export function decodeVector(blob: Uint8Array, type: "int8"): Int8Array;
+export function decodeVector(blob: Uint8Array, type?: "float32"): Float32Array;
+export function decodeVector(blob: Uint8Array, type?: VectorType): Float32Array | Int8Array;
+export function decodeVector(blob: Uint8Array, type: VectorType = "float32"): Float32Array | Int8Array {
+	if (type === "int8") {
+		return new Int8Array(blob.buffer, blob.byteOffset, blob.byteLength);
+	}
+	if (blob.byteLength % Float32Array.BYTES_PER_ELEMENT !== 0) {
+		throw new Error(`Invalid float32 vector: ${blob.byteLength} bytes is not a multiple of 4`);
+	}
+	// Float32Array views need 4-byte aligned offsets
+	const aligned = blob.byteOffset % Float32Array.BYTES_PER_ELEMENT === 0 ? blob : blob.slice();
+	return new Float32Array(aligned.buffer, aligned.byteOffset, aligned.byteLength / Float32Array.BYTES_PER_ELEMENT);
+}
+
+/**
+ * Codec for the `codecs` option that reads vector columns as number arrays and writes
+ * typed arrays or number arrays as vector bytes
+ *
+ * Prisma model queries expect `Bytes` fields as bytes, so use it for columns that are only
+ * read by raw queries, such as `Unsupported("F32_BLOB(384)")` fields.
+ *
+ * @example
+ * ```typescript
+ * new PrismaBunSqlite({ url: "file:./dev.db", codecs: { F32_BLOB: vectorCodec("float32") } });
+ * ```
+ */
+export function vectorCodec(type: VectorType = "float32"): ColumnCodec {
+	return {
+		columnType: type === "float32" ? ColumnTypeEnum.DoubleArray : ColumnTypeEnum.Int32Array,
+		decode: (value) => (value instanceof Uint8Array ? Array.from(decodeVector(value, type)) : value),
+		encode: (value) => {
+			// Prisma sends Uint8Array and Float32Array arguments as base64 bytes
+			if (typeof value === "string") return Buffer.from(value, "base64");
+			if (Array.isArray(value) || (ArrayBuffer.isView(value) && !(value instanceof Uint8Array))) {
+				return encodeVector(value as ArrayLike<number>, type);
+			}
+			return value;
+		},
+	};
+}
+
+/**
+ * Find the `k` rows whose vector is closest to `vector`, with Prisma's `$queryRawUnsafe`
+ *
+ * Rows with a NULL vector are skipped. With sqlite-vec loaded the search runs in SQLite
+ * (`vec_distance_l2()` / `vec_distance_cosine()`); without it every vector is read and
+ * compared in JS, which suits tests and small tables.
+ *
+ * @example
+ * ```typescript
+ * const neighbors = await findNearestNeighbors(prisma, {
+ *   table: "Document",
+ *   column: "embedding",
+ *   vector: queryEmbedding,
+ *   k: 5,
+ *   select: ["id", "title"],
+ * });
+ * ```
+ */
+export async function findNearestNeighbors<Row = Record<string, unknown>>(
+	client: PrismaClientLike,
+	options: NearestNeighborsOptions,
+): Promise<NearestNeighbor<Row>[]> {
+	const { table, column, vector, k, type = "float32", metric = "l2", select = [] } = options;
+	if (!Number.isInteger(k) || k < 1) {
+		throw new Error(`Invalid k: ${k}. Expected a positive integer`);
+	}
+	if (metric !== "l2" && metric !== "cosine") {
+		throw new Error(`Invalid metric: "${metric}". Valid values: l2, cosine`);
+	}
+
+	const query = encodeVector(vector, type);
+	const columns = [...select.map(quoteIdentifier), `hex(${quoteIdentifier(column)}) AS ${VECTOR_ALIAS}`];
+	const from = `FROM ${quoteIdentifier(table)} WHERE ${quoteIdentifier(column)} IS NOT NULL`;
+
+	if (await hasVectorExtension(client)) {
+		// sqlite-vec reads untagged blobs as float32
+		const wrap = (sql: string) => (type === "int8" ? `vec_int8(${sql})` : sql);
+		const distance = `vec_distance_${metric}(${wrap(quoteIdentifier(column))}, ${wrap("?")})`;
+		const rows = await client.$queryRawUnsafe<Record<string, unknown>[]>(
+			`SELECT ${columns.join(", ")}, ${distance} AS ${DISTANCE_ALIAS} ${from} ORDER BY ${DISTANCE_ALIAS} LIMIT ?`,
+			query,
+			k,
+		);
+		return rows.map((row) => neighbor<Row>(row, readVector(row, type), Number(row[DISTANCE_ALIAS])));
+	}
+
+	const target = decodeVector(query, type);
+	const rows = await client.$queryRawUnsafe<Record<string, unknown>[]>(`SELECT ${columns.join(", ")} ${from}`);
+	const neighbors = rows.map((row) => {
+		const candidate = readVector(row, type);
+		return neighbor<Row>(row, candidate, vectorDistance(metric, target, candidate));
+	});
+	// NaN (cosine with a zero vector) sorts last
+	neighbors.sort((a, b) => (Number.isNaN(a.distance) ? 1 : Number.isNaN(b.distance) ? -1 : a.distance - b.distance));
+	return neighbors.slice(0, k);
+}
+
+function neighbor<Row>(
+	row: Record<string, unknown>,
+	vector: Float32Array | Int8Array,
+	distance: number,
+): NearestNeighbor<Row> {
+	delete row[VECTOR_ALIAS];
+	delete row[DISTANCE_ALIAS];
+	return { row: row as Row, vector, distance };
+}
+
+/**
+ * Check once per client whether sqlite-vec is loaded
+ */
+function hasVectorExtension(client: PrismaClientLike): Promise<boolean> {
+	let loaded = extensionLoaded.get(client);
+	if (!loaded) {
+		loaded = client.$queryRawUnsafe("SELECT vec_version()").then(
+			() => true,
+			() => false,
+		);
+		extensionLoaded.set(client, loaded);
+	}
+	return loaded;
+}
+
+function readVector(row: Record<string, unknown>, type: VectorType): Float32Array | Int8Array {
+	return decodeVector(Buffer.from(String(row[VECTOR_ALIAS]), "hex"), type);
+}
+
+/**
+ * Distance like sqlite-vec's `vec_distance_l2()` / `vec_distance_cosine()`
+ *
+ * @throws Error when the vectors have different dimensions
+ */
+function vectorDistance(metric: VectorMetric, a: ArrayLike<number>, b: ArrayLike<number>): number {
+	if (a.length !== b.length) {
+		throw new Error(`Vector dimension mismatch: expected ${a.length} elements, got ${b.length}`);
+	}
+	let sum = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		const x = a[i]!;
+		const y = b[i]!;
+		if (metric === "l2") {
+			sum += (x - y) ** 2;
+		} else {
+			sum += x * y;
+			normA += x * x;
+			normB += y * y;
+		}
+	}
+	return metric === "l2" ? Math.sqrt(sum) : 1 - sum / Math.sqrt(normA * normB);
+}
+
+function quoteIdentifier(name: string): string {
+	return `"${name.replaceAll('"', '""')}"`;
+}
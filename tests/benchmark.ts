@@ -10,7 +10,7 @@
  */
 
 import { PrismaClient } from "../prisma/generated/client.js";
-import { PrismaBunSqlite } from "../src/index.js";
+import { PrismaBunSqlite, type PrismaBunSqliteOptions } from "../src/index.js";
 import { resolve, dirname } from "node:path";
 import { readFileSync } from "node:fs";
 
@@ -22,6 +22,8 @@ interface BenchmarkTest {
 	name: string;
 	category: string;
 	iterations: number;
+	/** Runs on a separate client created with these adapter options */
+	adapterOptions?: PrismaBunSqliteOptions;
 	setup?: (prisma: PrismaClient) => Promise<void>;
 	run: (prisma: PrismaClient) => Promise<void>;
 }
@@ -109,6 +111,34 @@ Examples:
 // Test Definitions
 // =============================================================================
 
+/**
+ * Read 20 BLOBs of `size` bytes per iteration, with the given `bytesOutput`
+ */
+function blobReadTest(label: string, size: number, bytesOutput: "array" | "uint8array"): BenchmarkTest {
+	const avatar = new Uint8Array(size).map((_, i) => i % 251);
+	return {
+		name: `Read 20 x ${label} BLOBs (${bytesOutput})`,
+		category: "Bytes",
+		iterations: size >= 1024 * 1024 ? 5 : 100,
+		adapterOptions: { bytesOutput },
+		setup: async (prisma) => {
+			// Profiles are one per user
+			for (let i = 0; i < 20; i++) {
+				await prisma.user.create({
+					data: {
+						email: `blob_${size}_${i}@test.com`,
+						name: "Blob User",
+						profile: { create: { bio: "Blob", avatar } },
+					},
+				});
+			}
+		},
+		run: async (prisma) => {
+			await prisma.profile.findMany({ select: { avatar: true } });
+		},
+	};
+}
+
 const benchmarkTests: BenchmarkTest[] = [
 	// ==================== CRUD Operations ====================
 	{
@@ -457,6 +487,12 @@ const benchmarkTests: BenchmarkTest[] = [
 		},
 	},
 
+	// ==================== Bytes ====================
+	blobReadTest("1KB", 1024, "array"),
+	blobReadTest("1KB", 1024, "uint8array"),
+	blobReadTest("1MB", 1024 * 1024, "array"),
+	blobReadTest("1MB", 1024 * 1024, "uint8array"),
+
 	// ==================== Transactions ====================
 	{
 		name: "Transaction commit",
@@ -552,13 +588,13 @@ function getDataDir(): string {
 	return resolve(dirname(import.meta.dir), "tests", "data");
 }
 
-function getDbPath(): string {
+function getDbPath(name = "benchmark"): string {
 	if (!useFs) return ":memory:";
-	return resolve(getDataDir(), "benchmark.db");
+	return resolve(getDataDir(), `${name}.db`);
 }
 
-async function createPrismaClient(): Promise<PrismaClient> {
-	const dbPath = getDbPath();
+async function createPrismaClient(name?: string, options: PrismaBunSqliteOptions = {}): Promise<PrismaClient> {
+	const dbPath = getDbPath(name);
 
 	// Clean up existing file if using fs
 	if (useFs) {
@@ -575,6 +611,7 @@ async function createPrismaClient(): Promise<PrismaClient> {
 	// Create adapter using the factory class
 	const adapter = new PrismaBunSqlite({
 		url: dbPath === ":memory:" ? ":memory:" : `file:${dbPath}`,
+		...options,
 	});
 
 	const prisma = new PrismaClient({ adapter });
@@ -793,6 +830,19 @@ function mergeResults(runs: BenchmarkResult[][]): BenchmarkResult[] {
 async function main(): Promise<void> {
 	// Create client
 	const prisma = await createPrismaClient();
+	// Clients for tests with their own adapter options, by option set
+	const optionClients = new Map<string, PrismaClient>();
+
+	async function clientFor(test: BenchmarkTest): Promise<PrismaClient> {
+		if (!test.adapterOptions) return prisma;
+		const key = JSON.stringify(test.adapterOptions);
+		let client = optionClients.get(key);
+		if (!client) {
+			client = await createPrismaClient(`benchmark-${optionClients.size + 1}`, test.adapterOptions);
+			optionClients.set(key, client);
+		}
+		return client;
+	}
 
 	try {
 		// Phase 1: Full JIT warmup (run ALL tests silently)
@@ -800,7 +850,7 @@ async function main(): Promise<void> {
 			console.log("Warming up JIT (full pass)...");
 		}
 		for (const test of benchmarkTests) {
-			await runTest(prisma, test);
+			await runTest(await clientFor(test), test);
 		}
 
 		// Phase 2: Run multiple times and keep best results
@@ -814,7 +864,7 @@ async function main(): Promise<void> {
 			const runResults: BenchmarkResult[] = [];
 
 			for (const test of benchmarkTests) {
-				const result = await runTest(prisma, test);
+				const result = await runTest(await clientFor(test), test);
 				runResults.push(result);
 
 				// Show progress for console output
@@ -860,6 +910,9 @@ async function main(): Promise<void> {
 		}
 	} finally {
 		await prisma.$disconnect();
+		for (const client of optionClients.values()) {
+			await client.$disconnect();
+		}
 	}
 }
 
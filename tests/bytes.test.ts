@@ -0,0 +1,123 @@
+/**
+ * Tests for the bytesOutput option
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { Database } from "bun:sqlite";
+import { PrismaClient } from "@/prisma-generated/client";
+import { PrismaBunSqlite } from "../src/index";
+import { connect, noArgs } from "./helpers";
+
+const bytesArg = { scalarType: "bytes" as const, arity: "scalar" as const };
+
+const BLOB = new Uint8Array([0, 1, 254, 255]);
+
+const SCHEMA = `
+	CREATE TABLE files (id INTEGER PRIMARY KEY, data BLOB);
+	INSERT INTO files (id, data) VALUES (1, x'0001feff');
+`;
+
+describe("bytesOutput", () => {
+	test("array copies BLOBs into number arrays by default", async () => {
+		const adapter = await connect(SCHEMA);
+
+		const result = await adapter.queryRaw({ sql: "SELECT data FROM files", ...noArgs });
+
+		expect(result.rows).toEqual([[[0, 1, 254, 255]]]);
+
+		await adapter.dispose();
+	});
+
+	test("uint8array returns BLOBs as read", async () => {
+		const adapter = await connect(SCHEMA, { bytesOutput: "uint8array" });
+
+		const result = await adapter.queryRaw({ sql: "SELECT data, x'' AS empty FROM files", ...noArgs });
+		const rows: unknown[][] = [];
+		for await (const row of adapter.queryStream({ sql: "SELECT data FROM files", ...noArgs })) {
+			rows.push(row);
+		}
+
+		expect(result.rows[0]![0]).toBeInstanceOf(Uint8Array);
+		expect(result.rows).toEqual([[BLOB, new Uint8Array()]]);
+		expect(rows).toEqual([[BLOB]]);
+
+		await adapter.dispose();
+	});
+
+	test("Uint8Array and number array arguments are accepted", async () => {
+		const adapter = await connect(SCHEMA, { bytesOutput: "uint8array" });
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO files (id, data) VALUES (2, ?), (3, ?)",
+			args: [BLOB, [0, 1, 254, 255]],
+			argTypes: [bytesArg, bytesArg],
+		});
+		const result = await adapter.queryRaw({ sql: "SELECT count(*) FROM files WHERE data = x'0001feff'", ...noArgs });
+
+		expect(result.rows).toEqual([["3"]]);
+
+		await adapter.dispose();
+	});
+
+	test("rejects unknown values", () => {
+		expect(() => new PrismaBunSqlite({ url: ":memory:", bytesOutput: "buffer" as any })).toThrow(
+			'Invalid bytesOutput: "buffer"',
+		);
+	});
+});
+
+describe("bytesOutput with Prisma Client", () => {
+	function createProfileTable(db: Database) {
+		db.run(`
+			CREATE TABLE "Profile" (
+				"id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+				"bio" TEXT NOT NULL,
+				"avatar" BLOB,
+				"website" TEXT,
+				"userId" INTEGER NOT NULL,
+				"createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+			)
+		`);
+	}
+
+	test("uint8array round-trips Bytes fields in model queries", async () => {
+		const adapter = new PrismaBunSqlite({ url: ":memory:", bytesOutput: "uint8array", onConnect: createProfileTable });
+		const prisma = new PrismaClient({ adapter });
+		const avatar = new Uint8Array(1024 * 1024).map((_, i) => i % 251);
+
+		try {
+			await prisma.profile.create({ data: { bio: "large", userId: 1, avatar } });
+			const profile = await prisma.profile.findFirstOrThrow({ where: { avatar: { not: null } } });
+
+			expect(profile.avatar).toEqual(avatar);
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+
+	test("$queryRaw does not support BLOB columns with uint8array", async () => {
+		const options = { url: ":memory:", onConnect: createProfileTable };
+		const arrays = new PrismaClient({ adapter: new PrismaBunSqlite(options) });
+		const views = new PrismaClient({ adapter: new PrismaBunSqlite({ ...options, bytesOutput: "uint8array" }) });
+
+		try {
+			for (const prisma of [arrays, views]) {
+				await prisma.profile.create({ data: { bio: "small", userId: 1, avatar: BLOB } });
+			}
+
+			const [row] = await arrays.$queryRaw<{ avatar: Uint8Array }[]>`SELECT avatar FROM Profile`;
+			const [hex] = await views.$queryRaw<{ avatar: string }[]>`SELECT hex(avatar) AS avatar FROM Profile`;
+
+			expect(row!.avatar).toEqual(BLOB);
+			expect(hex!.avatar).toBe("0001FEFF");
+			// PrismaPromise is a thenable, not a Promise
+			await expect(Promise.resolve(views.$queryRaw`SELECT avatar FROM Profile`)).rejects.toThrow("as Bytes");
+			await expect(
+				Promise.resolve(views.$queryRawUnsafe("SELECT avatar FROM `main`.`Profile`")),
+			).rejects.toThrow("as Bytes");
+		} finally {
+			await arrays.$disconnect();
+			await views.$disconnect();
+		}
+	});
+});
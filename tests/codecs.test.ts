@@ -0,0 +1,295 @@
+/**
+ * Tests for column codecs
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { Database } from "bun:sqlite";
+import { ColumnTypeEnum } from "@prisma/driver-adapter-utils";
+import { PrismaClient, Prisma } from "@/prisma-generated/client";
+import { PrismaBunSqlite, type ColumnCodec } from "../src/index";
+import { analyzeStatement, declaredTypeKey } from "../src/codecs";
+import { connect, noArgs } from "./helpers";
+
+const stringArg = { scalarType: "string" as const, arity: "scalar" as const };
+const decimalArg = { scalarType: "decimal" as const, arity: "scalar" as const };
+const intArg = { scalarType: "int" as const, arity: "scalar" as const };
+
+const USER_ID = "0190a6b2-7c3d-7e4f-8a9b-0c1d2e3f4a5b";
+
+/** UUID strings stored as 16-byte blobs */
+const uuid: ColumnCodec = {
+	columnType: ColumnTypeEnum.Text,
+	decode: (value) => {
+		const hex = Buffer.from(value as Uint8Array).toString("hex");
+		return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+	},
+	encode: (value) => Buffer.from(String(value).replaceAll("-", ""), "hex"),
+};
+
+/** Decimal amounts stored as integer cents */
+const money: ColumnCodec = {
+	columnType: ColumnTypeEnum.Numeric,
+	decode: (cents) => (Number(cents) / 100).toFixed(2),
+	encode: (amount) => Math.round(Number(amount) * 100),
+};
+
+const codecs = { UUID: uuid, MONEY: money };
+
+const SCHEMA = `
+	CREATE TABLE accounts (id UUID BLOB PRIMARY KEY, name TEXT, balance MONEY INTEGER, legacy_id TEXT);
+	CREATE TABLE payments (id INTEGER PRIMARY KEY, account UUID BLOB, amount MONEY(10,2));
+`;
+
+describe("analyzeStatement", () => {
+	test("finds the columns of INSERT values and ON CONFLICT updates", () => {
+		const shape = analyzeStatement(
+			"INSERT INTO `main`.`User` (`email`, `name`) VALUES (?,?), (?,json(?)) " +
+				"ON CONFLICT (`email`) DO UPDATE SET `name` = ? WHERE (`main`.`User`.`email` = ? AND 1=1) RETURNING `id` AS `id`",
+		);
+
+		expect(shape.tables).toEqual(["user"]);
+		expect(shape.parameters).toEqual([
+			{ table: "user", column: "email" },
+			{ table: "user", column: "name" },
+			{ table: "user", column: "email" },
+			undefined,
+			{ column: "name" },
+			{ table: "user", column: "email" },
+		]);
+	});
+
+	test("finds the columns of filters, assignments and increments", () => {
+		const shape = analyzeStatement(
+			"UPDATE `main`.`User` SET `age` = ?, `balance` = (`main`.`User`.`balance` + ?) " +
+				"WHERE (`main`.`User`.`email` NOT IN (?,?) AND `main`.`User`.`name` LIKE ? AND `age` IS NOT ?) " +
+				"LIMIT ? OFFSET ?",
+		);
+
+		expect(shape.parameters).toEqual([
+			{ column: "age" },
+			{ table: "user", column: "balance" },
+			{ table: "user", column: "email" },
+			{ table: "user", column: "email" },
+			{ table: "user", column: "name" },
+			{ column: "age" },
+			undefined,
+			undefined,
+		]);
+	});
+
+	test("resolves aliases and numbered parameters", () => {
+		const shape = analyzeStatement(
+			"SELECT `main`.`Post`.`id` FROM `main`.`Post` LEFT JOIN `main`.`User` AS `j0` " +
+				"ON (`j0`.`id`) = (`main`.`Post`.`authorId`) WHERE (`j0`.`email` = ?2 AND upper(p.title) = ?1) -- ?",
+		);
+
+		expect(shape.tables).toEqual(["post", "user"]);
+		expect(shape.parameters).toEqual([undefined, { table: "user", column: "email" }]);
+	});
+
+	test("leaves qualifiers bound to several tables unresolved", () => {
+		const shape = analyzeStatement(
+			"SELECT t.id FROM a AS t WHERE t.x = ? AND EXISTS (SELECT 1 FROM b AS t WHERE t.y = ?) AND s.z = ?",
+		);
+
+		expect(shape.tables).toEqual(["a", "b"]);
+		expect(shape.parameters).toEqual([undefined, undefined, undefined]);
+	});
+
+	test("flags CTEs and subqueries in FROM", () => {
+		const cte = analyzeStatement(
+			"WITH RECURSIVE a(x) AS (SELECT 1), c AS NOT MATERIALIZED (SELECT * FROM b) " +
+				"SELECT * FROM a JOIN c ON c.x = a.x WHERE a.x = ?",
+		);
+		const derived = analyzeStatement("SELECT * FROM (SELECT x FROM b) AS s WHERE x = ?");
+		const plain = analyzeStatement("SELECT * FROM a WHERE x IN (SELECT x FROM b WHERE y = ?)");
+
+		// The CTE named a hides the table a
+		expect(cte).toEqual({ tables: ["b"], parameters: [undefined], derivedTables: true });
+		expect(derived.derivedTables).toBe(true);
+		expect(plain).toEqual({ tables: ["a", "b"], parameters: [{ column: "y" }], derivedTables: false });
+	});
+
+	test("ignores placeholders in literals and comments", () => {
+		expect(analyzeStatement("SELECT '?', \"?\" FROM t /* ? */ WHERE a = ?").parameters).toEqual([{ column: "a" }]);
+	});
+
+	test("declared type keys ignore case and size arguments", () => {
+		expect(declaredTypeKey("money(10, 2)")).toBe("MONEY");
+		expect(declaredTypeKey("unsigned   big int")).toBe("UNSIGNED BIG INT");
+	});
+});
+
+describe("codecs", () => {
+	test("encode arguments and decode columns by declared type", async () => {
+		const adapter = await connect(SCHEMA, { codecs });
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO accounts (id, name, balance) VALUES (?, ?, ?)",
+			args: [USER_ID, "alice", "12.34"],
+			argTypes: [stringArg, stringArg, decimalArg],
+		});
+		const stored = await adapter.queryRaw({ sql: "SELECT typeof(id), length(id), balance + 0 FROM accounts", ...noArgs });
+		const result = await adapter.queryRaw({
+			sql: "SELECT id, name, balance FROM accounts WHERE id = ? AND balance >= ?",
+			args: [USER_ID, "10"],
+			argTypes: [stringArg, decimalArg],
+		});
+
+		expect(stored.rows).toEqual([["blob", "16", "1234"]]);
+		expect(result.columnTypes).toEqual([ColumnTypeEnum.Text, ColumnTypeEnum.Text, ColumnTypeEnum.Numeric]);
+		expect(result.rows).toEqual([[USER_ID, "alice", "12.34"]]);
+
+		await adapter.dispose();
+	});
+
+	test("table.column codecs take precedence and follow joins", async () => {
+		const adapter = await connect(SCHEMA, {
+			codecs: {
+				...codecs,
+				"payments.amount": { decode: (value) => `${value} cents`, encode: (value) => Number(value) * 1000 },
+			},
+		});
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO accounts (id, name, balance) VALUES (?, 'bob', 0)",
+			args: [USER_ID],
+			argTypes: [stringArg],
+		});
+		await adapter.executeRaw({
+			sql: "INSERT INTO payments (id, account, amount) VALUES (1, ?, ?)",
+			args: [USER_ID, "2"],
+			argTypes: [stringArg, decimalArg],
+		});
+		const result = await adapter.queryRaw({
+			sql: "SELECT p.amount, a.id, a.balance FROM payments AS p JOIN accounts a ON a.id = p.account WHERE p.amount IN (?)",
+			args: ["2"],
+			argTypes: [decimalArg],
+		});
+
+		expect(result.rows).toEqual([["2000 cents", USER_ID, "0.00"]]);
+
+		await adapter.dispose();
+	});
+
+	test("computed columns and unrelated arguments keep the default conversion", async () => {
+		const adapter = await connect(SCHEMA, { codecs });
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO accounts (id, balance) VALUES (x'00', 150), (x'01', 250)",
+			...noArgs,
+		});
+		const result = await adapter.queryRaw({
+			sql: "SELECT sum(balance) AS total, max(balance) AS top FROM accounts LIMIT ?",
+			args: ["1"],
+			argTypes: [intArg],
+		});
+
+		expect(result.rows).toEqual([["400", "250"]]);
+
+		await adapter.dispose();
+	});
+
+	test("null values skip the codec", async () => {
+		const adapter = await connect(SCHEMA, { codecs });
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO accounts (id, balance) VALUES (x'00', ?)",
+			args: [null],
+			argTypes: [decimalArg],
+		});
+		const result = await adapter.queryRaw({ sql: "SELECT balance FROM accounts", ...noArgs });
+
+		expect(result.rows).toEqual([[null]]);
+
+		await adapter.dispose();
+	});
+
+	test("apply to streams and transactions", async () => {
+		const adapter = await connect(SCHEMA, { codecs });
+
+		const tx = await adapter.startTransaction();
+		await tx.executeRaw({
+			sql: "INSERT INTO accounts (id, balance) VALUES (?, ?)",
+			args: [USER_ID, "1.5"],
+			argTypes: [stringArg, decimalArg],
+		});
+		await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+		await tx.commit();
+
+		const rows: unknown[][] = [];
+		for await (const row of adapter.queryStream({ sql: "SELECT id, balance FROM accounts", ...noArgs })) {
+			rows.push(row);
+		}
+		expect(rows).toEqual([[USER_ID, "1.50"]]);
+
+		await adapter.dispose();
+	});
+
+	test("see schema changes made by executeScript", async () => {
+		const adapter = await connect(SCHEMA, { codecs });
+		const query = { sql: "SELECT balance FROM accounts", ...noArgs };
+
+		await adapter.executeRaw({ sql: "INSERT INTO accounts (id, balance) VALUES (x'00', 100)", ...noArgs });
+		expect((await adapter.queryRaw(query)).rows).toEqual([["1.00"]]);
+
+		await adapter.executeScript(`
+			ALTER TABLE accounts RENAME TO old_accounts;
+			CREATE TABLE accounts (id UUID BLOB PRIMARY KEY, balance INTEGER);
+			INSERT INTO accounts (id, balance) VALUES (x'00', 100);
+		`);
+		expect((await adapter.queryRaw(query)).rows).toEqual([["100"]]);
+
+		await adapter.dispose();
+	});
+
+	test("reject invalid codecs", () => {
+		const create = (codecs: Record<string, unknown>) => new PrismaBunSqlite({ url: ":memory:", codecs: codecs as any });
+
+		expect(() => create({ "main.accounts.id": uuid })).toThrow('Invalid codec key: "main.accounts.id"');
+		expect(() => create({ UUID: { decode: "hex" } })).toThrow('Invalid codec for "UUID"');
+		expect(() => create({ UUID: { columnType: 999 } })).toThrow('Invalid codec for "UUID"');
+		expect(() => create({ "UNSIGNED BIG INT": { columnType: ColumnTypeEnum.Int64 } })).not.toThrow();
+	});
+});
+
+describe("codecs with Prisma Client", () => {
+	function createProductTable(db: Database) {
+		db.run(`
+			CREATE TABLE "Product" (
+				"id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+				"name" TEXT NOT NULL,
+				"price" MONEY INTEGER NOT NULL,
+				"discount" DECIMAL,
+				"description" TEXT,
+				"inStock" BOOLEAN NOT NULL DEFAULT true,
+				"createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+			)
+		`);
+	}
+
+	test("stores Decimal prices as integer cents", async () => {
+		const adapter = new PrismaBunSqlite({ url: ":memory:", codecs: { MONEY: money }, onConnect: createProductTable });
+		const prisma = new PrismaClient({ adapter });
+
+		try {
+			const created = await prisma.product.create({ data: { name: "pen", price: new Prisma.Decimal("1.99") } });
+			await prisma.product.createMany({ data: [{ name: "book", price: "12.50" }, { name: "bag", price: 30 }] });
+			await prisma.product.update({ where: { id: created.id }, data: { price: { increment: "0.01" } } });
+
+			const cheap = await prisma.product.findMany({
+				where: { price: { lt: "20" } },
+				orderBy: { price: "asc" },
+			});
+			const [stored] = await prisma.$queryRaw<{ price: bigint }[]>`SELECT price + 0 AS price FROM Product LIMIT 1`;
+
+			expect(cheap.map((product) => [product.name, product.price.toFixed(2)])).toEqual([
+				["pen", "2.00"],
+				["book", "12.50"],
+			]);
+			expect(Number(stored!.price)).toBe(200);
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+});
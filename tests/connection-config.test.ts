@@ -0,0 +1,515 @@
+/**
+ * Tests for connection configuration: custom PRAGMAs, extensions and the onConnect hook
+ */
+
+import { describe, expect, test, beforeEach, afterEach, spyOn } from "bun:test";
+import { Database } from "bun:sqlite";
+import * as ffi from "bun:ffi";
+import { existsSync, unlinkSync } from "node:fs";
+import { DriverAdapterError, type SqlQueryable } from "@prisma/driver-adapter-utils";
+import { PrismaBunSqlite } from "../src/index";
+import { detectMaxVariableNumber } from "../src/connection-info";
+import { resetCustomSqliteLibrary } from "../src/factory";
+
+async function pragma(adapter: SqlQueryable, name: string) {
+	const result = await adapter.queryRaw({ sql: `PRAGMA ${name}`, args: [], argTypes: [] });
+	return result.rows[0]?.[0];
+}
+
+/**
+ * Source id of the library bun:sqlite actually runs
+ */
+function bundledSourceId(): string {
+	const db = new Database(":memory:");
+	try {
+		return String(db.prepare("SELECT sqlite_source_id()").values()[0]![0]);
+	} finally {
+		db.close();
+	}
+}
+
+describe("PRAGMA Configuration", () => {
+	let tempDbPath: string;
+
+	beforeEach(() => {
+		tempDbPath = `/tmp/test-pragmas-${Date.now()}-${Math.random().toString(36).substring(2, 9)}.db`;
+	});
+
+	afterEach(() => {
+		try {
+			if (existsSync(tempDbPath)) unlinkSync(tempDbPath);
+			if (existsSync(tempDbPath + "-wal")) unlinkSync(tempDbPath + "-wal");
+			if (existsSync(tempDbPath + "-shm")) unlinkSync(tempDbPath + "-shm");
+		} catch {
+			// Ignore cleanup errors
+		}
+	});
+
+	test("applies custom PRAGMAs", async () => {
+		const adapter = await new PrismaBunSqlite({
+			url: tempDbPath,
+			pragmas: {
+				cache_size: -64000,
+				mmap_size: 268435456,
+				temp_store: "MEMORY",
+				journal_size_limit: 67108864,
+				recursive_triggers: true,
+			},
+		}).connect();
+
+		expect(await pragma(adapter, "cache_size")).toBe("-64000");
+		expect(await pragma(adapter, "mmap_size")).toBe("268435456");
+		expect(await pragma(adapter, "temp_store")).toBe("2");
+		expect(await pragma(adapter, "journal_size_limit")).toBe("67108864");
+		expect(await pragma(adapter, "recursive_triggers")).toBe("1");
+
+		await adapter.dispose();
+	});
+
+	test("applies custom PRAGMAs to the shadow database", async () => {
+		const shadow = await new PrismaBunSqlite({
+			url: tempDbPath,
+			pragmas: { cache_size: -2000, recursive_triggers: true },
+		}).connectToShadowDb();
+
+		expect(await pragma(shadow, "cache_size")).toBe("-2000");
+		expect(await pragma(shadow, "recursive_triggers")).toBe("1");
+
+		await shadow.dispose();
+	});
+
+	test("custom PRAGMAs override adapter defaults", async () => {
+		const adapter = await new PrismaBunSqlite({
+			url: tempDbPath,
+			pragmas: { foreign_keys: false, busy_timeout: 100 },
+		}).connect();
+
+		expect(await pragma(adapter, "foreign_keys")).toBe("0");
+		expect(await pragma(adapter, "busy_timeout")).toBe("100");
+
+		await adapter.dispose();
+	});
+
+	test("URL parameters override custom PRAGMAs", async () => {
+		const adapter = await new PrismaBunSqlite({
+			url: `file:${tempDbPath}?busy_timeout=300`,
+			pragmas: { busy_timeout: 100 },
+		}).connect();
+
+		expect(await pragma(adapter, "busy_timeout")).toBe("300");
+
+		await adapter.dispose();
+	});
+
+	test("fails when a PRAGMA does not take effect", async () => {
+		// page_size is silently ignored once the database has content (until VACUUM)
+		const setup = await new PrismaBunSqlite({ url: tempDbPath }).connect();
+		await setup.executeScript("CREATE TABLE items (id INTEGER PRIMARY KEY)");
+		await setup.dispose();
+
+		const factory = new PrismaBunSqlite({ url: tempDbPath, pragmas: { page_size: 65536 } });
+
+		const error = await factory.connect().catch((e) => e);
+		expect(error).toBeInstanceOf(DriverAdapterError);
+		expect((error as DriverAdapterError).cause).toMatchObject({
+			kind: "GenericJs",
+			originalMessage: expect.stringContaining("PRAGMA page_size = 65536 did not take effect"),
+		});
+	});
+
+	test("rejects invalid PRAGMA names and values at construction", () => {
+		expect(() => new PrismaBunSqlite({ url: ":memory:", pragmas: { "cache_size; DROP": 1 } })).toThrow(
+			/Invalid PRAGMA name/,
+		);
+		expect(() => new PrismaBunSqlite({ url: ":memory:", pragmas: { cache_size: "1; DROP TABLE x" } })).toThrow(
+			/Invalid value for PRAGMA cache_size/,
+		);
+		expect(() => new PrismaBunSqlite({ url: ":memory:", pragmas: { cache_size: Number.NaN } })).toThrow(
+			/Invalid value for PRAGMA cache_size/,
+		);
+	});
+});
+
+describe("onConnect Hook", () => {
+	test("runs with the configured handle before the adapter is returned", async () => {
+		let seen: Database | undefined;
+		let foreignKeys: unknown;
+
+		const adapter = await new PrismaBunSqlite({
+			url: ":memory:",
+			onConnect: async (db) => {
+				seen = db;
+				foreignKeys = db.prepare("PRAGMA foreign_keys").values()[0]?.[0];
+				await Promise.resolve();
+				db.run("CREATE TABLE created_on_connect (id INTEGER PRIMARY KEY)");
+			},
+		}).connect();
+
+		expect(seen).toBeDefined();
+		expect(foreignKeys).toBe(1n);
+
+		const result = await adapter.queryRaw({
+			sql: "SELECT name FROM sqlite_master WHERE name = 'created_on_connect'",
+			args: [],
+			argTypes: [],
+		});
+		expect(result.rows).toEqual([["created_on_connect"]]);
+
+		await adapter.dispose();
+	});
+
+	test("runs for the shadow database", async () => {
+		const calls: string[] = [];
+		const factory = new PrismaBunSqlite({
+			url: ":memory:",
+			onConnect: (db) => {
+				calls.push(db.filename);
+			},
+		});
+
+		const main = await factory.connect();
+		const shadow = await factory.connectToShadowDb();
+
+		expect(calls).toHaveLength(2);
+
+		await main.dispose();
+		await shadow.dispose();
+	});
+
+	test("closes the connection and rethrows when the hook fails", async () => {
+		let captured: Database | undefined;
+		const factory = new PrismaBunSqlite({
+			url: ":memory:",
+			onConnect: (db) => {
+				captured = db;
+				throw new Error("hook failed");
+			},
+		});
+
+		await expect(factory.connect()).rejects.toThrow("hook failed");
+		expect(() => captured!.run("SELECT 1")).toThrow();
+	});
+});
+
+describe("SQLite Extensions", () => {
+	test("rejects invalid extension entries at construction", () => {
+		expect(() => new PrismaBunSqlite({ url: ":memory:", extensions: [""] })).toThrow(/Invalid SQLite extension/);
+		expect(() => new PrismaBunSqlite({ url: ":memory:", extensions: [{ path: "" }] })).toThrow(
+			/Invalid SQLite extension/,
+		);
+	});
+
+	test("failing extension surfaces as a DriverAdapterError naming the extension", async () => {
+		const factory = new PrismaBunSqlite({
+			url: ":memory:",
+			extensions: [{ path: "/nonexistent/vec0", entryPoint: "sqlite3_vec_init" }],
+		});
+
+		const error = await factory.connect().catch((e) => e);
+		expect(error).toBeInstanceOf(DriverAdapterError);
+		expect((error as DriverAdapterError).cause).toMatchObject({
+			kind: "GenericJs",
+			originalMessage: expect.stringContaining(
+				'Failed to load SQLite extension "/nonexistent/vec0" (entry point sqlite3_vec_init)',
+			),
+		});
+	});
+
+	test("extensions are loaded on the shadow database", async () => {
+		const loaded: Array<[string, string | undefined]> = [];
+		const factory = new PrismaBunSqlite({
+			url: ":memory:",
+			extensions: ["./ext/vec0", { path: "./ext/spatialite", entryPoint: "init_spatialite" }],
+		});
+
+		// Record loads instead of hitting the filesystem
+		const original = Database.prototype.loadExtension;
+		Database.prototype.loadExtension = function (path: string, entryPoint?: string) {
+			loaded.push([path, entryPoint]);
+		};
+		try {
+			const shadow = await factory.connectToShadowDb();
+			await shadow.dispose();
+		} finally {
+			Database.prototype.loadExtension = original;
+		}
+
+		expect(loaded).toEqual([
+			["./ext/vec0", undefined],
+			["./ext/spatialite", "init_spatialite"],
+		]);
+	});
+
+	describe("customSqliteLibrary", () => {
+		let setCustomSQLite: ReturnType<typeof spyOn>;
+		let openLibrary: ReturnType<typeof spyOn>;
+
+		/**
+		 * Stand in for a library file whose sqlite3_sourceid() is `sourceId`
+		 */
+		function mockLibrary(sourceId: string) {
+			const library = { symbols: { sqlite3_sourceid: () => sourceId }, close: () => {} };
+			openLibrary.mockImplementation((() => library) as any);
+		}
+
+		beforeEach(() => {
+			setCustomSQLite = spyOn(Database, "setCustomSQLite").mockImplementation(() => true);
+			openLibrary = spyOn(ffi, "dlopen");
+		});
+
+		afterEach(() => {
+			setCustomSQLite.mockRestore();
+			openLibrary.mockRestore();
+			resetCustomSqliteLibrary();
+		});
+
+		test("is applied once and cannot be changed", async () => {
+			mockLibrary(bundledSourceId());
+
+			const first = await new PrismaBunSqlite({
+				url: ":memory:",
+				customSqliteLibrary: "/opt/sqlite/libsqlite3.dylib",
+			}).connect();
+			const second = await new PrismaBunSqlite({
+				url: ":memory:",
+				customSqliteLibrary: "/opt/sqlite/libsqlite3.dylib",
+			}).connect();
+
+			expect(setCustomSQLite).toHaveBeenCalledTimes(1);
+			expect(setCustomSQLite).toHaveBeenCalledWith("/opt/sqlite/libsqlite3.dylib");
+
+			const error = await new PrismaBunSqlite({
+				url: ":memory:",
+				customSqliteLibrary: "/other/libsqlite3.dylib",
+			})
+				.connect()
+				.catch((e) => e);
+			expect((error as DriverAdapterError).cause).toMatchObject({
+				kind: "GenericJs",
+				originalMessage: expect.stringContaining("already in use"),
+			});
+
+			await first.dispose();
+			await second.dispose();
+		});
+
+		test("fails when the library cannot be opened", async () => {
+			const error = await new PrismaBunSqlite({ url: ":memory:", customSqliteLibrary: "/nonexistent/libsqlite3.so" })
+				.connect()
+				.catch((e) => e);
+
+			expect((error as DriverAdapterError).cause).toMatchObject({
+				kind: "GenericJs",
+				originalMessage: expect.stringContaining('Failed to load custom SQLite library "/nonexistent/libsqlite3.so"'),
+			});
+			expect(setCustomSQLite).not.toHaveBeenCalled();
+		});
+
+		test("fails when connections do not use the library", async () => {
+			mockLibrary("2020-01-01 00:00:00 other");
+
+			const error = await new PrismaBunSqlite({ url: ":memory:", customSqliteLibrary: "/opt/libsqlite3.so" })
+				.connect()
+				.catch((e) => e);
+
+			expect((error as DriverAdapterError).cause).toMatchObject({
+				kind: "GenericJs",
+				originalMessage: expect.stringContaining('Custom SQLite library "/opt/libsqlite3.so" is not in use'),
+			});
+		});
+	});
+});
+
+describe("PrismaBunSqlite.fromDatabase", () => {
+	test("runs the configuration pipeline on the adopted handle", async () => {
+		const db = new Database(":memory:", { safeIntegers: true });
+		const adapter = await PrismaBunSqlite.fromDatabase(db, {
+			pragmas: { cache_size: -1234 },
+		}).connect();
+
+		expect(await pragma(adapter, "foreign_keys")).toBe("1");
+		expect(await pragma(adapter, "cache_size")).toBe("-1234");
+
+		await adapter.dispose();
+	});
+
+	test("applies runtime options to the adopted handle", async () => {
+		const db = new Database(":memory:", { safeIntegers: false });
+		db.run("CREATE TABLE events (id INTEGER PRIMARY KEY, at DATETIME)");
+
+		const adapter = await PrismaBunSqlite.fromDatabase(db, {
+			safeIntegers: false,
+			timestampFormat: "unixepoch-ms",
+		}).connect();
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO events (id, at) VALUES (1, ?)",
+			args: ["2025-01-01T00:00:00.000Z"],
+			argTypes: [{ scalarType: "datetime", arity: "scalar" }],
+		});
+
+		expect(db.query("SELECT at FROM events").values()).toEqual([[1735689600000]]);
+
+		await adapter.dispose();
+	});
+
+	test("leaves the handle open by default and reconnects", async () => {
+		const db = new Database(":memory:", { safeIntegers: true });
+		const factory = PrismaBunSqlite.fromDatabase(db);
+
+		const first = await factory.connect();
+		await first.executeScript("CREATE TABLE shared (id INTEGER PRIMARY KEY)");
+		await first.dispose();
+		const second = await factory.connect();
+		await second.executeRaw({ sql: "INSERT INTO shared (id) VALUES (1)", args: [], argTypes: [] });
+		await second.dispose();
+
+		db.run("INSERT INTO shared (id) VALUES (2)");
+		expect(db.query("SELECT COUNT(*) AS n FROM shared").get()).toEqual({ n: 2n });
+		db.close();
+	});
+
+	test("closeOnDispose: false leaves the handle open", async () => {
+		const db = new Database(":memory:", { safeIntegers: true });
+		const adapter = await PrismaBunSqlite.fromDatabase(db, { closeOnDispose: false }).connect();
+
+		await adapter.executeScript("CREATE TABLE shared (id INTEGER PRIMARY KEY)");
+		await adapter.dispose();
+
+		db.run("INSERT INTO shared (id) VALUES (1)");
+		expect(db.query("SELECT COUNT(*) AS n FROM shared").get()).toEqual({ n: 1n });
+		db.close();
+	});
+
+	test("closeOnDispose: true closes the handle and rejects reconnecting", async () => {
+		const db = new Database(":memory:", { safeIntegers: true });
+		const factory = PrismaBunSqlite.fromDatabase(db, { closeOnDispose: true });
+
+		await (await factory.connect()).dispose();
+
+		expect(() => db.run("SELECT 1")).toThrow();
+		const error = await factory.connect().catch((e) => e);
+		expect((error as DriverAdapterError).cause).toMatchObject({
+			kind: "GenericJs",
+			originalMessage: expect.stringContaining("use closeOnDispose: false to reconnect"),
+		});
+	});
+
+	test("readonly restores query_only on dispose", async () => {
+		// readonly needs a file database
+		const path = `/tmp/test-adopted-${Date.now()}.db`;
+		const file = new Database(path, { safeIntegers: true });
+
+		try {
+			const adapter = await PrismaBunSqlite.fromDatabase(file, { readonly: true }).connect();
+			expect(await pragma(adapter, "query_only")).toBe("1");
+			await adapter.dispose();
+
+			expect(file.query("PRAGMA query_only").values()).toEqual([[0n]]);
+			file.run("CREATE TABLE writable (id INTEGER)");
+		} finally {
+			file.close();
+			unlinkSync(path);
+		}
+	});
+
+	test("throws when safeIntegers does not match the handle", () => {
+		const unsafe = new Database(":memory:");
+		expect(() => PrismaBunSqlite.fromDatabase(unsafe)).toThrow(/safeIntegers mismatch/);
+		unsafe.close();
+
+		const safe = new Database(":memory:", { safeIntegers: true });
+		expect(() => PrismaBunSqlite.fromDatabase(safe, { safeIntegers: false })).toThrow(/safeIntegers mismatch/);
+		safe.close();
+	});
+
+	test("validates options like the URL factory", () => {
+		const db = new Database(":memory:", { safeIntegers: true });
+
+		expect(() => PrismaBunSqlite.fromDatabase(db, { timestampFormat: "unixepoch-ms" })).toThrow(
+			/requires explicit acknowledgment/,
+		);
+		expect(() => PrismaBunSqlite.fromDatabase(db, { customSqliteLibrary: "/opt/libsqlite3.dylib" })).toThrow(
+			/already open/,
+		);
+
+		db.close();
+	});
+
+	test("configuration failures leave the caller's handle open", async () => {
+		const db = new Database(":memory:", { safeIntegers: true });
+		const factory = PrismaBunSqlite.fromDatabase(db, {
+			onConnect: () => {
+				throw new Error("hook failed");
+			},
+		});
+
+		await expect(factory.connect()).rejects.toThrow("hook failed");
+		expect(db.query("SELECT 1 AS one").get()).toEqual({ one: 1n });
+
+		db.close();
+	});
+
+	test("shadow database is opened separately", async () => {
+		const db = new Database(":memory:", { safeIntegers: true });
+		const factory = PrismaBunSqlite.fromDatabase(db, { closeOnDispose: false });
+
+		const shadow = await factory.connectToShadowDb();
+		await shadow.executeScript("CREATE TABLE shadow_only (id INTEGER)");
+		await shadow.dispose();
+
+		expect(db.query("SELECT name FROM sqlite_master WHERE name = 'shadow_only'").all()).toEqual([]);
+		db.close();
+	});
+});
+
+describe("Connection Info", () => {
+	test("reports the bind parameter limit of the linked SQLite library", async () => {
+		const adapter = await new PrismaBunSqlite({ url: ":memory:" }).connect();
+		const raw = new Database(":memory:");
+		const version = (raw.query("SELECT sqlite_version() AS v").get() as { v: string }).v;
+		const options = raw
+			.query("PRAGMA compile_options")
+			.values()
+			.map((row) => String(row[0]));
+		raw.close();
+
+		const info = adapter.getConnectionInfo();
+		expect(info.sqliteVersion).toBe(version);
+		expect(info.compileOptions).toEqual(options);
+		expect(info.maxBindValues).toBe(detectMaxVariableNumber(version, options));
+		// Bun bundles SQLite 3.32+, never the legacy 999 limit
+		expect(info.maxBindValues).toBeGreaterThanOrEqual(32766);
+		expect(info.supportsRelationJoins).toBe(true);
+
+		// A statement using the reported limit runs
+		const args = Array.from({ length: info.maxBindValues }, (_, i) => i);
+		const result = await adapter.queryRaw({
+			sql: `SELECT count(*) FROM (SELECT 1 WHERE 0 IN (${args.map(() => "?").join(",")}))`,
+			args,
+			argTypes: args.map(() => ({ scalarType: "int", arity: "scalar" }) as const),
+		});
+		expect(result.rows).toEqual([["1"]]);
+
+		await adapter.dispose();
+	});
+
+	test("maxBindValues overrides the detected limit", async () => {
+		const adapter = await new PrismaBunSqlite({ url: ":memory:", maxBindValues: 500 }).connect();
+		expect(adapter.getConnectionInfo().maxBindValues).toBe(500);
+		await adapter.dispose();
+
+		expect(() => new PrismaBunSqlite({ url: ":memory:", maxBindValues: 0 })).toThrow(
+			"Invalid maxBindValues: 0. Must be a positive integer.",
+		);
+		expect(() => new PrismaBunSqlite({ url: ":memory:", maxBindValues: 1.5 })).toThrow("Invalid maxBindValues");
+	});
+
+	test("falls back to the default limit of the SQLite version", () => {
+		expect(detectMaxVariableNumber("3.45.1", ["THREADSAFE=1", "MAX_VARIABLE_NUMBER=250000"])).toBe(250000);
+		expect(detectMaxVariableNumber("3.45.1", ["THREADSAFE=1"])).toBe(32766);
+		expect(detectMaxVariableNumber("3.32.0", [])).toBe(32766);
+		expect(detectMaxVariableNumber("3.31.1", [])).toBe(999);
+		expect(detectMaxVariableNumber("3.31.1", ["MAX_VARIABLE_NUMBER=5000"])).toBe(5000);
+	});
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for database URL parsing and SQLite URI query parameters
+ */
+
+import { describe, expect, test, beforeEach, afterEach, spyOn } from "bun:test";
+import { Database } from "bun:sqlite";
+import { existsSync, unlinkSync } from "node:fs";
+import { PrismaBunSqlite, parseDatabaseUrl } from "../src/index";
+
+function cleanup(path: string) {
+	try {
+		if (existsSync(path)) unlinkSync(path);
+		if (existsSync(path + "-wal")) unlinkSync(path + "-wal");
+		if (existsSync(path + "-shm")) unlinkSync(path + "-shm");
+	} catch {
+		// Ignore cleanup errors
+	}
+}
+
+describe("parseDatabaseUrl", () => {
+	test("parses plain paths and file: prefixes", () => {
+		expect(parseDatabaseUrl("./dev.db").path).toBe("./dev.db");
+		expect(parseDatabaseUrl("file:./dev.db").path).toBe("./dev.db");
+		expect(parseDatabaseUrl("file:/abs/dev.db").path).toBe("/abs/dev.db");
+		expect(parseDatabaseUrl("file:///abs/dev.db").path).toBe("/abs/dev.db");
+		expect(parseDatabaseUrl("file://localhost/abs/dev.db").path).toBe("/abs/dev.db");
+	});
+
+	test("percent-decodes file: paths only", () => {
+		expect(parseDatabaseUrl("file:./my%20db.sqlite").path).toBe("./my db.sqlite");
+		expect(parseDatabaseUrl("file:///abs/a%3Fb.db?mode=ro").path).toBe("/abs/a?b.db");
+		expect(parseDatabaseUrl("./my%20db.sqlite").path).toBe("./my%20db.sqlite");
+		expect(() => parseDatabaseUrl("file:./100%.db")).toThrow(/Invalid percent-encoding in database URL path/);
+	});
+
+	test("strips the query string from the path", () => {
+		const parsed = parseDatabaseUrl(
+			"file:./dev.db?mode=ro&busy_timeout=10000&journal_mode=WAL&cache=shared",
+		);
+
+		expect(parsed.path).toBe("./dev.db");
+		expect(parsed.mode).toBe("ro");
+		expect(parsed.pragmas).toEqual({ busy_timeout: 10000, journal_mode: "WAL" });
+		expect(parsed.warnings).toHaveLength(1);
+	});
+
+	test("defaults to rwc mode without parameters", () => {
+		expect(parseDatabaseUrl("file:./dev.db")).toEqual({
+			path: "./dev.db",
+			mode: "rwc",
+			pragmas: {},
+			warnings: [],
+		});
+	});
+
+	test("mode=memory and :memory: resolve to an in-memory database", () => {
+		expect(parseDatabaseUrl("file:shared?mode=memory")).toMatchObject({ path: ":memory:", mode: "memory" });
+		expect(parseDatabaseUrl(":memory:")).toMatchObject({ path: ":memory:", mode: "memory" });
+	});
+
+	test("immutable=1 opens read-only", () => {
+		expect(parseDatabaseUrl("file:./dev.db?immutable=1").mode).toBe("ro");
+		expect(parseDatabaseUrl("file:./dev.db?immutable=0").mode).toBe("rwc");
+	});
+
+	test("socket_timeout is converted from seconds to busy_timeout", () => {
+		expect(parseDatabaseUrl("file:./dev.db?socket_timeout=2.5").pragmas).toEqual({ busy_timeout: 2500 });
+		// busy_timeout takes precedence
+		expect(parseDatabaseUrl("file:./dev.db?socket_timeout=2&busy_timeout=100").pragmas).toEqual({
+			busy_timeout: 100,
+		});
+	});
+
+	test("normalizes journal_mode, synchronous and foreign_keys", () => {
+		const parsed = parseDatabaseUrl("file:./dev.db?journal_mode=wal&synchronous=normal&foreign_keys=false");
+		expect(parsed.pragmas).toEqual({ journal_mode: "WAL", synchronous: "NORMAL", foreign_keys: "OFF" });
+	});
+
+	test("connection pool parameters are ignored with a warning", () => {
+		const parsed = parseDatabaseUrl("file:./dev.db?connection_limit=1&pool_timeout=10");
+		expect(parsed.pragmas).toEqual({});
+		expect(parsed.warnings).toHaveLength(2);
+		expect(parsed.warnings[0]).toContain("connection_limit");
+	});
+
+	test("rejects unknown parameters", () => {
+		expect(() => parseDatabaseUrl("file:./dev.db?foo=bar")).toThrow(/Unknown database URL parameter "foo"/);
+	});
+
+	test("rejects invalid values", () => {
+		expect(() => parseDatabaseUrl("file:./dev.db?mode=readonly")).toThrow(/mode=readonly/);
+		expect(() => parseDatabaseUrl("file:./dev.db?busy_timeout=-1")).toThrow(/busy_timeout/);
+		expect(() => parseDatabaseUrl("file:./dev.db?journal_mode=fast")).toThrow(/journal_mode/);
+		expect(() => parseDatabaseUrl("file:./dev.db?immutable=maybe")).toThrow(/immutable/);
+	});
+
+	test("rejects duplicate parameters", () => {
+		expect(() => parseDatabaseUrl("file:./dev.db?mode=ro&mode=rw")).toThrow(/Duplicate/);
+	});
+
+	test("rejects read-only in-memory databases", () => {
+		expect(() => parseDatabaseUrl(":memory:?mode=ro")).toThrow(/in-memory/);
+	});
+});
+
+describe("PrismaBunSqlite URL parameters", () => {
+	let tempDbPath: string;
+
+	beforeEach(() => {
+		tempDbPath = `/tmp/test-url-${Date.now()}-${Math.random().toString(36).substring(2, 9)}.db`;
+	});
+
+	afterEach(() => {
+		cleanup(tempDbPath);
+	});
+
+	test("opens the file without the query string", async () => {
+		const factory = new PrismaBunSqlite({ url: `file:${tempDbPath}?busy_timeout=1234` });
+		const adapter = await factory.connect();
+
+		expect(existsSync(tempDbPath)).toBe(true);
+		expect(existsSync(`${tempDbPath}?busy_timeout=1234`)).toBe(false);
+
+		const result = await adapter.queryRaw({ sql: "PRAGMA busy_timeout", args: [], argTypes: [] });
+		expect(result.rows[0]).toEqual(["1234"]);
+
+		await adapter.dispose();
+	});
+
+	test("URL parameters take precedence over adapter options", async () => {
+		const factory = new PrismaBunSqlite({
+			url: `file:${tempDbPath}?busy_timeout=250&synchronous=OFF`,
+			wal: { enabled: true, busyTimeout: 10000, synchronous: "FULL" },
+		});
+		const adapter = await factory.connect();
+
+		const timeout = await adapter.queryRaw({ sql: "PRAGMA busy_timeout", args: [], argTypes: [] });
+		expect(timeout.rows[0]).toEqual(["250"]);
+
+		const sync = await adapter.queryRaw({ sql: "PRAGMA synchronous", args: [], argTypes: [] });
+		expect(sync.rows[0]).toEqual(["0"]);
+
+		await adapter.dispose();
+	});
+
+	test("journal_mode=WAL enables WAL mode", async () => {
+		const factory = new PrismaBunSqlite({ url: `file:${tempDbPath}?journal_mode=WAL` });
+		const adapter = await factory.connect();
+
+		const result = await adapter.queryRaw({ sql: "PRAGMA journal_mode", args: [], argTypes: [] });
+		expect(result.rows[0]).toEqual(["wal"]);
+
+		await adapter.dispose();
+	});
+
+	test("foreign_keys=false disables foreign key enforcement", async () => {
+		const factory = new PrismaBunSqlite({ url: `file:${tempDbPath}?foreign_keys=false` });
+		const adapter = await factory.connect();
+
+		const result = await adapter.queryRaw({ sql: "PRAGMA foreign_keys", args: [], argTypes: [] });
+		expect(result.rows[0]).toEqual(["0"]);
+
+		await adapter.dispose();
+	});
+
+	test("mode=rw does not create missing files", async () => {
+		const factory = new PrismaBunSqlite({ url: `file:${tempDbPath}?mode=rw` });
+
+		await expect(factory.connect()).rejects.toThrow();
+		expect(existsSync(tempDbPath)).toBe(false);
+	});
+
+	test("mode=ro opens an existing file read-only", async () => {
+		const setup = new Database(tempDbPath);
+		setup.run("CREATE TABLE items (id INTEGER PRIMARY KEY)");
+		setup.close();
+
+		const factory = new PrismaBunSqlite({ url: `file:${tempDbPath}?mode=ro` });
+		const adapter = await factory.connect();
+
+		const result = await adapter.queryRaw({ sql: "SELECT COUNT(*) FROM items", args: [], argTypes: [] });
+		expect(result.rows[0]).toEqual(["0"]);
+
+		await expect(
+			adapter.executeRaw({ sql: "INSERT INTO items (id) VALUES (1)", args: [], argTypes: [] }),
+		).rejects.toThrow();
+
+		await adapter.dispose();
+	});
+
+	test("connection_limit is ignored with a warning, reported to onWarning", async () => {
+		const warn = spyOn(console, "warn");
+		const warnings: string[] = [];
+		try {
+			const url = `file:${tempDbPath}?connection_limit=5`;
+			const factory = new PrismaBunSqlite({ url, shadowDatabaseUrl: url, onWarning: (w) => warnings.push(w) });
+			await (await factory.connect()).dispose();
+			await (await factory.connectToShadowDb()).dispose();
+
+			expect(warnings).toHaveLength(2);
+			expect(warnings[0]).toContain("connection_limit");
+			expect(warn).not.toHaveBeenCalled();
+		} finally {
+			warn.mockRestore();
+		}
+	});
+
+	test("unknown parameters fail at construction", () => {
+		expect(() => new PrismaBunSqlite({ url: "file:./dev.db?jounral_mode=WAL" })).toThrow(
+			/Unknown database URL parameter "jounral_mode"/,
+		);
+		expect(
+			() => new PrismaBunSqlite({ url: ":memory:", shadowDatabaseUrl: "file:./shadow.db?nope=1" }),
+		).toThrow(/Unknown database URL parameter "nope"/);
+	});
+
+	test("shadow database URL parameters are applied", async () => {
+		const factory = new PrismaBunSqlite({
+			url: ":memory:",
+			shadowDatabaseUrl: `file:${tempDbPath}?busy_timeout=4321`,
+		});
+		const adapter = await factory.connectToShadowDb();
+
+		const result = await adapter.queryRaw({ sql: "PRAGMA busy_timeout", args: [], argTypes: [] });
+		expect(result.rows[0]).toEqual(["4321"]);
+
+		await adapter.dispose();
+	});
+});
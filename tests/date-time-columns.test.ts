@@ -0,0 +1,258 @@
+/**
+ * Tests for DATE and TIME columns
+ */
+
+import { describe, expect, spyOn, test } from "bun:test";
+import type { Database } from "bun:sqlite";
+import { ColumnTypeEnum } from "@prisma/driver-adapter-utils";
+import { PrismaClient } from "@/prisma-generated/client";
+import { PrismaBunSqlite } from "../src/index";
+import { readTimestamp, writeTimestamp } from "../src/conversion";
+import { CodecRegistry } from "../src/codecs";
+import { connect, conversion, noArgs } from "./helpers";
+
+const datetimeArg = { scalarType: "datetime" as const, arity: "scalar" as const };
+
+const DATE = new Date("2025-01-01T12:34:56.789Z");
+
+const SCHEMA = "CREATE TABLE shifts (id INTEGER PRIMARY KEY, day DATE, starts TIME, at DATETIME)";
+
+describe("writeTimestamp for DATE and TIME columns", () => {
+	test("keeps the UTC date or time of day", () => {
+		expect(writeTimestamp(DATE, "iso8601", ColumnTypeEnum.Date)).toBe("2025-01-01");
+		expect(writeTimestamp(DATE, "sqlite-text", ColumnTypeEnum.Date)).toBe("2025-01-01");
+		expect(writeTimestamp(DATE, "unixepoch-ms", ColumnTypeEnum.Date)).toBe(Date.UTC(2025, 0, 1));
+		expect(writeTimestamp(DATE, "unixepoch-s", ColumnTypeEnum.Date)).toBe(Date.UTC(2025, 0, 1) / 1000);
+
+		expect(writeTimestamp(DATE, "iso8601", ColumnTypeEnum.Time)).toBe("12:34:56.789");
+		expect(writeTimestamp(new Date("2025-01-01T12:34:56Z"), "sqlite-text", ColumnTypeEnum.Time)).toBe("12:34:56");
+		expect(writeTimestamp(DATE, "unixepoch-ms", ColumnTypeEnum.Time)).toBe(45296789);
+		expect(writeTimestamp(new Date("1969-12-31T23:00:00Z"), "unixepoch-ms", ColumnTypeEnum.Time)).toBe(82800000);
+	});
+});
+
+describe("readTimestamp for DATE and TIME columns", () => {
+	test("reads text in any form", () => {
+		const options = conversion();
+		expect(readTimestamp("2025-01-01", options, ColumnTypeEnum.Date)).toBe("2025-01-01");
+		expect(readTimestamp("2025-01-01T23:30:00-02:00", options, ColumnTypeEnum.Date)).toBe("2025-01-02");
+		expect(readTimestamp("12:34:56.789", options, ColumnTypeEnum.Time)).toBe("12:34:56.789");
+		expect(readTimestamp("12:34", options, ColumnTypeEnum.Time)).toBe("12:34:00.000");
+		expect(readTimestamp("2025-01-01 12:34:56", options, ColumnTypeEnum.Time)).toBe("12:34:56.000");
+		expect(readTimestamp("someday", options, ColumnTypeEnum.Date)).toBe("someday");
+	});
+
+	test("reads numbers in the configured format", () => {
+		expect(readTimestamp(DATE.getTime(), conversion(), ColumnTypeEnum.Date)).toBe("2025-01-01");
+		expect(readTimestamp(45296789n, conversion(), ColumnTypeEnum.Time)).toBe("12:34:56.789");
+		expect(readTimestamp(45296.789, conversion({ timestampFormat: "unixepoch-s" }), ColumnTypeEnum.Time)).toBe(
+			"12:34:56.789",
+		);
+		expect(readTimestamp(2460676.5, conversion({ timestampFormat: "julianday" }), ColumnTypeEnum.Date)).toBe(
+			"2025-01-01",
+		);
+	});
+});
+
+describe("DATE and TIME columns", () => {
+	test("round-trip datetime arguments", async () => {
+		const adapter = await connect(SCHEMA);
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO shifts (id, day, starts, at) VALUES (1, ?, ?, ?)",
+			args: [DATE, DATE, DATE],
+			argTypes: [datetimeArg, datetimeArg, datetimeArg],
+		});
+		const stored = await adapter.queryRaw({ sql: "SELECT day || '', starts || '' FROM shifts", ...noArgs });
+		const result = await adapter.queryRaw({
+			sql: "SELECT day, starts, at FROM shifts WHERE day = ? AND starts <= ?",
+			args: [DATE, DATE],
+			argTypes: [datetimeArg, datetimeArg],
+		});
+
+		expect(stored.rows).toEqual([["2025-01-01", "12:34:56.789"]]);
+		expect(result.columnTypes).toEqual([ColumnTypeEnum.Date, ColumnTypeEnum.Time, ColumnTypeEnum.DateTime]);
+		expect(result.rows).toEqual([["2025-01-01", "12:34:56.789", "2025-01-01T12:34:56.789+00:00"]]);
+
+		await adapter.dispose();
+	});
+
+	test("are only looked up when the schema has DATE or TIME columns", async () => {
+		const adapter = await connect("CREATE TABLE events (id INTEGER PRIMARY KEY, at DATETIME)");
+		const forArguments = spyOn(CodecRegistry.prototype, "forArguments");
+		const insert = (sql: string) => adapter.executeRaw({ sql, args: [DATE], argTypes: [datetimeArg] });
+
+		try {
+			await insert("INSERT INTO events (id, at) VALUES (1, ?)");
+			expect(forArguments).not.toHaveBeenCalled();
+
+			// Schema changes made outside executeScript() are picked up too
+			await adapter.executeRaw({ sql: "ALTER TABLE events ADD COLUMN day DATE", ...noArgs });
+			await insert("INSERT INTO events (id, day) VALUES (2, ?)");
+			expect(forArguments).toHaveBeenCalledTimes(1);
+		} finally {
+			forArguments.mockRestore();
+		}
+
+		const result = await adapter.queryRaw({ sql: "SELECT day || '' FROM events WHERE id = 2", ...noArgs });
+		expect(result.rows).toEqual([["2025-01-01"]]);
+
+		await adapter.dispose();
+	});
+
+	test("use the numeric timestamp formats", async () => {
+		const adapter = await connect(SCHEMA, { timestampFormat: "unixepoch-ms", safeIntegers: false });
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO shifts (id, day, starts) VALUES (1, ?, ?)",
+			args: [DATE, DATE],
+			argTypes: [datetimeArg, datetimeArg],
+		});
+		const stored = await adapter.queryRaw({ sql: "SELECT day + 0, starts + 0 FROM shifts", ...noArgs });
+		const result = await adapter.queryRaw({ sql: "SELECT day, starts FROM shifts", ...noArgs });
+
+		expect(stored.rows).toEqual([[Date.UTC(2025, 0, 1), 45296789]]);
+		expect(result.rows).toEqual([["2025-01-01", "12:34:56.789"]]);
+
+		await adapter.dispose();
+	});
+
+	test("read values written by SQLite's date functions", async () => {
+		const adapter = await connect(SCHEMA);
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO shifts (id, day, starts) VALUES (1, date('2025-01-01 12:34:56'), time('2025-01-01 12:34:56'))",
+			...noArgs,
+		});
+		const result = await adapter.queryRaw({ sql: "SELECT day, starts FROM shifts", ...noArgs });
+
+		expect(result.rows).toEqual([["2025-01-01", "12:34:56.000"]]);
+
+		await adapter.dispose();
+	});
+});
+
+describe("DATE and TIME arguments in statements over several tables", () => {
+	const FULL = "2025-01-01T12:34:56.789+00:00";
+
+	// log.day is a full timestamp, shifts.day a date
+	async function connectWithLog() {
+		const adapter = await connect(SCHEMA);
+		await adapter.executeScript(`
+			CREATE TABLE log (id INTEGER PRIMARY KEY, shift_id INTEGER, day DATETIME);
+			INSERT INTO shifts (id, day, at) VALUES (1, '2025-01-01', '${FULL}');
+			INSERT INTO log (id, shift_id, day) VALUES (1, 1, '2024-06-01T00:00:00.000+00:00');
+		`);
+		return adapter;
+	}
+
+	async function logDays(adapter: Awaited<ReturnType<typeof connect>>) {
+		return (await adapter.queryRaw({ sql: "SELECT day || '' FROM log ORDER BY id", ...noArgs })).rows;
+	}
+
+	test("columns in several tables keep the full timestamp", async () => {
+		const adapter = await connectWithLog();
+
+		// day is in both tables; s.day is qualified
+		const changes = await adapter.executeRaw({
+			sql: "UPDATE log SET day = ? FROM shifts AS s WHERE s.id = log.shift_id AND s.day = ?",
+			args: [DATE, DATE],
+			argTypes: [datetimeArg, datetimeArg],
+		});
+		expect(changes).toBe(1);
+		expect(await logDays(adapter)).toEqual([[FULL]]);
+
+		await adapter.executeRaw({
+			sql: "WITH recent AS (SELECT id FROM shifts WHERE day IS NOT NULL) UPDATE log SET day = ? WHERE shift_id IN recent",
+			args: [new Date("2025-02-03T04:05:06.007Z")],
+			argTypes: [datetimeArg],
+		});
+		expect(await logDays(adapter)).toEqual([["2025-02-03T04:05:06.007+00:00"]]);
+
+		await adapter.dispose();
+	});
+
+	test("INSERT ... SELECT keeps the full timestamp of selected arguments", async () => {
+		const adapter = await connectWithLog();
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO log (id, shift_id, day) SELECT 2, id, ? FROM shifts WHERE shifts.day = ?",
+			args: [DATE, DATE],
+			argTypes: [datetimeArg, datetimeArg],
+		});
+
+		expect(await logDays(adapter)).toEqual([["2024-06-01T00:00:00.000+00:00"], [FULL]]);
+
+		await adapter.dispose();
+	});
+
+	test("aliases bound to several tables are not resolved", async () => {
+		const adapter = await connectWithLog();
+
+		// The outer t is log, the inner t is shifts
+		const result = await adapter.queryRaw({
+			sql: "SELECT t.id FROM log AS t WHERE t.day = ? AND EXISTS (SELECT 1 FROM shifts AS t WHERE t.id = 1)",
+			args: [new Date("2024-06-01T00:00:00.000Z")],
+			argTypes: [datetimeArg],
+		});
+
+		expect(result.rows).toEqual([["1"]]);
+
+		await adapter.dispose();
+	});
+
+	test("subqueries in FROM keep the full timestamp", async () => {
+		const adapter = await connectWithLog();
+
+		const result = await adapter.queryRaw({
+			sql: "SELECT id FROM (SELECT id, at AS day FROM shifts) WHERE day = ?",
+			args: [DATE],
+			argTypes: [datetimeArg],
+		});
+
+		expect(result.rows).toEqual([["1"]]);
+
+		await adapter.dispose();
+	});
+});
+
+describe("DATE columns with Prisma Client", () => {
+	/**
+	 * Existing Product table whose createdAt column only stores the date
+	 */
+	function createDateTable(db: Database) {
+		db.run(`
+			CREATE TABLE "Product" (
+				"id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+				"name" TEXT NOT NULL,
+				"price" DECIMAL NOT NULL,
+				"discount" DECIMAL,
+				"description" TEXT,
+				"inStock" BOOLEAN NOT NULL DEFAULT true,
+				"createdAt" DATE NOT NULL DEFAULT CURRENT_DATE
+			)
+		`);
+		db.run(`INSERT INTO "Product" ("name", "price", "createdAt") VALUES ('legacy', 1, '2024-06-30')`);
+	}
+
+	test("round-trips and filters dates like @db.Date", async () => {
+		const adapter = new PrismaBunSqlite({ url: ":memory:", onConnect: createDateTable });
+		const prisma = new PrismaClient({ adapter });
+
+		try {
+			const created = await prisma.product.create({ data: { name: "new", price: 2, createdAt: DATE } });
+			const legacy = await prisma.product.findFirstOrThrow({ where: { name: "legacy" } });
+			const onDay = await prisma.product.findMany({ where: { createdAt: new Date("2025-01-01") } });
+			const [stored] = await prisma.$queryRaw<{ createdAt: string }[]>`
+				SELECT "createdAt" || '' AS "createdAt" FROM "Product" WHERE "name" = 'new'
+			`;
+
+			expect(created.createdAt).toEqual(new Date("2025-01-01T00:00:00Z"));
+			expect(legacy.createdAt).toEqual(new Date("2024-06-30T00:00:00Z"));
+			expect(onDay.map((product) => product.name)).toEqual(["new"]);
+			expect(stored!.createdAt).toBe("2025-01-01");
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+});
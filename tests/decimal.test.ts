@@ -0,0 +1,215 @@
+/**
+ * Tests for decimalStorage
+ */
+
+import { describe, expect, spyOn, test } from "bun:test";
+import type { Database } from "bun:sqlite";
+import { PrismaClient, Prisma } from "@/prisma-generated/client";
+import { PrismaBunSqlite } from "../src/index";
+import { canonicalDecimal } from "../src/conversion";
+import { connect } from "./helpers";
+
+const decimalArg = { scalarType: "decimal" as const, arity: "scalar" as const };
+
+const LARGE_AMOUNT = "123456789012345678901234567890.12";
+
+/**
+ * Product table as created by Prisma Migrate, with the given declared type for `price`
+ */
+function createProductTable(priceType: string) {
+	return (db: Database) => {
+		db.run(`
+			CREATE TABLE "Product" (
+				"id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+				"name" TEXT NOT NULL,
+				"price" ${priceType} NOT NULL,
+				"discount" DECIMAL,
+				"description" TEXT,
+				"inStock" BOOLEAN NOT NULL DEFAULT true,
+				"createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+			)
+		`);
+	};
+}
+
+const SCHEMA = "CREATE TABLE amounts (id INTEGER PRIMARY KEY, d DECIMAL, t TEXT)";
+
+describe("canonicalDecimal", () => {
+	test("normalizes to plain notation", () => {
+		expect(canonicalDecimal("1.50")).toBe("1.5");
+		expect(canonicalDecimal("007.000")).toBe("7");
+		expect(canonicalDecimal("-0.0")).toBe("0");
+		expect(canonicalDecimal("+.5")).toBe("0.5");
+		expect(canonicalDecimal("1e-7")).toBe("0.0000001");
+		expect(canonicalDecimal("1.5E+3")).toBe("1500");
+		expect(canonicalDecimal(-2.5e-3)).toBe("-0.0025");
+		expect(canonicalDecimal(1.2345678901234568e29)).toBe("123456789012345680000000000000");
+		expect(canonicalDecimal(12345678901234567890n)).toBe("12345678901234567890");
+		expect(canonicalDecimal(LARGE_AMOUNT)).toBe(LARGE_AMOUNT);
+	});
+
+	test("rejects values that are not finite decimals", () => {
+		for (const value of ["", ".", "abc", "1.2.3", "NaN", NaN, Infinity]) {
+			expect(() => canonicalDecimal(value)).toThrow("Invalid decimal value");
+		}
+		expect(() => canonicalDecimal("1e999999999")).toThrow("out of range");
+	});
+});
+
+describe("decimalStorage", () => {
+	test('"text" binds decimal strings, which only TEXT columns keep exactly', async () => {
+		const adapter = await connect(SCHEMA, { decimalStorage: "text" });
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO amounts (id, d, t) VALUES (1, ?, ?), (2, ?, ?), (3, ?, ?)",
+			args: ["0.3", "0.3", "1.50", "1.50", LARGE_AMOUNT, LARGE_AMOUNT],
+			argTypes: Array(6).fill(decimalArg),
+		});
+		const result = await adapter.queryRaw({ sql: "SELECT d, t FROM amounts ORDER BY id", args: [], argTypes: [] });
+
+		expect(result.rows).toEqual([
+			["0.3", "0.3"],
+			["1.5", "1.5"],
+			// DECIMAL has NUMERIC affinity: SQLite keeps 15 significant digits
+			["123456789012345680000000000000", LARGE_AMOUNT],
+		]);
+
+		await adapter.dispose();
+	});
+
+	test('"real" keeps binding numbers', async () => {
+		const adapter = await connect(SCHEMA);
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO amounts (id, d, t) VALUES (1, ?, ?)",
+			args: [LARGE_AMOUNT, "1.50"],
+			argTypes: [decimalArg, decimalArg],
+		});
+		const result = await adapter.queryRaw({ sql: "SELECT d, t, typeof(t) FROM amounts", args: [], argTypes: [] });
+
+		expect(result.rows).toEqual([[1.2345678901234568e29, "1.5", "text"]]);
+
+		await adapter.dispose();
+	});
+
+	test("equal amounts match in TEXT columns", async () => {
+		const adapter = await connect(SCHEMA, { decimalStorage: "text" });
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO amounts (id, t) VALUES (1, ?)",
+			args: ["2.50"],
+			argTypes: [decimalArg],
+		});
+		const result = await adapter.queryRaw({
+			sql: "SELECT id FROM amounts WHERE t = ?",
+			args: ["2.5000"],
+			argTypes: [decimalArg],
+		});
+
+		expect(result.rows).toEqual([["1"]]);
+
+		await adapter.dispose();
+	});
+
+	test("invalid decimal arguments fail", async () => {
+		const adapter = await connect(SCHEMA, { decimalStorage: "text" });
+
+		const error = await adapter
+			.executeRaw({ sql: "INSERT INTO amounts (id, d) VALUES (1, ?)", args: ["abc"], argTypes: [decimalArg] })
+			.catch((e) => e);
+		expect(error.cause).toMatchObject({ kind: "GenericJs", originalMessage: 'Invalid decimal value: "abc"' });
+
+		await adapter.dispose();
+	});
+
+	test('"text" reports DECIMAL columns to onWarning', async () => {
+		const warn = spyOn(console, "warn");
+		const warnings: string[] = [];
+		const factory = new PrismaBunSqlite({
+			url: ":memory:",
+			decimalStorage: "text",
+			onConnect: (db) => {
+				db.run("CREATE TABLE ledger (id INTEGER PRIMARY KEY, amount DECIMAL(30, 2), note TEXT)");
+			},
+			onWarning: (warning) => warnings.push(warning),
+		});
+
+		try {
+			await (await factory.connect()).dispose();
+			// Not reported with the default "real"
+			const real = new PrismaBunSqlite({
+				url: ":memory:",
+				onConnect: createProductTable("DECIMAL"),
+				onWarning: (warning) => warnings.push(warning),
+			});
+			await (await real.connect()).dispose();
+
+			expect(warnings).toEqual([
+				'decimalStorage: "text" only keeps every digit in TEXT columns. ' +
+					'"ledger"."amount" have NUMERIC affinity (declared DECIMAL), so SQLite stores their values as REAL ' +
+					'with 15 significant digits. Declare them TEXT in the migration SQL, or use decimalStorage: "real".',
+			]);
+			expect(warn).not.toHaveBeenCalled();
+		} finally {
+			warn.mockRestore();
+		}
+	});
+
+	test("rejects unknown values", () => {
+		expect(() => new PrismaBunSqlite({ url: ":memory:", decimalStorage: "exact" as any })).toThrow(
+			'Invalid decimalStorage: "exact"',
+		);
+	});
+});
+
+describe("decimalStorage with Prisma Client", () => {
+	test("round-trips Decimal arithmetic and 30-digit amounts in a TEXT column", async () => {
+		const adapter = new PrismaBunSqlite({
+			url: ":memory:",
+			decimalStorage: "text",
+			onConnect: createProductTable("TEXT"),
+		});
+		const prisma = new PrismaClient({ adapter });
+
+		try {
+			const sum = new Prisma.Decimal("0.1").plus("0.2");
+			const small = await prisma.product.create({ data: { name: "small", price: sum } });
+			const large = await prisma.product.create({ data: { name: "large", price: LARGE_AMOUNT } });
+
+			expect(small.price.toString()).toBe("0.3");
+			// Decimal.js switches to exponent notation beyond 21 integer digits
+			expect(large.price.toFixed()).toBe(LARGE_AMOUNT);
+
+			const found = await prisma.product.findFirstOrThrow({ where: { price: LARGE_AMOUNT } });
+			expect(found.id).toBe(large.id);
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+
+	test("keeps up to 15 significant digits in a DECIMAL column", async () => {
+		const adapter = new PrismaBunSqlite({
+			url: ":memory:",
+			decimalStorage: "text",
+			onConnect: createProductTable("DECIMAL"),
+		});
+		const prisma = new PrismaClient({ adapter });
+
+		try {
+			const product = await prisma.product.create({
+				data: { name: "p", price: new Prisma.Decimal("0.1").plus("0.2"), discount: "12345678901.2345" },
+			});
+			const read = await prisma.product.findUniqueOrThrow({ where: { id: product.id } });
+
+			expect(read.price.toString()).toBe("0.3");
+			expect(read.discount?.toString()).toBe("12345678901.2345");
+
+			// Aggregates are computed by SQLite in floating point
+			await prisma.product.createMany({ data: [{ name: "q", price: "0.1" }, { name: "q", price: "0.2" }] });
+			const { _sum } = await prisma.product.aggregate({ where: { name: "q" }, _sum: { price: true } });
+			expect(_sum.price?.toString()).toBe("0.30000000000000004");
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+});
@@ -0,0 +1,49 @@
+/**
+ * Fixtures shared by the test files
+ */
+
+import { Database } from "bun:sqlite";
+import { BunSqliteAdapter, PrismaBunSqlite, type PrismaBunSqliteOptions } from "../src/index";
+import type { ConversionOptions } from "../src/conversion";
+
+/** Spread into a query that has no parameters */
+export const noArgs = { args: [], argTypes: [] };
+
+/**
+ * Connect an in-memory database through the factory and create the tables in `schema`
+ */
+export async function connect(schema: string, options: PrismaBunSqliteOptions = {}) {
+	const adapter = await new PrismaBunSqlite({ url: ":memory:", ...options }).connect();
+	await adapter.executeScript(schema);
+	return adapter;
+}
+
+/**
+ * Wrap a database in an adapter directly, after running `schema` on it
+ * Returns the database too, for tests that inspect or spy on it
+ */
+export function createAdapter(
+	schema: string,
+	options: PrismaBunSqliteOptions = {},
+	db = new Database(":memory:", { safeIntegers: true }),
+) {
+	db.exec(schema);
+	return { db, adapter: new BunSqliteAdapter(db, options) };
+}
+
+/**
+ * The options the adapter builds from an empty configuration, for calling conversion.ts directly
+ */
+export function conversion(overrides: Partial<ConversionOptions> = {}): ConversionOptions {
+	return {
+		timestampFormat: "iso8601",
+		tolerantTimestamps: false,
+		allowBigIntToNumberConversion: false,
+		decimalStorage: "real",
+		bytesOutput: "array",
+		canonicalJson: false,
+		validateJson: false,
+		decodeJsonb: () => "",
+		...overrides,
+	};
+}
@@ -0,0 +1,147 @@
+/**
+ * Tests for onQuery / onError / onTransaction event hooks
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+	BunSqliteAdapter,
+	PrismaBunSqlite,
+	type QueryErrorEvent,
+	type QueryEvent,
+	type TransactionEvent,
+} from "../src/index";
+import { noArgs } from "./helpers";
+
+describe("Event Hooks", () => {
+	let queries: QueryEvent[];
+	let errors: QueryErrorEvent[];
+	let transactions: TransactionEvent[];
+	let adapter: BunSqliteAdapter;
+
+	beforeEach(() => {
+		queries = [];
+		errors = [];
+		transactions = [];
+
+		const db = new Database(":memory:", { safeIntegers: true });
+		db.run("CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE NOT NULL, createdAt DATETIME)");
+		adapter = new BunSqliteAdapter(db, {
+			onQuery: (event) => queries.push(event),
+			onError: (event) => errors.push(event),
+			onTransaction: (event) => transactions.push(event),
+		});
+	});
+
+	afterEach(async () => {
+		await adapter.dispose();
+	});
+
+	test("onQuery receives SQL, mapped args, duration and row count", async () => {
+		await adapter.executeRaw({
+			sql: "INSERT INTO users (id, email, createdAt) VALUES (?, ?, ?)",
+			args: [1, "a@example.com", "2024-01-02T03:04:05.000Z"],
+			argTypes: [
+				{ scalarType: "int", arity: "scalar" },
+				{ scalarType: "string", arity: "scalar" },
+				{ scalarType: "datetime", arity: "scalar" },
+			],
+		});
+		await adapter.queryRaw({ sql: "SELECT * FROM users", ...noArgs });
+
+		expect(queries).toHaveLength(2);
+		expect(queries[0]).toMatchObject({
+			method: "executeRaw",
+			sql: "INSERT INTO users (id, email, createdAt) VALUES (?, ?, ?)",
+			// Date argument converted to the stored ISO 8601 format
+			args: [1, "a@example.com", "2024-01-02T03:04:05.000+00:00"],
+			changes: 1,
+			inTransaction: false,
+		});
+		expect(queries[0]!.durationMs).toBeGreaterThanOrEqual(0);
+		expect(queries[1]).toMatchObject({ method: "queryRaw", rowCount: 1 });
+		expect(errors).toEqual([]);
+	});
+
+	test("onError receives the converted error kind", async () => {
+		await adapter.executeRaw({ sql: "INSERT INTO users (id, email) VALUES (1, 'a@example.com')", ...noArgs });
+
+		const thrown = await adapter
+			.executeRaw({ sql: "INSERT INTO users (id, email) VALUES (2, 'a@example.com')", ...noArgs })
+			.catch((e) => e);
+
+		expect(errors).toHaveLength(1);
+		expect(errors[0]).toMatchObject({ method: "executeRaw", kind: "UniqueConstraintViolation" });
+		expect(errors[0]!.error).toBe(thrown);
+		expect(queries).toHaveLength(1);
+	});
+
+	test("executeScript is reported", async () => {
+		await adapter.executeScript("CREATE TABLE a (id INTEGER); CREATE TABLE b (id INTEGER);");
+		await adapter.executeScript("CREATE TABLE a (id INTEGER)").catch(() => {});
+
+		expect(queries.map((event) => event.method)).toEqual(["executeScript"]);
+		expect(errors.map((event) => event.method)).toEqual(["executeScript"]);
+	});
+
+	test("onTransaction reports begin, commit and rollback", async () => {
+		const tx = await adapter.startTransaction();
+		await tx.executeRaw({ sql: "INSERT INTO users (id, email) VALUES (1, 'a@example.com')", ...noArgs });
+
+		const savepoint = await tx.savepoint("sp");
+		await savepoint.rollback();
+
+		await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+		await tx.commit();
+
+		expect(transactions.map(({ action, depth, savepointName }) => ({ action, depth, savepointName }))).toEqual([
+			{ action: "begin", depth: 0, savepointName: undefined },
+			{ action: "begin", depth: 1, savepointName: "sp" },
+			{ action: "rollback", depth: 1, savepointName: "sp" },
+			{ action: "commit", depth: 0, savepointName: undefined },
+		]);
+		expect(transactions[0]!.mode).toBe("deferred");
+		expect(queries.every((event) => event.inTransaction)).toBe(true);
+	});
+
+	test("hook errors do not break queries", async () => {
+		const failing = new BunSqliteAdapter(new Database(":memory:"), {
+			safeIntegers: false,
+			onQuery: () => {
+				throw new Error("hook failure");
+			},
+			onTransaction: async () => {
+				throw new Error("async hook failure");
+			},
+		});
+
+		const result = await failing.queryRaw({ sql: "SELECT 1 AS one", ...noArgs });
+		expect(result.rows).toEqual([[1]]);
+
+		const tx = await failing.startTransaction();
+		await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+		await tx.commit();
+		await failing.dispose();
+	});
+});
+
+describe("Event Hooks via PrismaBunSqlite", () => {
+	test("expired transactions are reported as forced rollbacks", async () => {
+		const transactions: TransactionEvent[] = [];
+		const adapter = await new PrismaBunSqlite({
+			url: ":memory:",
+			maxTransactionDurationMs: 10,
+			onTransaction: (event) => transactions.push(event),
+		}).connect();
+
+		const tx = await adapter.startTransaction();
+		await Bun.sleep(30);
+		await tx.rollback();
+
+		expect(transactions.map((event) => [event.action, event.expired])).toEqual([
+			["begin", undefined],
+			["rollback", true],
+		]);
+		await adapter.dispose();
+	});
+});
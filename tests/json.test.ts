@@ -0,0 +1,163 @@
+/**
+ * Tests for JSON arguments and JSONB decoding
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { canonicalJson, decodeJsonb, stringifyJson, UnsupportedJsonbError } from "../src/json";
+import { connect, noArgs } from "./helpers";
+
+const jsonArg = { scalarType: "json" as const, arity: "scalar" as const };
+
+const DOCUMENTS = [
+	"null",
+	"true",
+	"[]",
+	"{}",
+	'{"b":1,"a":[1,2.50,-3e10,"x"],"n":12345678901234567890}',
+	'{"nested":{"deeper":{"list":[{},[],[null,false]]}}}',
+	'{"escaped":"quote \\" backslash \\\\ newline \\n tab \\t unicode \\u00e9"}',
+	'{"unicode":"héllo wörld 🚀","":"empty key"}',
+	JSON.stringify({ long: "x".repeat(300), longer: "y".repeat(70_000) }),
+];
+
+const SCHEMA = "CREATE TABLE docs (id INTEGER PRIMARY KEY, j JSON, jb JSONB)";
+
+describe("decodeJsonb", () => {
+	test("matches SQLite's json()", () => {
+		const db = new Database(":memory:");
+		for (const document of DOCUMENTS) {
+			const [blob, text] = db.query("SELECT jsonb(?1), json(?1)").values(document)[0] as [Uint8Array, string];
+			expect(decodeJsonb(blob)).toBe(text);
+		}
+		db.close();
+	});
+
+	test("leaves JSON5 elements to SQLite", () => {
+		const db = new Database(":memory:");
+		const blob = db.query("SELECT jsonb('{a: 0x1F}')").values()[0]![0] as Uint8Array;
+		expect(() => decodeJsonb(blob)).toThrow(UnsupportedJsonbError);
+		db.close();
+	});
+
+	test("rejects malformed blobs", () => {
+		expect(() => decodeJsonb(new Uint8Array([0x0b, 0x13]))).toThrow("Malformed JSONB");
+		expect(() => decodeJsonb(new Uint8Array([0x00, 0x00]))).toThrow("trailing bytes");
+		expect(() => decodeJsonb(new Uint8Array([0x0d]))).toThrow("reserved element type");
+	});
+});
+
+describe("canonicalJson", () => {
+	test("sorts keys and drops whitespace, keeping numbers as written", () => {
+		expect(canonicalJson('{ "b": 1, "a": { "d": [ 2.50, 1e3 ], "c": null } }')).toBe(
+			'{"a":{"c":null,"d":[2.50,1e3]},"b":1}',
+		);
+		expect(canonicalJson('{"id": 12345678901234567890}')).toBe('{"id":12345678901234567890}');
+		expect(canonicalJson('{"a":1,"a":2}')).toBe('{"a":2}');
+		expect(canonicalJson('"\\u00e9"')).toBe('"é"');
+	});
+
+	test("rejects invalid JSON", () => {
+		for (const text of ["", "{", "{a:1}", "[1,]", "01", "'x'", "1 2", "NaN"]) {
+			expect(() => canonicalJson(text)).toThrow(SyntaxError);
+		}
+	});
+});
+
+describe("stringifyJson", () => {
+	test("serializes values with sorted keys", () => {
+		expect(stringifyJson({ b: 1, a: [true, null, 10n], c: undefined })).toBe('{"a":[true,null,10],"b":1}');
+		expect(stringifyJson(new Date("2025-01-01T00:00:00Z"))).toBe('"2025-01-01T00:00:00.000Z"');
+	});
+});
+
+describe("JSON columns", () => {
+	test("JSONB values come back as JSON text", async () => {
+		const adapter = await connect(SCHEMA);
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO docs (id, j, jb) VALUES (1, jsonb(?), jsonb(?)), (2, ?, jsonb('{a: 0x1F}'))",
+			args: ['{"a":1}', '{"b":[1,2]}', '{"c":true}'],
+			argTypes: [jsonArg, jsonArg, jsonArg],
+		});
+		const result = await adapter.queryRaw({ sql: "SELECT j, jb FROM docs ORDER BY id", ...noArgs });
+
+		expect(result.rows).toEqual([
+			['{"a":1}', '{"b":[1,2]}'],
+			// JSON5 is decoded by SQLite
+			['{"c":true}', '{"a":31}'],
+		]);
+
+		await adapter.dispose();
+	});
+
+	test("queryStream decodes JSONB too", async () => {
+		const adapter = await connect(SCHEMA);
+		await adapter.executeRaw({ sql: "INSERT INTO docs (id, jb) VALUES (1, jsonb('[1,2]'))", ...noArgs });
+
+		const rows: unknown[][] = [];
+		for await (const row of adapter.queryStream({ sql: "SELECT jb FROM docs", ...noArgs })) rows.push(row);
+		expect(rows).toEqual([["[1,2]"]]);
+
+		await adapter.dispose();
+	});
+
+	test("malformed blobs in JSON columns fail the query", async () => {
+		const adapter = await connect(SCHEMA);
+		await adapter.executeRaw({ sql: "INSERT INTO docs (id, jb) VALUES (1, x'0d')", ...noArgs });
+
+		const error = await adapter.queryRaw({ sql: "SELECT jb FROM docs", ...noArgs }).catch((e) => e);
+		expect(error.cause.originalMessage).toContain("Malformed JSONB");
+
+		await adapter.dispose();
+	});
+});
+
+describe("JSON arguments", () => {
+	const insert = (value: unknown) => ({
+		sql: "INSERT INTO docs (j) VALUES (?)",
+		args: [value],
+		argTypes: [jsonArg],
+	});
+
+	test("JSON text is stored as sent by default", async () => {
+		const adapter = await connect(SCHEMA);
+
+		await adapter.executeRaw(insert('{ "b": 1, "a": 2 }'));
+		await adapter.executeRaw(insert("not json"));
+		await adapter.executeRaw(insert({ b: 1, a: [true] }));
+		const result = await adapter.queryRaw({ sql: "SELECT j FROM docs ORDER BY id", ...noArgs });
+
+		expect(result.rows).toEqual([['{ "b": 1, "a": 2 }'], ["not json"], ['{"a":[true],"b":1}']]);
+
+		await adapter.dispose();
+	});
+
+	test("canonicalJson stores equal documents as identical text", async () => {
+		const adapter = await connect(SCHEMA, { canonicalJson: true });
+
+		await adapter.executeRaw(insert('{ "b": 1, "a": {"y": 2.50, "x": 12345678901234567890} }'));
+		const result = await adapter.queryRaw({
+			sql: "SELECT j FROM docs WHERE j = ?",
+			args: ['{"a":{"x":12345678901234567890,"y":2.50},"b":1}'],
+			argTypes: [jsonArg],
+		});
+
+		expect(result.rows).toEqual([['{"a":{"x":12345678901234567890,"y":2.50},"b":1}']]);
+
+		await adapter.dispose();
+	});
+
+	test("validateJson rejects invalid documents", async () => {
+		const adapter = await connect(SCHEMA, { validateJson: true });
+
+		await adapter.executeRaw(insert('{"ok":true}'));
+		const error = await adapter.executeRaw(insert("{oops")).catch((e) => e);
+		expect(error.cause).toMatchObject({
+			kind: "GenericJs",
+			originalMessage: expect.stringContaining("Invalid JSON argument"),
+		});
+
+		await adapter.dispose();
+	});
+});
@@ -0,0 +1,195 @@
+/**
+ * Tests for lastInsertId on raw inserts
+ */
+
+import { describe, expect, test, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import type { BunSqliteAdapter, QueryEvent } from "../src/index";
+import { createAdapter, noArgs } from "./helpers";
+
+const stringArg = { scalarType: "string" as const, arity: "scalar" as const };
+
+const SCHEMA = `
+	CREATE TABLE legacy (id INTEGER PRIMARY KEY, name TEXT UNIQUE);
+	CREATE TABLE keyed (code TEXT PRIMARY KEY, name TEXT);
+`;
+
+describe("lastInsertId", () => {
+	let adapter: BunSqliteAdapter;
+
+	afterEach(async () => {
+		await adapter.dispose();
+	});
+
+	test("executeRawWithResult returns the inserted rowid", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+
+		const first = await adapter.executeRawWithResult({
+			sql: "INSERT INTO legacy (name) VALUES (?)",
+			args: ["a"],
+			argTypes: [stringArg],
+		});
+		const second = await adapter.executeRawWithResult({
+			sql: "INSERT INTO legacy (name) VALUES ('b'), ('c')",
+			...noArgs,
+		});
+
+		expect(first).toEqual({ changes: 1, lastInsertId: "1" });
+		// Multi-row inserts report the last row
+		expect(second).toEqual({ changes: 2, lastInsertId: "3" });
+	});
+
+	test("executeRaw still returns the change count", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		expect(await adapter.executeRaw({ sql: "INSERT INTO legacy (name) VALUES ('a')", ...noArgs })).toBe(1);
+	});
+
+	test("REPLACE reports the rowid, other statements do not", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		await adapter.executeRaw({ sql: "INSERT INTO legacy (id, name) VALUES (5, 'a')", ...noArgs });
+
+		const replaced = await adapter.executeRawWithResult({ sql: "REPLACE INTO legacy (name) VALUES ('a')", ...noArgs });
+		const updated = await adapter.executeRawWithResult({ sql: "UPDATE legacy SET name = 'b'", ...noArgs });
+		const deleted = await adapter.executeRawWithResult({ sql: "DELETE FROM legacy", ...noArgs });
+
+		expect(replaced).toEqual({ changes: 1, lastInsertId: "6" });
+		expect(updated).toEqual({ changes: 1 });
+		expect(deleted).toEqual({ changes: 1 });
+	});
+
+	test("ignored inserts have no lastInsertId", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		await adapter.executeRaw({ sql: "INSERT INTO legacy (name) VALUES ('a')", ...noArgs });
+
+		const ignored = await adapter.executeRawWithResult({
+			sql: "INSERT OR IGNORE INTO legacy (name) VALUES ('a')",
+			...noArgs,
+		});
+		expect(ignored).toEqual({ changes: 0 });
+	});
+
+	test("rowids equal to the previous insert are reported", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		await adapter.executeRaw({ sql: "INSERT INTO legacy (name) VALUES ('a'), ('b')", ...noArgs });
+		await adapter.executeRaw({ sql: "DELETE FROM legacy WHERE id = 2", ...noArgs });
+
+		// Without AUTOINCREMENT the deleted max rowid is handed out again
+		const reused = await adapter.executeRawWithResult({ sql: "INSERT INTO legacy (name) VALUES ('c')", ...noArgs });
+		const returning = await adapter.queryRaw({
+			sql: "INSERT INTO keyed (code) VALUES ('x'), ('y') RETURNING code",
+			...noArgs,
+		});
+
+		expect(reused).toEqual({ changes: 1, lastInsertId: "2" });
+		expect(returning.lastInsertId).toBe("2");
+	});
+
+	test("upserts that update an existing row report the last inserted rowid", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		await adapter.executeRaw({ sql: "INSERT INTO legacy (name) VALUES ('a'), ('b')", ...noArgs });
+		const upsert = "INSERT INTO legacy (name) VALUES (?) ON CONFLICT (name) DO UPDATE SET name = excluded.name || '!'";
+
+		const updated = await adapter.executeRawWithResult({ sql: upsert, args: ["a"], argTypes: [stringArg] });
+		const returning = await adapter.queryRaw({ sql: `${upsert} RETURNING id`, args: ["a!"], argTypes: [stringArg] });
+		const inserted = await adapter.executeRawWithResult({ sql: upsert, args: ["c"], argTypes: [stringArg] });
+
+		// SQLite leaves last_insert_rowid() alone when the upsert updates: RETURNING has the updated id
+		expect(updated).toEqual({ changes: 1, lastInsertId: "2" });
+		expect(returning.rows).toEqual([["1"]]);
+		expect(returning.lastInsertId).toBe("2");
+		expect(inserted).toEqual({ changes: 1, lastInsertId: "3" });
+	});
+
+	test("WITH ... INSERT reports the rowid", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+
+		const result = await adapter.executeRawWithResult({
+			sql: "WITH names(name) AS (VALUES ('a'), ('b')) INSERT INTO legacy (name) SELECT name FROM names",
+			...noArgs,
+		});
+		const returning = await adapter.queryRaw({
+			sql: "WITH n(name) AS (SELECT 'c') REPLACE INTO legacy (name) SELECT name FROM n RETURNING name",
+			...noArgs,
+		});
+		const select = await adapter.queryRaw({ sql: "WITH n(x) AS (SELECT 'INSERT') SELECT x FROM n", ...noArgs });
+
+		expect(result).toEqual({ changes: 2, lastInsertId: "2" });
+		expect(returning.lastInsertId).toBe("3");
+		expect(select.lastInsertId).toBeUndefined();
+	});
+
+	test("queryRaw sets lastInsertId on INSERT ... RETURNING", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+
+		const result = await adapter.queryRaw({
+			sql: "INSERT INTO legacy (name) VALUES (?) RETURNING name",
+			args: ["a"],
+			argTypes: [stringArg],
+		});
+		expect(result.rows).toEqual([["a"]]);
+		expect(result.lastInsertId).toBe("1");
+
+		const ignored = await adapter.queryRaw({
+			sql: "INSERT OR IGNORE INTO legacy (name) VALUES ('a') RETURNING id",
+			...noArgs,
+		});
+		expect(ignored.rows).toEqual([]);
+		expect(ignored.lastInsertId).toBeUndefined();
+
+		const select = await adapter.queryRaw({ sql: "SELECT id FROM legacy", ...noArgs });
+		expect(select.lastInsertId).toBeUndefined();
+	});
+
+	test("tables without an INTEGER PRIMARY KEY report their implicit rowid", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		await adapter.executeRaw({ sql: "INSERT INTO keyed (code) VALUES ('x')", ...noArgs });
+
+		const result = await adapter.executeRawWithResult({ sql: "INSERT INTO keyed (code) VALUES ('y')", ...noArgs });
+		expect(result).toEqual({ changes: 1, lastInsertId: "2" });
+	});
+
+	test("64-bit rowids stay exact with and without safeIntegers", async () => {
+		for (const safeIntegers of [true, false]) {
+			({ adapter } = createAdapter(SCHEMA, {}, new Database(":memory:", { safeIntegers })));
+			const sql = "INSERT INTO legacy (id, name) VALUES (9223372036854775806, 'big')";
+
+			expect(await adapter.executeRawWithResult({ sql, ...noArgs })).toEqual({
+				changes: 1,
+				lastInsertId: "9223372036854775806",
+			});
+
+			const returning = await adapter.queryRaw({
+				sql: "INSERT INTO legacy (id, name) VALUES (9223372036854775807, 'max') RETURNING name",
+				...noArgs,
+			});
+			expect(returning.lastInsertId).toBe("9223372036854775807");
+			await adapter.dispose();
+		}
+		({ adapter } = createAdapter(SCHEMA));
+	});
+
+	test("works inside transactions", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		const tx = await adapter.startTransaction();
+
+		const result = await tx.executeRawWithResult({ sql: "INSERT INTO legacy (name) VALUES ('tx')", ...noArgs });
+		expect(result).toEqual({ changes: 1, lastInsertId: "1" });
+
+		await tx.executeRaw({ sql: "ROLLBACK", ...noArgs });
+		await tx.rollback();
+		const error = await tx.executeRawWithResult({ sql: "SELECT 1", ...noArgs }).catch((e) => e);
+		expect(error.cause.kind).toBe("TransactionAlreadyClosed");
+	});
+
+	test("is reported to onQuery", async () => {
+		const events: QueryEvent[] = [];
+		({ adapter } = createAdapter(SCHEMA, { onQuery: (event) => events.push(event) }));
+
+		await adapter.executeRaw({ sql: "INSERT INTO legacy (name) VALUES ('a')", ...noArgs });
+		await adapter.queryRaw({ sql: "INSERT INTO legacy (name) VALUES ('b') RETURNING id", ...noArgs });
+		await adapter.queryRaw({ sql: "SELECT 1", ...noArgs });
+
+		expect(events.map((event) => event.lastInsertId)).toEqual(["1", "2", undefined]);
+		expect(events[0]).toMatchObject({ method: "executeRaw", changes: 1 });
+	});
+});
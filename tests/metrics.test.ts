@@ -0,0 +1,136 @@
+/**
+ * Tests for the built-in metrics registry and Prometheus export
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { BunSqliteAdapter, PrismaBunSqlite, formatPrometheusMetrics } from "../src/index";
+import { noArgs } from "./helpers";
+
+describe("Metrics", () => {
+	let adapter: BunSqliteAdapter;
+
+	beforeEach(() => {
+		const db = new Database(":memory:", { safeIntegers: true });
+		db.run("CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT UNIQUE)");
+		adapter = new BunSqliteAdapter(db, { acquireTimeoutMs: 20 });
+	});
+
+	afterEach(async () => {
+		await adapter.dispose();
+	});
+
+	test("counts queries by statement kind and rows", async () => {
+		await adapter.executeRaw({ sql: "INSERT INTO items (id, name) VALUES (1, 'a'), (2, 'b')", ...noArgs });
+		await adapter.queryRaw({ sql: "SELECT * FROM items", ...noArgs });
+		await adapter.queryRaw({ sql: "  select id FROM items WHERE id = 1", ...noArgs });
+		await adapter.executeScript("CREATE TABLE other (id INTEGER)");
+		await adapter.queryRaw({ sql: "EXPLAIN SELECT 1", ...noArgs });
+
+		const metrics = adapter.getMetrics();
+		expect(Object.keys(metrics.queries).sort()).toEqual(["INSERT", "OTHER", "SCRIPT", "SELECT"]);
+		expect(metrics.queries.SELECT?.count).toBe(2);
+		expect(metrics.queries.INSERT?.count).toBe(1);
+		expect(metrics.rowsAffected).toBe(2);
+		expect(metrics.rowsReturned).toBeGreaterThanOrEqual(3);
+
+		const buckets = metrics.queries.SELECT!.buckets;
+		expect(buckets.at(-1)?.count).toBeLessThanOrEqual(2);
+		// Buckets are cumulative
+		for (let i = 1; i < buckets.length; i++) {
+			expect(buckets[i]!.count).toBeGreaterThanOrEqual(buckets[i - 1]!.count);
+		}
+	});
+
+	test("counts errors by kind", async () => {
+		await adapter.executeRaw({ sql: "INSERT INTO items (id, name) VALUES (1, 'a')", ...noArgs });
+		await adapter.executeRaw({ sql: "INSERT INTO items (id, name) VALUES (2, 'a')", ...noArgs }).catch(() => {});
+		await adapter.queryRaw({ sql: "SELECT * FROM missing", ...noArgs }).catch(() => {});
+
+		expect(adapter.getMetrics().errors).toEqual({ UniqueConstraintViolation: 1, TableDoesNotExist: 1 });
+	});
+
+	test("tracks transactions and lock contention", async () => {
+		const tx = await adapter.startTransaction();
+		const savepoint = await tx.savepoint();
+		await savepoint.rollback();
+
+		const waiting = adapter.startTransaction();
+		expect(adapter.getMetrics().lock).toMatchObject({ queueDepth: 1, held: true });
+
+		// Waiter times out
+		await waiting.catch(() => {});
+		expect(adapter.getMetrics().lock).toMatchObject({ queueDepth: 0, held: true, timeouts: 1 });
+
+		await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+		await tx.commit();
+
+		const rolledBack = await adapter.startTransaction();
+		await rolledBack.executeRaw({ sql: "ROLLBACK", ...noArgs });
+		await rolledBack.rollback();
+
+		const metrics = adapter.getMetrics();
+		expect(metrics.transactions).toMatchObject({ committed: 1, rolledBack: 1, expired: 0 });
+		expect(metrics.transactions.duration.count).toBe(2);
+		expect(metrics.lock).toMatchObject({ queueDepth: 0, held: false, timeouts: 1 });
+		expect(metrics.lock.wait.count).toBe(2);
+		expect(metrics.errors).toEqual({ TooManyConnections: 1 });
+	});
+
+	test("user hooks still receive events", async () => {
+		const events: string[] = [];
+		const hooked = new BunSqliteAdapter(new Database(":memory:"), {
+			onQuery: (event) => events.push(event.sql),
+		});
+
+		await hooked.queryRaw({ sql: "SELECT 1", ...noArgs });
+		expect(events).toEqual(["SELECT 1"]);
+		expect(hooked.getMetrics().queries.SELECT?.count).toBe(1);
+		await hooked.dispose();
+	});
+
+	test("exports the Prometheus text format", async () => {
+		await adapter.queryRaw({ sql: "SELECT 1", ...noArgs });
+		await adapter.queryRaw({ sql: "SELECT * FROM missing", ...noArgs }).catch(() => {});
+
+		const text = adapter.getPrometheusMetrics();
+		expect(text).toContain("# TYPE bun_sqlite_query_duration_seconds histogram");
+		expect(text).toContain('bun_sqlite_query_duration_seconds_bucket{kind="SELECT",le="+Inf"} 2');
+		expect(text).toContain('bun_sqlite_query_duration_seconds_count{kind="SELECT"} 2');
+		expect(text).toContain('bun_sqlite_errors_total{kind="TableDoesNotExist"} 1');
+		expect(text).toContain("bun_sqlite_lock_queue_depth 0");
+		expect(text).toContain('bun_sqlite_transactions_total{outcome="commit"} 0');
+		expect(text.endsWith("\n")).toBe(true);
+
+		expect(formatPrometheusMetrics(adapter.getMetrics(), "app_db")).toContain("app_db_lock_held 0");
+	});
+});
+
+describe("Metrics via PrismaBunSqlite", () => {
+	test("factory metrics survive reconnects", async () => {
+		const factory = new PrismaBunSqlite({ url: ":memory:" });
+		expect(factory.getMetrics().queries).toEqual({});
+
+		const first = await factory.connect();
+		await first.queryRaw({ sql: "SELECT 1", ...noArgs });
+		await first.dispose();
+
+		const second = await factory.connect();
+		await second.queryRaw({ sql: "SELECT 2", ...noArgs });
+
+		expect(factory.getMetrics().queries.SELECT?.count).toBe(2);
+		expect(factory.getPrometheusMetrics()).toContain('bun_sqlite_query_duration_seconds_count{kind="SELECT"} 2');
+		await second.dispose();
+	});
+
+	test("expired transactions are counted", async () => {
+		const factory = new PrismaBunSqlite({ url: ":memory:", maxTransactionDurationMs: 10 });
+		const adapter = await factory.connect();
+
+		await adapter.startTransaction();
+		await Bun.sleep(30);
+
+		expect(factory.getMetrics().transactions).toMatchObject({ rolledBack: 1, expired: 1 });
+		await adapter.dispose();
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for queryStream() and mapRowsInPlace
+ */
+
+import { describe, expect, test, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import type { BunSqliteAdapter, QueryEvent } from "../src/index";
+import { createAdapter, noArgs } from "./helpers";
+
+const intArg = { scalarType: "int" as const, arity: "scalar" as const };
+
+const ROWS = 1000;
+
+const SCHEMA = `
+	CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT, price REAL, data BLOB, created DATETIME);
+	WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ${ROWS})
+	INSERT INTO items SELECT i, 'item ' || i, i * 0.5, x'0102', '2025-01-01T00:00:00.000Z' FROM n;
+`;
+
+async function collect(stream: AsyncIterable<unknown[]>): Promise<unknown[][]> {
+	const rows: unknown[][] = [];
+	for await (const row of stream) rows.push(row);
+	return rows;
+}
+
+describe("queryStream", () => {
+	let adapter: BunSqliteAdapter;
+
+	afterEach(async () => {
+		await adapter.dispose();
+	});
+
+	test("yields the same rows as queryRaw", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		const query = {
+			sql: "SELECT id, name, price, data, created, price * 2 AS doubled, NULL AS missing FROM items WHERE id > ?",
+			args: [990],
+			argTypes: [intArg],
+		};
+
+		const streamed = await collect(adapter.queryStream(query));
+		const result = await adapter.queryRaw(query);
+
+		expect(streamed).toHaveLength(10);
+		expect(streamed).toEqual(result.rows);
+		expect(streamed[0]).toEqual(["991", "item 991", 495.5, [1, 2], "2025-01-01T00:00:00.000Z", 991, null]);
+	});
+
+	test("matches queryRaw without safeIntegers", async () => {
+		({ adapter } = createAdapter(SCHEMA, { safeIntegers: false }, new Database(":memory:")));
+		const query = { sql: "SELECT id, price, count(*) OVER () AS total FROM items LIMIT 3", ...noArgs };
+
+		expect(await collect(adapter.queryStream(query))).toEqual((await adapter.queryRaw(query)).rows);
+	});
+
+	test("finalizes the statement when the consumer stops early", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		const seen: unknown[][] = [];
+		for await (const row of adapter.queryStream({ sql: "SELECT id FROM items", ...noArgs })) {
+			seen.push(row);
+			if (seen.length === 3) break;
+		}
+		expect(seen).toEqual([["1"], ["2"], ["3"]]);
+
+		// No statement is left active: DDL on the table succeeds
+		await adapter.executeScript("DROP TABLE items");
+	});
+
+	test("yields nothing for an empty result", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		expect(await collect(adapter.queryStream({ sql: "SELECT * FROM items WHERE id < 0", ...noArgs }))).toEqual([]);
+	});
+
+	test("rejects duplicate column names", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		const stream = adapter.queryStream({ sql: "SELECT a.id, b.id FROM items a JOIN items b USING (id)", ...noArgs });
+
+		const error = await collect(stream).catch((e) => e);
+		expect(error.cause).toMatchObject({
+			kind: "GenericJs",
+			originalMessage: expect.stringContaining("several columns named id"),
+		});
+	});
+
+	test("converts SQLite errors", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		const error = await collect(adapter.queryStream({ sql: "SELECT * FROM missing", ...noArgs })).catch((e) => e);
+		expect(error.cause.kind).toBe("TableDoesNotExist");
+	});
+
+	test("emits onQuery with the number of rows once the stream ends", async () => {
+		const events: QueryEvent[] = [];
+		({ adapter } = createAdapter(SCHEMA, { onQuery: (event) => events.push(event) }));
+
+		const stream = adapter.queryStream({ sql: "SELECT id FROM items", ...noArgs });
+		await stream.next();
+		expect(events).toHaveLength(0);
+
+		await collect(stream);
+		expect(events).toHaveLength(1);
+		expect(events[0]).toMatchObject({ method: "queryStream", rowCount: ROWS, retries: 0 });
+		expect(adapter.getMetrics().rowsReturned).toBe(ROWS);
+	});
+
+	test("streams within a transaction", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		const tx = await adapter.startTransaction();
+		await tx.executeRaw({ sql: "DELETE FROM items WHERE id > 2", ...noArgs });
+
+		expect(await collect(tx.queryStream({ sql: "SELECT id FROM items", ...noArgs }))).toEqual([["1"], ["2"]]);
+
+		await tx.executeRaw({ sql: "ROLLBACK", ...noArgs });
+		await tx.rollback();
+
+		const error = await collect(tx.queryStream({ sql: "SELECT id FROM items", ...noArgs })).catch((e) => e);
+		expect(error.cause.kind).toBe("TransactionAlreadyClosed");
+	});
+});
+
+describe("mapRowsInPlace", () => {
+	let adapter: BunSqliteAdapter;
+
+	afterEach(async () => {
+		await adapter.dispose();
+	});
+
+	test("returns the same result set as copying", async () => {
+		const query = { sql: "SELECT id, name, price, data, created FROM items ORDER BY id LIMIT 5", ...noArgs };
+
+		({ adapter } = createAdapter(SCHEMA));
+		const copied = await adapter.queryRaw(query);
+		await adapter.dispose();
+
+		({ adapter } = createAdapter(SCHEMA, { mapRowsInPlace: true }));
+		expect(await adapter.queryRaw(query)).toEqual(copied);
+	});
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for read-only connections
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { existsSync, unlinkSync } from "node:fs";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { PrismaBunSqlite } from "../src/index";
+import { convertDriverError } from "../src/errors";
+
+describe("Read-only Mode", () => {
+	let tempDbPath: string;
+
+	beforeEach(() => {
+		tempDbPath = `/tmp/test-readonly-${Date.now()}-${Math.random().toString(36).substring(2, 9)}.db`;
+
+		const setup = new Database(tempDbPath);
+		setup.run("CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT NOT NULL)");
+		setup.run("INSERT INTO items (id, name) VALUES (1, 'existing')");
+		setup.close();
+	});
+
+	afterEach(() => {
+		try {
+			if (existsSync(tempDbPath)) unlinkSync(tempDbPath);
+			if (existsSync(tempDbPath + "-wal")) unlinkSync(tempDbPath + "-wal");
+			if (existsSync(tempDbPath + "-shm")) unlinkSync(tempDbPath + "-shm");
+		} catch {
+			// Ignore cleanup errors
+		}
+	});
+
+	test("readonly: true allows reads", async () => {
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, readonly: true }).connect();
+
+		const result = await adapter.queryRaw({ sql: "SELECT name FROM items", args: [], argTypes: [] });
+		expect(result.rows).toEqual([["existing"]]);
+
+		await adapter.dispose();
+	});
+
+	test("readonly: true maps write attempts to DatabaseAccessDenied", async () => {
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, readonly: true }).connect();
+
+		try {
+			await adapter.executeRaw({
+				sql: "INSERT INTO items (id, name) VALUES (2, 'new')",
+				args: [],
+				argTypes: [],
+			});
+			throw new Error("Expected write to fail");
+		} catch (error) {
+			expect(error).toBeInstanceOf(DriverAdapterError);
+			expect((error as DriverAdapterError).cause.kind).toBe("DatabaseAccessDenied");
+		}
+
+		await adapter.dispose();
+	});
+
+	test("mode=ro URL parameter behaves like readonly: true", async () => {
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}?mode=ro` }).connect();
+
+		const error = await adapter
+			.executeRaw({ sql: "DELETE FROM items", args: [], argTypes: [] })
+			.catch((e) => e);
+		expect((error as DriverAdapterError).cause.kind).toBe("DatabaseAccessDenied");
+
+		await adapter.dispose();
+	});
+
+	test("readonly: true also rejects writes to temp tables", async () => {
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, readonly: true }).connect();
+
+		await expect(adapter.executeScript("CREATE TEMP TABLE scratch (id INTEGER)")).rejects.toThrow();
+
+		await adapter.dispose();
+	});
+
+	test("transactions on a read-only connection can read but not write", async () => {
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, readonly: true }).connect();
+
+		const tx = await adapter.startTransaction();
+		const result = await tx.queryRaw({ sql: "SELECT COUNT(*) FROM items", args: [], argTypes: [] });
+		expect(result.rows).toEqual([["1"]]);
+
+		const error = await tx
+			.executeRaw({ sql: "UPDATE items SET name = 'changed'", args: [], argTypes: [] })
+			.catch((e) => e);
+		expect((error as DriverAdapterError).cause.kind).toBe("DatabaseAccessDenied");
+
+		await tx.executeRaw({ sql: "ROLLBACK", args: [], argTypes: [] });
+		await tx.rollback();
+		await adapter.dispose();
+
+		// The file was never modified
+		const check = new Database(tempDbPath, { readonly: true });
+		expect(check.query("SELECT name FROM items").all()).toEqual([{ name: "existing" }]);
+		check.close();
+	});
+
+	test("readonly with wal connects before the writer has enabled WAL", async () => {
+		const reader = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, readonly: true, wal: true }).connect();
+		const writer = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, wal: true }).connect();
+
+		await writer.executeRaw({ sql: "INSERT INTO items (id, name) VALUES (2, 'written')", args: [], argTypes: [] });
+
+		const result = await reader.queryRaw({ sql: "SELECT name FROM items ORDER BY id", args: [], argTypes: [] });
+		expect(result.rows).toEqual([["existing"], ["written"]]);
+		const mode = await reader.queryRaw({ sql: "PRAGMA journal_mode", args: [], argTypes: [] });
+		expect(mode.rows).toEqual([["wal"]]);
+
+		await reader.dispose();
+		await writer.dispose();
+	});
+
+	test("mode=ro with wal connects to a database in rollback journal mode", async () => {
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}?mode=ro`, wal: true }).connect();
+
+		const mode = await adapter.queryRaw({ sql: "PRAGMA journal_mode", args: [], argTypes: [] });
+		expect(mode.rows).toEqual([["delete"]]);
+
+		await adapter.dispose();
+	});
+
+	test("readonly does not apply to the shadow database", async () => {
+		const factory = new PrismaBunSqlite({ url: `file:${tempDbPath}`, readonly: true });
+		const shadow = await factory.connectToShadowDb();
+
+		await shadow.executeScript("CREATE TABLE migrated (id INTEGER PRIMARY KEY)");
+		const changes = await shadow.executeRaw({
+			sql: "INSERT INTO migrated (id) VALUES (1)",
+			args: [],
+			argTypes: [],
+		});
+		expect(changes).toBe(1);
+
+		await shadow.dispose();
+	});
+
+	test("readonly with an in-memory database throws at construction", () => {
+		expect(() => new PrismaBunSqlite({ url: ":memory:", readonly: true })).toThrow(/in-memory/);
+	});
+
+	test("convertDriverError maps SQLITE_READONLY codes", () => {
+		expect(
+			convertDriverError({ errno: 8, code: "SQLITE_READONLY", message: "attempt to write a readonly database" })
+				.kind,
+		).toBe("DatabaseAccessDenied");
+		// errno-only extended code (SQLITE_READONLY_DBMOVED)
+		expect(convertDriverError({ errno: 1032, message: "attempt to write a readonly database" }).kind).toBe(
+			"DatabaseAccessDenied",
+		);
+	});
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for automatic retry on SQLITE_BUSY / SQLITE_LOCKED
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { existsSync, unlinkSync } from "node:fs";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { PrismaBunSqlite, type RetryConfiguration } from "../src/index";
+import { convertDriverError } from "../src/errors";
+import { isRetryableError, resolveRetryPolicy, retryDelay } from "../src/retry";
+import { noArgs } from "./helpers";
+
+const fastRetry: RetryConfiguration = { maxAttempts: 10, baseDelayMs: 10, maxDelayMs: 20, jitter: false };
+
+describe("Retry policy", () => {
+	test("retries are disabled unless configured", () => {
+		expect(resolveRetryPolicy(undefined)).toBeUndefined();
+		expect(resolveRetryPolicy(false)).toBeUndefined();
+		expect(resolveRetryPolicy(true)).toEqual({ maxAttempts: 5, baseDelayMs: 50, maxDelayMs: 2000, jitter: true });
+		expect(resolveRetryPolicy({ maxAttempts: 2 })?.baseDelayMs).toBe(50);
+	});
+
+	test("delays grow exponentially up to maxDelayMs", () => {
+		const policy = resolveRetryPolicy({ baseDelayMs: 10, maxDelayMs: 35, jitter: false })!;
+		expect([1, 2, 3, 4].map((retry) => retryDelay(policy, retry))).toEqual([10, 20, 35, 35]);
+	});
+
+	test("jitter keeps delays between 50% and 100%", () => {
+		const policy = resolveRetryPolicy({ baseDelayMs: 100, jitter: true })!;
+		for (let i = 0; i < 20; i++) {
+			const delay = retryDelay(policy, 1);
+			expect(delay).toBeGreaterThanOrEqual(50);
+			expect(delay).toBeLessThanOrEqual(100);
+		}
+	});
+
+	test("only lock contention errors are retryable", () => {
+		expect(isRetryableError({ errno: 5, message: "database is locked" })).toBe(true);
+		expect(isRetryableError({ code: "SQLITE_BUSY_SNAPSHOT", errno: 517 })).toBe(true);
+		expect(isRetryableError({ errno: 6, message: "database table is locked" })).toBe(true);
+		expect(isRetryableError({ code: "SQLITE_CONSTRAINT_UNIQUE", errno: 2067 })).toBe(false);
+		expect(isRetryableError(new Error("boom"))).toBe(false);
+	});
+
+	test("rejects invalid settings", () => {
+		expect(() => new PrismaBunSqlite({ url: ":memory:", retry: { maxAttempts: 0 } })).toThrow(/maxAttempts/);
+		expect(() => new PrismaBunSqlite({ url: ":memory:", retry: { baseDelayMs: -1 } })).toThrow(/baseDelayMs/);
+	});
+
+	test("SQLITE_LOCKED maps to SocketTimeout", () => {
+		expect(convertDriverError({ errno: 6, message: "database table is locked" }).kind).toBe("SocketTimeout");
+	});
+});
+
+describe("Retry on lock contention", () => {
+	let tempDbPath: string;
+	let blocker: Database;
+
+	beforeEach(() => {
+		tempDbPath = `/tmp/test-retry-${Date.now()}-${Math.random().toString(36).substring(2, 9)}.db`;
+
+		blocker = new Database(tempDbPath);
+		blocker.run("PRAGMA journal_mode = WAL");
+		blocker.run("CREATE TABLE items (id INTEGER PRIMARY KEY)");
+	});
+
+	afterEach(() => {
+		blocker.close();
+		try {
+			if (existsSync(tempDbPath)) unlinkSync(tempDbPath);
+			if (existsSync(tempDbPath + "-wal")) unlinkSync(tempDbPath + "-wal");
+			if (existsSync(tempDbPath + "-shm")) unlinkSync(tempDbPath + "-shm");
+		} catch {
+			// Ignore cleanup errors
+		}
+	});
+
+	/**
+	 * Hold the write lock on another connection for `ms` milliseconds
+	 */
+	function holdWriteLock(ms: number) {
+		blocker.run("BEGIN IMMEDIATE");
+		setTimeout(() => blocker.run("COMMIT"), ms);
+	}
+
+	function connect(retry?: RetryConfiguration, transactionMode?: "immediate") {
+		// busy_timeout=0 so contention surfaces immediately instead of waiting inside SQLite
+		return new PrismaBunSqlite({ url: `file:${tempDbPath}?busy_timeout=0`, retry, transactionMode }).connect();
+	}
+
+	test("without retry, a write fails with SocketTimeout", async () => {
+		const adapter = await connect();
+		holdWriteLock(30);
+
+		const error = await adapter.executeRaw({ sql: "INSERT INTO items (id) VALUES (1)", ...noArgs }).catch((e) => e);
+		expect(error).toBeInstanceOf(DriverAdapterError);
+		expect((error as DriverAdapterError).cause.kind).toBe("SocketTimeout");
+
+		await Bun.sleep(40);
+		await adapter.dispose();
+	});
+
+	test("retries writes outside a transaction", async () => {
+		const adapter = await connect(fastRetry);
+		holdWriteLock(30);
+
+		expect(await adapter.executeRaw({ sql: "INSERT INTO items (id) VALUES (1)", ...noArgs })).toBe(1);
+		await adapter.dispose();
+	});
+
+	test("retries queries outside a transaction", async () => {
+		const adapter = await connect(fastRetry);
+		holdWriteLock(30);
+
+		const result = await adapter.queryRaw({ sql: "INSERT INTO items (id) VALUES (1) RETURNING id", ...noArgs });
+		expect(result.rows).toEqual([["1"]]);
+		await adapter.dispose();
+	});
+
+	test("gives up after maxAttempts", async () => {
+		const adapter = await connect({ ...fastRetry, maxAttempts: 2 });
+		holdWriteLock(200);
+
+		const error = await adapter.executeRaw({ sql: "INSERT INTO items (id) VALUES (1)", ...noArgs }).catch((e) => e);
+		expect((error as DriverAdapterError).cause.kind).toBe("SocketTimeout");
+
+		await Bun.sleep(200);
+		await adapter.dispose();
+	});
+
+	test("retries BEGIN", async () => {
+		const adapter = await connect(fastRetry, "immediate");
+		holdWriteLock(30);
+
+		const tx = await adapter.startTransaction();
+		await tx.executeRaw({ sql: "INSERT INTO items (id) VALUES (1)", ...noArgs });
+		await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+		await tx.commit();
+		await adapter.dispose();
+	});
+
+	test("retries the first statement of a transaction", async () => {
+		const adapter = await connect(fastRetry);
+		const tx = await adapter.startTransaction();
+		holdWriteLock(30);
+
+		expect(await tx.executeRaw({ sql: "INSERT INTO items (id) VALUES (1)", ...noArgs })).toBe(1);
+		await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+		await tx.commit();
+		await adapter.dispose();
+	});
+
+	test("does not retry later statements of a transaction", async () => {
+		const adapter = await connect(fastRetry);
+		const tx = await adapter.startTransaction();
+		await tx.queryRaw({ sql: "SELECT COUNT(*) FROM items", ...noArgs });
+		holdWriteLock(30);
+
+		const error = await tx.executeRaw({ sql: "INSERT INTO items (id) VALUES (1)", ...noArgs }).catch((e) => e);
+		expect((error as DriverAdapterError).cause.kind).toBe("SocketTimeout");
+
+		await tx.executeRaw({ sql: "ROLLBACK", ...noArgs });
+		await tx.rollback();
+		await Bun.sleep(40);
+		await adapter.dispose();
+	});
+});
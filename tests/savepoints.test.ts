@@ -0,0 +1,175 @@
+/**
+ * Tests for savepoint-based nested transactions
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { BunSqliteAdapter, type BunSqliteTransaction } from "../src/index";
+
+describe("Savepoints", () => {
+	let db: Database;
+	let adapter: BunSqliteAdapter;
+
+	beforeEach(() => {
+		db = new Database(":memory:", { safeIntegers: true });
+		db.run("CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT NOT NULL)");
+		adapter = new BunSqliteAdapter(db);
+	});
+
+	afterEach(async () => {
+		await adapter.dispose();
+	});
+
+	function startTransaction(): Promise<BunSqliteTransaction> {
+		return adapter.startTransaction();
+	}
+
+	function insert(tx: BunSqliteTransaction, id: number) {
+		return tx.executeRaw({
+			sql: "INSERT INTO items (id, name) VALUES (?, ?)",
+			args: [id, `item-${id}`],
+			argTypes: [
+				{ scalarType: "int", arity: "scalar" },
+				{ scalarType: "string", arity: "scalar" },
+			],
+		});
+	}
+
+	async function ids(): Promise<string[]> {
+		const result = await adapter.queryRaw({ sql: "SELECT id FROM items ORDER BY id", args: [], argTypes: [] });
+		return result.rows.map((row) => row[0] as string);
+	}
+
+	test("savepoint rollback undoes only its own changes", async () => {
+		const tx = await startTransaction();
+		await insert(tx, 1);
+
+		const sp = await tx.savepoint();
+		expect(sp.options.usePhantomQuery).toBe(true);
+		expect(sp.depth).toBe(1);
+		await insert(sp, 2);
+		await sp.rollback();
+
+		await insert(tx, 3);
+		await tx.executeRaw({ sql: "COMMIT", args: [], argTypes: [] });
+		await tx.commit();
+
+		expect(await ids()).toEqual(["1", "3"]);
+	});
+
+	test("savepoint commit keeps changes until the outer transaction decides", async () => {
+		const tx = await startTransaction();
+
+		const sp = await tx.savepoint("nested_write");
+		await insert(sp, 1);
+		await sp.commit();
+
+		await tx.executeRaw({ sql: "ROLLBACK", args: [], argTypes: [] });
+		await tx.rollback();
+
+		expect(await ids()).toEqual([]);
+	});
+
+	test("savepoints nest", async () => {
+		const tx = await startTransaction();
+		const outer = await tx.savepoint();
+		await insert(outer, 1);
+
+		const inner = await outer.savepoint();
+		expect(inner.depth).toBe(2);
+		await insert(inner, 2);
+		await inner.rollback();
+
+		await outer.commit();
+		await tx.executeRaw({ sql: "COMMIT", args: [], argTypes: [] });
+		await tx.commit();
+
+		expect(await ids()).toEqual(["1"]);
+	});
+
+	test("parent level is blocked while a savepoint is active", async () => {
+		const tx = await startTransaction();
+		const sp = await tx.savepoint("busy");
+
+		const error = await insert(tx, 1).catch((e) => e);
+		expect(error).toBeInstanceOf(DriverAdapterError);
+		expect((error as DriverAdapterError).cause.kind).toBe("GenericJs");
+		expect(String((error as any).cause.originalMessage)).toContain('"busy"');
+
+		await sp.commit();
+		expect(await insert(tx, 1)).toBe(1);
+
+		await tx.executeRaw({ sql: "COMMIT", args: [], argTypes: [] });
+		await tx.commit();
+	});
+
+	test("sibling savepoints are serialized", async () => {
+		const tx = await startTransaction();
+		const first = await tx.savepoint();
+
+		let secondStarted = false;
+		const secondPromise = tx.savepoint().then((sp) => {
+			secondStarted = true;
+			return sp;
+		});
+
+		await Promise.resolve();
+		expect(secondStarted).toBe(false);
+
+		await insert(first, 1);
+		await first.rollback();
+
+		const second = await secondPromise;
+		await insert(second, 2);
+		await second.commit();
+
+		await tx.executeRaw({ sql: "COMMIT", args: [], argTypes: [] });
+		await tx.commit();
+
+		expect(await ids()).toEqual(["2"]);
+	});
+
+	test("closed savepoints reject further use", async () => {
+		const tx = await startTransaction();
+		const sp = await tx.savepoint();
+		await sp.commit();
+
+		const error = await insert(sp, 1).catch((e) => e);
+		expect((error as DriverAdapterError).cause.kind).toBe("TransactionAlreadyClosed");
+		await expect(sp.commit()).rejects.toThrow();
+		await expect(sp.rollback()).rejects.toThrow();
+
+		await tx.executeRaw({ sql: "ROLLBACK", args: [], argTypes: [] });
+		await tx.rollback();
+	});
+
+	test("closing the outer transaction closes active savepoints", async () => {
+		const tx = await startTransaction();
+		const sp = await tx.savepoint();
+		const nested = await sp.savepoint();
+
+		await tx.rollback();
+		db.run("ROLLBACK");
+
+		for (const level of [sp, nested]) {
+			const error = await insert(level, 1).catch((e) => e);
+			expect((error as DriverAdapterError).cause.kind).toBe("TransactionAlreadyClosed");
+		}
+		await expect(tx.savepoint()).rejects.toThrow();
+
+		// The adapter lock was released
+		const next = await startTransaction();
+		await next.executeRaw({ sql: "COMMIT", args: [], argTypes: [] });
+		await next.commit();
+	});
+
+	test("rejects invalid savepoint names", async () => {
+		const tx = await startTransaction();
+
+		await expect(tx.savepoint('x"; DROP TABLE items; --')).rejects.toThrow(DriverAdapterError);
+
+		await tx.executeRaw({ sql: "ROLLBACK", args: [], argTypes: [] });
+		await tx.rollback();
+	});
+});
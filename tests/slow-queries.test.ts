@@ -0,0 +1,258 @@
+/**
+ * Tests for slow query detection with EXPLAIN QUERY PLAN
+ */
+
+import { describe, expect, test, afterEach, spyOn } from "bun:test";
+import { Database } from "bun:sqlite";
+import { BunSqliteAdapter, PrismaBunSqlite, type PrismaBunSqliteOptions, type SlowQueryReport } from "../src/index";
+import { formatSlowQueryReport } from "../src/explain";
+import { createAdapter } from "./helpers";
+
+const SCHEMA = `
+	CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, name TEXT, avatar BLOB);
+	CREATE INDEX users_email ON users (email);
+	CREATE TABLE posts (id INTEGER PRIMARY KEY, userId INTEGER, title TEXT);
+`;
+
+describe("Slow Query Detection", () => {
+	let adapter: BunSqliteAdapter;
+	let reports: SlowQueryReport[];
+
+	const collect = (options: PrismaBunSqliteOptions = {}) => {
+		reports = [];
+		({ adapter } = createAdapter(SCHEMA, {
+			slowQueryThresholdMs: 0,
+			onSlowQuery: (report) => reports.push(report),
+			...options,
+		}));
+	};
+
+	afterEach(async () => {
+		await adapter.dispose();
+	});
+
+	test("reports a full table scan", async () => {
+		collect();
+		await adapter.queryRaw({
+			sql: "SELECT * FROM users WHERE name = ?",
+			args: ["alice"],
+			argTypes: [{ scalarType: "string", arity: "scalar" }],
+		});
+
+		expect(reports).toHaveLength(1);
+		const [report] = reports;
+		expect(report).toMatchObject({
+			method: "queryRaw",
+			sql: "SELECT * FROM users WHERE name = ?",
+			args: ["<string>"],
+			inTransaction: false,
+			fullScan: true,
+			scannedTables: ["users"],
+		});
+		expect(report!.durationMs).toBeGreaterThanOrEqual(0);
+		expect(report!.plan).toEqual([
+			{ id: expect.any(Number), detail: expect.stringMatching(/^SCAN (TABLE )?users$/), children: [] },
+		]);
+		expect(report!.planError).toBeUndefined();
+	});
+
+	test("index lookups are not full scans", async () => {
+		collect();
+		await adapter.queryRaw({
+			sql: "SELECT * FROM users WHERE email = ?",
+			args: ["a@example.com"],
+			argTypes: [{ scalarType: "string", arity: "scalar" }],
+		});
+		await adapter.queryRaw({ sql: "SELECT email FROM users ORDER BY email", args: [], argTypes: [] });
+		await adapter.queryRaw({ sql: "SELECT 1", args: [], argTypes: [] });
+
+		expect(reports.map((report) => report.fullScan)).toEqual([false, false, false]);
+		expect(reports[0]!.plan[0]!.detail).toContain("USING INDEX users_email");
+	});
+
+	test("builds a nested plan tree and ignores subquery scans", async () => {
+		collect();
+		await adapter.queryRaw({
+			sql: "SELECT * FROM (SELECT * FROM users LIMIT 3) AS s, posts WHERE posts.title = ?",
+			args: ["x"],
+			argTypes: [{ scalarType: "string", arity: "scalar" }],
+		});
+
+		const [report] = reports;
+		expect(report!.scannedTables.sort()).toEqual(["posts", "users"]);
+		const coroutine = report!.plan.find((node) => /^(CO-ROUTINE|MATERIALIZE)/.test(node.detail));
+		expect(coroutine?.children.map((node) => node.detail)).toEqual([
+			expect.stringMatching(/SCAN (TABLE )?users/),
+		]);
+	});
+
+	test("explains writes without running them again", async () => {
+		collect();
+		await adapter.executeRaw({
+			sql: "INSERT INTO users (name) VALUES (?)",
+			args: ["bob"],
+			argTypes: [{ scalarType: "string", arity: "scalar" }],
+		});
+		await adapter.executeRaw({
+			sql: "UPDATE users SET name = ? WHERE name = ?",
+			args: ["robert", "bob"],
+			argTypes: [
+				{ scalarType: "string", arity: "scalar" },
+				{ scalarType: "string", arity: "scalar" },
+			],
+		});
+
+		const names = await adapter.queryRaw({ sql: "SELECT name FROM users", args: [], argTypes: [] });
+		expect(names.rows).toEqual([["robert"]]);
+		expect(reports.map((report) => [report.method, report.fullScan])).toEqual([
+			["executeRaw", false],
+			["executeRaw", true],
+			["queryRaw", true],
+		]);
+	});
+
+	test("explains inside transactions", async () => {
+		collect();
+		const tx = await adapter.startTransaction();
+		await tx.queryRaw({ sql: "SELECT * FROM posts", args: [], argTypes: [] });
+		await tx.commit();
+
+		expect(reports).toHaveLength(1);
+		expect(reports[0]).toMatchObject({ inTransaction: true, scannedTables: ["posts"] });
+	});
+
+	test("redacts arguments by default", async () => {
+		collect();
+		await adapter.queryRaw({
+			sql: "SELECT * FROM users WHERE name = ? OR id = ? OR id = ? OR avatar = ? OR email = ?",
+			args: ["secret", 1, "2", new Uint8Array([1]), null],
+			argTypes: [
+				{ scalarType: "string", arity: "scalar" },
+				{ scalarType: "int", arity: "scalar" },
+				{ scalarType: "bigint", arity: "scalar" },
+				{ scalarType: "bytes", arity: "scalar" },
+				{ scalarType: "string", arity: "scalar" },
+			],
+		});
+
+		expect(reports[0]!.args).toEqual(["<string>", "<number>", "<bigint>", "<blob>", null]);
+	});
+
+	test("slowQueryArgs include and custom policies", async () => {
+		const query = {
+			sql: "SELECT * FROM users WHERE name = ?",
+			args: ["alice"],
+			argTypes: [{ scalarType: "string" as const, arity: "scalar" as const }],
+		};
+
+		collect({ slowQueryArgs: "include" });
+		await adapter.queryRaw(query);
+		expect(reports[0]!.args).toEqual(["alice"]);
+		await adapter.dispose();
+
+		collect({ slowQueryArgs: (args) => args.map((arg) => String(arg).length) });
+		await adapter.queryRaw(query);
+		expect(reports[0]!.args).toEqual([5]);
+	});
+
+	test("statements below the threshold are not reported", async () => {
+		collect({ slowQueryThresholdMs: 60_000 });
+		await adapter.queryRaw({ sql: "SELECT * FROM users", args: [], argTypes: [] });
+		expect(reports).toEqual([]);
+	});
+
+	test("scripts are not explained", async () => {
+		collect();
+		await adapter.executeScript("INSERT INTO users (name) VALUES ('a'); SELECT * FROM users;");
+		expect(reports).toEqual([]);
+	});
+
+	test("reports planError when the statement cannot be explained", async () => {
+		collect();
+		const db = (adapter as any).db as Database;
+		const prepare = db.prepare.bind(db);
+		const spy = spyOn(db, "prepare").mockImplementation(((sql: string) => {
+			if (sql.startsWith("EXPLAIN")) throw new Error("boom");
+			return prepare(sql);
+		}) as typeof db.prepare);
+		await adapter.queryRaw({ sql: "SELECT * FROM posts", args: [], argTypes: [] });
+		spy.mockRestore();
+
+		expect(reports.at(-1)).toMatchObject({ plan: [], fullScan: false, planError: "boom" });
+	});
+
+	test("hook errors do not fail the query", async () => {
+		({ adapter } = createAdapter(SCHEMA, {
+			slowQueryThresholdMs: 0,
+			onSlowQuery: () => {
+				throw new Error("hook failed");
+			},
+		}));
+
+		const result = await adapter.queryRaw({ sql: "SELECT 'ok' AS status", args: [], argTypes: [] });
+		expect(result.rows).toEqual([["ok"]]);
+	});
+
+	test("slowQueryArgs errors do not fail statements that already ran", async () => {
+		collect({
+			slowQueryArgs: () => {
+				throw new Error("redaction failed");
+			},
+		});
+		const insert = {
+			sql: "INSERT INTO posts (id, title) VALUES (?, 'first')",
+			args: [1],
+			argTypes: [{ scalarType: "int" as const, arity: "scalar" as const }],
+		};
+
+		expect(await adapter.executeRaw(insert)).toBe(1);
+		expect(await adapter.executeRaw({ ...insert, args: [2] })).toBe(1);
+		const result = await adapter.queryRaw({ sql: "SELECT COUNT(*) FROM posts", args: [], argTypes: [] });
+
+		expect(result.rows).toEqual([["2"]]);
+		expect(reports).toEqual([]);
+	});
+
+	test("does not write to the console when no hook is set", async () => {
+		({ adapter } = createAdapter(SCHEMA, { slowQueryThresholdMs: 0 }));
+		const warn = spyOn(console, "warn");
+		try {
+			await adapter.queryRaw({ sql: "SELECT * FROM posts", args: [], argTypes: [] });
+			expect(warn).not.toHaveBeenCalled();
+		} finally {
+			warn.mockRestore();
+		}
+	});
+
+	test("formats reports for the debug log", async () => {
+		collect();
+		await adapter.queryRaw({ sql: "SELECT * FROM posts", args: [], argTypes: [] });
+
+		expect(formatSlowQueryReport(reports[0]!)).toMatch(
+			/^\[prisma-adapter-bun-sqlite\] Slow queryRaw \(\d+\.\dms\): SELECT \* FROM posts\n  SCAN (TABLE )?posts$/,
+		);
+	});
+});
+
+describe("Slow Query Configuration", () => {
+	test("rejects invalid slowQueryThresholdMs", () => {
+		expect(() => new PrismaBunSqlite({ url: ":memory:", slowQueryThresholdMs: -1 })).toThrow(
+			"Invalid slowQueryThresholdMs: -1. Must be a non-negative integer.",
+		);
+	});
+
+	test("works through the factory", async () => {
+		const reports: SlowQueryReport[] = [];
+		const factory = new PrismaBunSqlite({
+			url: ":memory:",
+			slowQueryThresholdMs: 0,
+			onSlowQuery: (report) => reports.push(report),
+		});
+		const adapter = await factory.connect();
+		await adapter.executeScript("CREATE TABLE t (id INTEGER PRIMARY KEY, v TEXT)");
+		await adapter.queryRaw({ sql: "SELECT * FROM t WHERE v = 'x'", args: [], argTypes: [] });
+
+		expect(reports.map((report) => report.scannedTables)).toEqual([["t"]]);
+		await adapter.dispose();
+	});
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for the prepared statement LRU cache
+ */
+
+import { describe, expect, test, afterEach, spyOn } from "bun:test";
+import { Database, type Statement } from "bun:sqlite";
+import { PrismaBunSqlite, type BunSqliteAdapter } from "../src/index";
+import { createAdapter, noArgs } from "./helpers";
+
+const SCHEMA = `
+	CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT);
+	INSERT INTO items (id, name) VALUES (1, 'a'), (2, 'b'), (3, 'c');
+`;
+
+/** Collects statements prepared on `db` */
+function trackStatements(db: Database) {
+	const prepared = new Map<string, Statement>();
+	const prepare = db.prepare.bind(db);
+	spyOn(db, "prepare").mockImplementation(((sql: string) => {
+		const stmt = prepare(sql);
+		prepared.set(sql, stmt);
+		return stmt;
+	}) as typeof db.prepare);
+	return prepared;
+}
+
+const isFinalized = (stmt: Statement | undefined) => (stmt as unknown as { isFinalized: boolean }).isFinalized;
+
+const select = (sql: string) => ({ sql, ...noArgs });
+
+describe("Statement cache", () => {
+	let adapter: BunSqliteAdapter;
+
+	afterEach(async () => {
+		await adapter.dispose();
+	});
+
+	test("counts hits and misses", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+
+		await adapter.queryRaw(select("SELECT id FROM items"));
+		await adapter.queryRaw(select("SELECT id FROM items"));
+		await adapter.executeRaw(select("UPDATE items SET name = 'x' WHERE id = 1"));
+
+		expect(adapter.getStatementCacheStats()).toEqual({ size: 2, maxSize: 100, hits: 1, misses: 2, evictions: 0 });
+	});
+
+	test("evicts and finalizes the least recently used statement", async () => {
+		let db: Database;
+		({ db, adapter } = createAdapter(SCHEMA, { statementCacheSize: 2 }));
+		const prepared = trackStatements(db);
+
+		await adapter.queryRaw(select("SELECT 1"));
+		await adapter.queryRaw(select("SELECT 2"));
+		await adapter.queryRaw(select("SELECT 1"));
+		await adapter.queryRaw(select("SELECT 3"));
+
+		expect(isFinalized(prepared.get("SELECT 2"))).toBe(true);
+		expect(isFinalized(prepared.get("SELECT 1"))).toBe(false);
+		expect(adapter.getStatementCacheStats()).toEqual({ size: 2, maxSize: 2, hits: 1, misses: 3, evictions: 1 });
+
+		// Evicted statements are prepared again
+		const result = await adapter.queryRaw(select("SELECT 2"));
+		expect(result.rows).toEqual([["2"]]);
+		expect(adapter.getStatementCacheStats()).toMatchObject({ misses: 4, evictions: 2 });
+	});
+
+	test("stays bounded with variable-length IN lists", async () => {
+		({ adapter } = createAdapter(SCHEMA, { statementCacheSize: 10 }));
+
+		for (let n = 1; n <= 50; n++) {
+			const placeholders = Array.from({ length: n }, () => "?").join(", ");
+			await adapter.queryRaw({
+				sql: `SELECT id FROM items WHERE id IN (${placeholders})`,
+				args: Array.from({ length: n }, (_, i) => i),
+				argTypes: Array.from({ length: n }, () => ({ scalarType: "int" as const, arity: "scalar" as const })),
+			});
+		}
+
+		expect(adapter.getStatementCacheStats()).toEqual({ size: 10, maxSize: 10, hits: 0, misses: 50, evictions: 40 });
+	});
+
+	test("statementCacheSize 0 finalizes every statement after use", async () => {
+		let db: Database;
+		({ db, adapter } = createAdapter(SCHEMA, { statementCacheSize: 0 }));
+		const prepared = trackStatements(db);
+
+		await adapter.queryRaw(select("SELECT id FROM items"));
+		await adapter.queryRaw(select("SELECT id FROM items"));
+
+		expect(isFinalized(prepared.get("SELECT id FROM items"))).toBe(true);
+		expect(adapter.getStatementCacheStats()).toEqual({ size: 0, maxSize: 0, hits: 0, misses: 2, evictions: 0 });
+	});
+
+	test("failed statements stay cached and reusable", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+		const insert = {
+			sql: "INSERT INTO items (id, name) VALUES (?, 'x')",
+			args: [1],
+			argTypes: [{ scalarType: "int" as const, arity: "scalar" as const }],
+		};
+
+		await expect(adapter.executeRaw(insert)).rejects.toThrow();
+		expect(await adapter.executeRaw({ ...insert, args: [4] })).toBe(1);
+		expect(adapter.getStatementCacheStats()).toMatchObject({ size: 1, hits: 1, misses: 1 });
+	});
+
+	test("transactions and savepoints share the adapter's cache", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+
+		await adapter.queryRaw(select("SELECT id FROM items"));
+		const tx = await adapter.startTransaction();
+		await tx.queryRaw(select("SELECT id FROM items"));
+		const savepoint = await tx.savepoint();
+		await savepoint.queryRaw(select("SELECT id FROM items"));
+		await savepoint.commit();
+		await tx.executeRaw(select("COMMIT"));
+		await tx.commit();
+
+		expect(adapter.getStatementCacheStats()).toMatchObject({ hits: 2, misses: 2 });
+	});
+
+	test("clearStatementCache finalizes statements and keeps the counters", async () => {
+		let db: Database;
+		({ db, adapter } = createAdapter(SCHEMA));
+		const prepared = trackStatements(db);
+
+		await adapter.queryRaw(select("SELECT id FROM items"));
+		adapter.clearStatementCache();
+
+		expect(isFinalized(prepared.get("SELECT id FROM items"))).toBe(true);
+		expect(adapter.getStatementCacheStats()).toEqual({ size: 0, maxSize: 100, hits: 0, misses: 1, evictions: 0 });
+
+		await adapter.queryRaw(select("SELECT id FROM items"));
+		expect(adapter.getStatementCacheStats()).toMatchObject({ size: 1, misses: 2 });
+	});
+
+	test("executeScript clears the cache", async () => {
+		({ adapter } = createAdapter(SCHEMA));
+
+		await adapter.queryRaw(select("SELECT * FROM items"));
+		await adapter.executeScript("ALTER TABLE items ADD COLUMN extra TEXT DEFAULT 'e'");
+		expect(adapter.getStatementCacheStats().size).toBe(0);
+
+		const result = await adapter.queryRaw(select("SELECT * FROM items WHERE id = 1"));
+		expect(result.columnNames).toEqual(["id", "name", "extra"]);
+
+		// Also after a failing script, which may have applied part of its DDL
+		await adapter.queryRaw(select("SELECT * FROM items"));
+		const failing = "CREATE TABLE other (id INTEGER); CREATE TABLE other (id INTEGER);";
+		await expect(adapter.executeScript(failing)).rejects.toThrow();
+		expect(adapter.getStatementCacheStats().size).toBe(0);
+	});
+});
+
+describe("Statement cache lifecycle", () => {
+	test("dispose finalizes statements on a borrowed handle", async () => {
+		const db = new Database(":memory:", { safeIntegers: true });
+		const prepared = trackStatements(db);
+		const adapter = await PrismaBunSqlite.fromDatabase(db, { closeOnDispose: false }).connect();
+
+		await adapter.queryRaw(select("SELECT 1"));
+		await adapter.dispose();
+
+		expect(isFinalized(prepared.get("SELECT 1"))).toBe(true);
+		expect(db.query("SELECT 1 AS one").get()).toEqual({ one: 1n });
+		db.close();
+	});
+
+	test("factory exposes the main connection's cache", async () => {
+		const factory = new PrismaBunSqlite({ url: ":memory:", statementCacheSize: 5 });
+		expect(factory.getStatementCacheStats()).toEqual({ size: 0, maxSize: 5, hits: 0, misses: 0, evictions: 0 });
+		factory.clearStatementCache();
+
+		const adapter = await factory.connect();
+		await adapter.queryRaw(select("SELECT 1"));
+		expect(factory.getStatementCacheStats()).toMatchObject({ size: 1, maxSize: 5, misses: 1 });
+
+		factory.clearStatementCache();
+		expect(factory.getStatementCacheStats().size).toBe(0);
+		await adapter.dispose();
+	});
+
+	test("rejects invalid statementCacheSize", () => {
+		expect(() => new PrismaBunSqlite({ url: ":memory:", statementCacheSize: -1 })).toThrow(
+			"Invalid statementCacheSize: -1. Must be a non-negative integer.",
+		);
+	});
+});
@@ -0,0 +1,224 @@
+/**
+ * Tests for the unixepoch-s, julianday and sqlite-text timestamp formats and tolerantTimestamps
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { Database } from "bun:sqlite";
+import { PrismaClient } from "@/prisma-generated/client";
+import { PrismaBunSqlite } from "../src/index";
+import { readTimestamp, writeTimestamp } from "../src/conversion";
+import { connect, conversion, noArgs } from "./helpers";
+
+const datetimeArg = { scalarType: "datetime" as const, arity: "scalar" as const };
+
+const DATE = new Date("2025-01-01T12:34:56.789Z");
+const WHOLE_SECONDS = new Date("2025-01-01T12:34:56.000Z");
+
+const SCHEMA = "CREATE TABLE events (id INTEGER PRIMARY KEY, at DATETIME)";
+
+describe("writeTimestamp", () => {
+	test("formats dates like SQLite's date functions", () => {
+		expect(writeTimestamp(DATE, "unixepoch-s")).toBe(1735734896.789);
+		expect(writeTimestamp(WHOLE_SECONDS, "unixepoch-s")).toBe(1735734896);
+		expect(writeTimestamp(DATE, "julianday")).toBeCloseTo(2460677.024268391, 9);
+		expect(writeTimestamp(DATE, "sqlite-text")).toBe("2025-01-01 12:34:56.789");
+		expect(writeTimestamp(WHOLE_SECONDS, "sqlite-text")).toBe("2025-01-01 12:34:56");
+		expect(writeTimestamp(DATE, "iso8601")).toBe("2025-01-01T12:34:56.789+00:00");
+	});
+});
+
+describe("readTimestamp", () => {
+	test("reads numbers in the configured format", () => {
+		const iso = DATE.toISOString();
+		expect(readTimestamp(1735734896.789, conversion({ timestampFormat: "unixepoch-s" }))).toBe(iso);
+		expect(readTimestamp(1735734896n, conversion({ timestampFormat: "unixepoch-s" }))).toBe(
+			WHOLE_SECONDS.toISOString(),
+		);
+		expect(readTimestamp(writeTimestamp(DATE, "julianday"), conversion({ timestampFormat: "julianday" }))).toBe(iso);
+		expect(readTimestamp(DATE.getTime(), conversion({ timestampFormat: "sqlite-text" }))).toBe(iso);
+	});
+
+	test("reads SQLite text as UTC", () => {
+		const options = conversion({ timestampFormat: "sqlite-text" });
+		expect(readTimestamp("2025-01-01 12:34:56", options)).toBe("2025-01-01T12:34:56.000Z");
+		expect(readTimestamp("2025-01-01 12:34:56.789123", options)).toBe(DATE.toISOString());
+		expect(readTimestamp("2025-01-01 12:34", options)).toBe("2025-01-01T12:34:00.000Z");
+		expect(readTimestamp("2025-01-01", options)).toBe("2025-01-01T00:00:00.000Z");
+		expect(readTimestamp("2025-01-01 14:34:56+02:00", options)).toBe("2025-01-01T12:34:56.000Z");
+		expect(readTimestamp("yesterday", options)).toBe("yesterday");
+		expect(readTimestamp("2025-13-45 00:00:00", options)).toBe("2025-13-45 00:00:00");
+	});
+
+	test("leaves text unchanged in the other formats", () => {
+		expect(readTimestamp("2025-01-01 12:34:56", conversion())).toBe("2025-01-01 12:34:56");
+	});
+
+	test("tolerantTimestamps reads each value by its form", () => {
+		const options = conversion({ tolerantTimestamps: true });
+		const iso = DATE.toISOString();
+		expect(readTimestamp(DATE.getTime(), options)).toBe(iso);
+		expect(readTimestamp(1735734896.789, options)).toBe(iso);
+		expect(readTimestamp(writeTimestamp(DATE, "julianday"), options)).toBe(iso);
+		expect(readTimestamp("2025-01-01 12:34:56.789", options)).toBe(iso);
+		expect(readTimestamp("2025-01-01T12:34:56.789+00:00", options)).toBe(iso);
+	});
+
+	test("tolerantTimestamps trusts a numeric timestampFormat", () => {
+		// The largest Unix seconds value read by SQLite's auto modifier, and the next one
+		const limit = 253402300799;
+		const ms = conversion({ tolerantTimestamps: true, timestampFormat: "unixepoch-ms" });
+		const guessed = conversion({ tolerantTimestamps: true });
+
+		expect(readTimestamp(limit, ms)).toBe("1978-01-11T21:31:40.799Z");
+		expect(readTimestamp(limit + 1, ms)).toBe("1978-01-11T21:31:40.800Z");
+		expect(readTimestamp(0, ms)).toBe("1970-01-01T00:00:00.000Z");
+		expect(readTimestamp(limit, guessed)).toBe("9999-12-31T23:59:59.000Z");
+		expect(readTimestamp(limit + 1, guessed)).toBe("1978-01-11T21:31:40.800Z");
+		expect(readTimestamp(1735734896, conversion({ tolerantTimestamps: true, timestampFormat: "unixepoch-s" }))).toBe(
+			WHOLE_SECONDS.toISOString(),
+		);
+		expect(readTimestamp(2460677, conversion({ tolerantTimestamps: true, timestampFormat: "julianday" }))).toBe(
+			"2025-01-01T12:00:00.000Z",
+		);
+		expect(readTimestamp("2025-01-01 12:34:56.789", ms)).toBe(DATE.toISOString());
+	});
+});
+
+describe("timestampFormat", () => {
+	const formats = [
+		{ timestampFormat: "unixepoch-s", allowUnsafeDateTimeAggregates: true, stored: 1735734896.789, type: "real" },
+		{ timestampFormat: "julianday", allowUnsafeDateTimeAggregates: true, stored: 2460677.024268, type: "real" },
+		{ timestampFormat: "sqlite-text", stored: "2025-01-01 12:34:56.789", type: "text" },
+	] as const;
+
+	for (const { stored, type, ...options } of formats) {
+		test(`${options.timestampFormat} round-trips through SQLite`, async () => {
+			const adapter = await connect(SCHEMA, options);
+
+			await adapter.executeRaw({
+				sql: "INSERT INTO events (id, at) VALUES (1, ?)",
+				args: [DATE],
+				argTypes: [datetimeArg],
+			});
+			const raw = await adapter.queryRaw({
+				sql: "SELECT typeof(at), round(at, 6), datetime(at, 'auto', 'subsec') FROM events",
+				...noArgs,
+			});
+			const result = await adapter.queryRaw({
+				sql: "SELECT at FROM events WHERE at = ?",
+				args: [DATE.toISOString()],
+				argTypes: [datetimeArg],
+			});
+
+			expect(raw.rows[0]![0]).toBe(type);
+			if (type === "real") expect(raw.rows[0]![1]).toBe(stored);
+			// SQLite's date functions understand the stored value (julianday() REALs keep ~0.1 ms)
+			expect(String(raw.rows[0]![2])).toStartWith("2025-01-01 12:34:56.78");
+			expect(result.rows).toEqual([[DATE.toISOString()]]);
+
+			await adapter.dispose();
+		});
+	}
+
+	test("sqlite-text matches CURRENT_TIMESTAMP values", async () => {
+		const adapter = await connect(SCHEMA, { timestampFormat: "sqlite-text" });
+
+		await adapter.executeRaw({ sql: "INSERT INTO events (id, at) VALUES (1, CURRENT_TIMESTAMP)", ...noArgs });
+		const [[stored]] = (await adapter.queryRaw({ sql: "SELECT at FROM events", ...noArgs })).rows as [[string]];
+		const result = await adapter.queryRaw({
+			sql: "SELECT id FROM events WHERE at = ?",
+			args: [new Date(stored)],
+			argTypes: [datetimeArg],
+		});
+
+		expect(stored).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.000Z$/);
+		expect(result.rows).toEqual([["1"]]);
+
+		await adapter.dispose();
+	});
+
+	test("tolerantTimestamps reads a column holding every format", async () => {
+		const adapter = await connect(SCHEMA, { tolerantTimestamps: true });
+
+		await adapter.executeScript(`
+			INSERT INTO events (id, at) VALUES
+				(1, '2025-01-01T12:34:56.789+00:00'),
+				(2, '2025-01-01 12:34:56.789'),
+				(3, 1735734896789),
+				(4, 1735734896.789),
+				(5, julianday('2025-01-01 12:34:56.789'))
+		`);
+		const result = await adapter.queryRaw({ sql: "SELECT at FROM events ORDER BY id", ...noArgs });
+
+		expect(result.rows).toEqual(Array(5).fill([DATE.toISOString()]));
+
+		await adapter.dispose();
+	});
+
+	test("validates the format and the aggregate acknowledgment", () => {
+		expect(() => new PrismaBunSqlite({ url: ":memory:", timestampFormat: "unixepoch" as any })).toThrow(
+			'Invalid timestampFormat: "unixepoch"',
+		);
+		for (const timestampFormat of ["unixepoch-s", "julianday"] as const) {
+			expect(() => new PrismaBunSqlite({ url: ":memory:", timestampFormat })).toThrow(
+				"requires allowUnsafeDateTimeAggregates: true",
+			);
+			expect(() => new PrismaBunSqlite({ url: ":memory:", timestampFormat, safeIntegers: false })).toThrow(
+				"requires allowUnsafeDateTimeAggregates: true",
+			);
+			expect(
+				() =>
+					new PrismaBunSqlite({
+						url: ":memory:",
+						timestampFormat,
+						allowUnsafeDateTimeAggregates: true,
+						allowBigIntToNumberConversion: true,
+					}),
+			).toThrow("allowBigIntToNumberConversion is only applicable");
+		}
+		expect(() => new PrismaBunSqlite({ url: ":memory:", timestampFormat: "sqlite-text" })).not.toThrow();
+	});
+});
+
+describe("timestampFormat with Prisma Client", () => {
+	/**
+	 * Legacy Product table whose createdAt values were written by CURRENT_TIMESTAMP
+	 */
+	function createLegacyTable(db: Database) {
+		db.run(`
+			CREATE TABLE "Product" (
+				"id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+				"name" TEXT NOT NULL,
+				"price" DECIMAL NOT NULL,
+				"discount" DECIMAL,
+				"description" TEXT,
+				"inStock" BOOLEAN NOT NULL DEFAULT true,
+				"createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+			)
+		`);
+		db.run(`INSERT INTO "Product" ("name", "price", "createdAt") VALUES ('legacy', 1, '2024-06-30 08:00:00')`);
+	}
+
+	test("sqlite-text reads and filters CURRENT_TIMESTAMP-style values", async () => {
+		const adapter = new PrismaBunSqlite({
+			url: ":memory:",
+			timestampFormat: "sqlite-text",
+			onConnect: createLegacyTable,
+		});
+		const prisma = new PrismaClient({ adapter });
+
+		try {
+			const created = await prisma.product.create({ data: { name: "new", price: 2, createdAt: DATE } });
+			const legacy = await prisma.product.findFirstOrThrow({ where: { name: "legacy" } });
+			const recent = await prisma.product.findMany({
+				where: { createdAt: { gt: new Date("2024-12-31T00:00:00Z") } },
+			});
+
+			expect(legacy.createdAt).toEqual(new Date("2024-06-30T08:00:00Z"));
+			expect(created.createdAt).toEqual(DATE);
+			expect(recent.map((product) => product.name)).toEqual(["new"]);
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for OpenTelemetry-compatible tracing
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import {
+	PrismaBunSqlite,
+	type BunSqliteAdapter,
+	type SpanAttributeValue,
+	type SpanLike,
+	type TracerLike,
+} from "../src/index";
+import { noArgs } from "./helpers";
+
+/**
+ * In-memory span collector implementing the subset of the OTel API used by the adapter
+ */
+class CollectedSpan implements SpanLike {
+	attributes: Record<string, SpanAttributeValue>;
+	status?: { code: number; message?: string };
+	exceptions: Error[] = [];
+	ended = false;
+
+	constructor(
+		readonly name: string,
+		readonly kind: number | undefined,
+		attributes: Record<string, SpanAttributeValue> | undefined,
+		readonly parent: CollectedSpan | undefined,
+	) {
+		this.attributes = { ...attributes };
+	}
+
+	setAttribute(key: string, value: SpanAttributeValue) {
+		this.attributes[key] = value;
+	}
+
+	setStatus(status: { code: number; message?: string }) {
+		this.status = status;
+	}
+
+	recordException(exception: Error) {
+		this.exceptions.push(exception);
+	}
+
+	end() {
+		this.ended = true;
+	}
+}
+
+class CollectingTracer implements TracerLike {
+	spans: CollectedSpan[] = [];
+
+	startSpan(
+		name: string,
+		options?: { kind?: number; attributes?: Record<string, SpanAttributeValue> },
+		context?: { span: CollectedSpan },
+	): SpanLike {
+		const span = new CollectedSpan(name, options?.kind, options?.attributes, context?.span);
+		this.spans.push(span);
+		return span;
+	}
+
+	named(name: string): CollectedSpan[] {
+		return this.spans.filter((span) => span.name === name);
+	}
+}
+
+describe("Tracing", () => {
+	let tempDbPath: string;
+	let tracer: CollectingTracer;
+	let adapter: BunSqliteAdapter;
+
+	beforeEach(async () => {
+		tempDbPath = `/tmp/test-tracing-${Date.now()}-${Math.random().toString(36).substring(2, 9)}.db`;
+		tracer = new CollectingTracer();
+		adapter = await new PrismaBunSqlite({
+			url: `file:${tempDbPath}`,
+			tracing: { tracer, contextWithSpan: (span) => ({ span }) },
+		}).connect();
+		await adapter.executeScript("CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE NOT NULL)");
+	});
+
+	afterEach(async () => {
+		await adapter.dispose();
+		try {
+			if (existsSync(tempDbPath)) unlinkSync(tempDbPath);
+			if (existsSync(tempDbPath + "-wal")) unlinkSync(tempDbPath + "-wal");
+			if (existsSync(tempDbPath + "-shm")) unlinkSync(tempDbPath + "-shm");
+		} catch {
+			// Ignore cleanup errors
+		}
+	});
+
+	test("statements create client spans with database attributes", async () => {
+		await adapter.executeRaw({ sql: "INSERT INTO users (id, email) VALUES (1, 'a@example.com')", ...noArgs });
+		await adapter.queryRaw({ sql: "SELECT * FROM users", ...noArgs });
+
+		const [script] = tracer.named("sqlite.executeScript");
+		const [insert] = tracer.named("sqlite.executeRaw");
+		const [select] = tracer.named("sqlite.queryRaw");
+
+		expect(script?.ended).toBe(true);
+		expect(insert?.kind).toBe(2); // SpanKind.CLIENT
+		expect(insert?.attributes).toEqual({
+			"db.system": "sqlite",
+			"db.name": tempDbPath,
+			"db.statement": "INSERT INTO users (id, email) VALUES (1, 'a@example.com')",
+			"db.operation": "INSERT",
+			"db.sqlite.rows_affected": 1,
+		});
+		expect(select?.attributes["db.sqlite.rows_returned"]).toBe(1);
+		expect(tracer.spans.every((span) => span.ended && span.parent === undefined)).toBe(true);
+	});
+
+	test("failed statements record the error kind", async () => {
+		await adapter.executeRaw({ sql: "INSERT INTO users (id, email) VALUES (1, 'a@example.com')", ...noArgs });
+		await adapter
+			.executeRaw({ sql: "INSERT INTO users (id, email) VALUES (2, 'a@example.com')", ...noArgs })
+			.catch(() => {});
+
+		const failed = tracer.named("sqlite.executeRaw")[1]!;
+		expect(failed.ended).toBe(true);
+		expect(failed.status).toEqual({ code: 2, message: "UniqueConstraintViolation" });
+		expect(failed.attributes["db.sqlite.error_kind"]).toBe("UniqueConstraintViolation");
+		expect(failed.exceptions).toHaveLength(1);
+	});
+
+	test("transaction spans parent their queries and savepoints", async () => {
+		const tx = await adapter.startTransaction();
+		await tx.executeRaw({ sql: "INSERT INTO users (id, email) VALUES (1, 'a@example.com')", ...noArgs });
+
+		const savepoint = await tx.savepoint("nested");
+		await savepoint.queryRaw({ sql: "SELECT COUNT(*) FROM users", ...noArgs });
+		await savepoint.commit();
+
+		await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+		await tx.commit();
+
+		const [transaction] = tracer.named("sqlite.transaction");
+		const [savepointSpan] = tracer.named("sqlite.savepoint");
+		const [insert] = tracer.named("sqlite.executeRaw");
+		const [count] = tracer.named("sqlite.queryRaw");
+
+		expect(transaction?.attributes).toMatchObject({
+			"db.system": "sqlite",
+			"db.sqlite.transaction.mode": "deferred",
+			"db.sqlite.transaction.outcome": "commit",
+		});
+		expect(transaction?.attributes["db.sqlite.lock_wait_ms"]).toBeGreaterThanOrEqual(0);
+		expect(transaction?.ended).toBe(true);
+
+		expect(insert?.parent).toBe(transaction);
+		expect(savepointSpan?.parent).toBe(transaction);
+		expect(savepointSpan?.attributes["db.sqlite.savepoint"]).toBe("nested");
+		expect(count?.parent).toBe(savepointSpan);
+		expect(savepointSpan?.ended).toBe(true);
+	});
+
+	test("rolled back transactions are marked", async () => {
+		const tx = await adapter.startTransaction();
+		await tx.executeRaw({ sql: "ROLLBACK", ...noArgs });
+		await tx.rollback();
+
+		expect(tracer.named("sqlite.transaction")[0]?.attributes["db.sqlite.transaction.outcome"]).toBe("rollback");
+	});
+
+	test("dbName overrides the URL path", async () => {
+		const named = await new PrismaBunSqlite({
+			url: ":memory:",
+			tracing: { tracer, dbName: "main" },
+		}).connect();
+
+		await named.queryRaw({ sql: "SELECT 1", ...noArgs });
+		expect(tracer.spans.at(-1)?.attributes["db.name"]).toBe("main");
+		await named.dispose();
+	});
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for transaction lock timeouts and abandoned-transaction recovery
+ */
+
+import { describe, expect, test, spyOn } from "bun:test";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { PrismaBunSqlite, type TransactionEvent } from "../src/index";
+import { AsyncMutex, MutexTimeoutError } from "../src/transaction";
+import { createAdapter, noArgs } from "./helpers";
+
+const SCHEMA = "CREATE TABLE items (id INTEGER PRIMARY KEY)";
+
+describe("AsyncMutex timeouts", () => {
+	test("acquire rejects after the timeout and leaves the queue", async () => {
+		const mutex = new AsyncMutex();
+		const release = await mutex.acquire();
+
+		const error = await mutex.acquire(20).catch((e) => e);
+		expect(error).toBeInstanceOf(MutexTimeoutError);
+		expect((error as MutexTimeoutError).timeoutMs).toBe(20);
+
+		// The timed-out waiter must not receive the lock
+		release();
+		const next = await mutex.acquire(20);
+		next();
+	});
+
+	test("acquire resolves if the lock is released in time", async () => {
+		const mutex = new AsyncMutex();
+		const release = await mutex.acquire();
+
+		setTimeout(release, 5);
+		const next = await mutex.acquire(1000);
+		next();
+	});
+});
+
+describe("acquireTimeoutMs", () => {
+	test("startTransaction fails with TooManyConnections while another transaction holds the lock", async () => {
+		const { adapter } = createAdapter(SCHEMA, { acquireTimeoutMs: 30 });
+
+		const tx = await adapter.startTransaction();
+		const error = await adapter.startTransaction().catch((e) => e);
+		expect(error).toBeInstanceOf(DriverAdapterError);
+		expect((error as DriverAdapterError).cause.kind).toBe("TooManyConnections");
+		expect(String((error as any).cause.cause)).toContain("acquireTimeoutMs");
+
+		await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+		await tx.commit();
+
+		// The lock is usable again
+		const next = await adapter.startTransaction();
+		await next.executeRaw({ sql: "COMMIT", ...noArgs });
+		await next.commit();
+		await adapter.dispose();
+	});
+
+	test("waiting transactions proceed when the lock is released in time", async () => {
+		const { adapter } = createAdapter(SCHEMA, { acquireTimeoutMs: 1000 });
+
+		const tx = await adapter.startTransaction();
+		const waiting = adapter.startTransaction();
+		setTimeout(async () => {
+			await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+			await tx.commit();
+		}, 5);
+
+		const next = await waiting;
+		await next.executeRaw({ sql: "COMMIT", ...noArgs });
+		await next.commit();
+		await adapter.dispose();
+	});
+});
+
+describe("maxTransactionDurationMs", () => {
+	test("abandoned transaction is rolled back and the lock released", async () => {
+		const warn = spyOn(console, "warn");
+		try {
+			const transactions: TransactionEvent[] = [];
+			const { adapter } = createAdapter(SCHEMA, {
+				maxTransactionDurationMs: 30,
+				onTransaction: (event) => transactions.push(event),
+			});
+
+			const abandoned = await adapter.startTransaction();
+			await abandoned.executeRaw({ sql: "INSERT INTO items (id) VALUES (1)", ...noArgs });
+
+			// Queued behind the abandoned transaction until it expires
+			const next = await adapter.startTransaction();
+			expect(transactions.map((event) => [event.action, event.expired])).toEqual([
+				["begin", undefined],
+				["rollback", true],
+				["begin", undefined],
+			]);
+			expect(warn).not.toHaveBeenCalled();
+
+			const rows = await next.queryRaw({ sql: "SELECT COUNT(*) FROM items", ...noArgs });
+			expect(rows.rows).toEqual([["0"]]);
+			await next.executeRaw({ sql: "COMMIT", ...noArgs });
+			await next.commit();
+
+			// Late calls on the expired transaction cannot touch the database
+			const error = await abandoned.executeRaw({ sql: "COMMIT", ...noArgs }).catch((e) => e);
+			expect(error).toBeInstanceOf(DriverAdapterError);
+			expect((error as DriverAdapterError).cause.kind).toBe("TransactionAlreadyClosed");
+			expect(String((error as any).cause.cause)).toContain("maxTransactionDurationMs");
+			await abandoned.rollback();
+
+			await adapter.dispose();
+		} finally {
+			warn.mockRestore();
+		}
+	});
+
+	test("expiry closes active savepoints", async () => {
+		const { db, adapter } = createAdapter(SCHEMA, { maxTransactionDurationMs: 20 });
+
+		const tx = await adapter.startTransaction();
+		const savepoint = await tx.savepoint();
+		await Bun.sleep(40);
+
+		expect(db.inTransaction).toBe(false);
+		const error = await savepoint.queryRaw({ sql: "SELECT 1", ...noArgs }).catch((e) => e);
+		expect((error as DriverAdapterError).cause.kind).toBe("TransactionAlreadyClosed");
+
+		await adapter.dispose();
+	});
+
+	test("transactions finishing in time are not affected", async () => {
+		const transactions: TransactionEvent[] = [];
+		const { adapter } = createAdapter(SCHEMA, {
+			maxTransactionDurationMs: 20,
+			onTransaction: (event) => transactions.push(event),
+		});
+
+		const tx = await adapter.startTransaction();
+		await tx.executeRaw({ sql: "INSERT INTO items (id) VALUES (1)", ...noArgs });
+		await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+		await tx.commit();
+		await Bun.sleep(40);
+
+		expect(transactions.map((event) => event.action)).toEqual(["begin", "commit"]);
+		const rows = await adapter.queryRaw({ sql: "SELECT COUNT(*) FROM items", ...noArgs });
+		expect(rows.rows).toEqual([["1"]]);
+		await adapter.dispose();
+	});
+});
+
+describe("timeout option validation", () => {
+	test("rejects invalid values", () => {
+		expect(() => new PrismaBunSqlite({ url: ":memory:", acquireTimeoutMs: -1 })).toThrow(/acquireTimeoutMs/);
+		expect(() => new PrismaBunSqlite({ url: ":memory:", maxTransactionDurationMs: 1.5 })).toThrow(
+			/maxTransactionDurationMs/,
+		);
+	});
+});
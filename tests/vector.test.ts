@@ -0,0 +1,254 @@
+/**
+ * Tests for vector columns and nearest neighbor search
+ */
+
+import { describe, expect, test } from "bun:test";
+import { ColumnTypeEnum } from "@prisma/driver-adapter-utils";
+import { PrismaClient } from "@/prisma-generated/client";
+import {
+	PrismaBunSqlite,
+	decodeVector,
+	encodeVector,
+	findNearestNeighbors,
+	vectorCodec,
+	type PrismaBunSqliteOptions,
+} from "../src/index";
+import { mapDeclType } from "../src/conversion";
+import { noArgs } from "./helpers";
+
+const floatListArg = { scalarType: "float" as const, arity: "list" as const };
+const bytesArg = { scalarType: "bytes" as const, arity: "scalar" as const };
+
+const DOCUMENTS = [
+	{ id: 1, title: "north", embedding: [0, 1, 0] },
+	{ id: 2, title: "east", embedding: [1, 0, 0] },
+	{ id: 3, title: "north-east", embedding: [0.5, 0.5, 0] },
+	{ id: 4, title: "far north", embedding: [0, 4, 0] },
+];
+
+function createClient(options: PrismaBunSqliteOptions = {}) {
+	const adapter = new PrismaBunSqlite({
+		url: ":memory:",
+		...options,
+		onConnect: (db) => {
+			db.run("CREATE TABLE documents (id INTEGER PRIMARY KEY, title TEXT, embedding F32_BLOB(3), tags I8_BLOB(2))");
+			const insert = db.prepare("INSERT INTO documents (id, title, embedding, tags) VALUES (?, ?, ?, ?)");
+			for (const { id, title, embedding } of DOCUMENTS) {
+				insert.run(id, title, encodeVector(embedding), encodeVector([id, -id], "int8"));
+			}
+			db.run("INSERT INTO documents (id, title) VALUES (5, 'no embedding')");
+		},
+	});
+	return new PrismaClient({ adapter });
+}
+
+describe("vector encoding", () => {
+	test("encodes and decodes float32 and int8 vectors", () => {
+		const bytes = encodeVector([1, -2.5, 0.25]);
+
+		expect(Buffer.from(bytes).toString("hex")).toBe("0000803f000020c00000803e");
+		expect(decodeVector(bytes)).toEqual(new Float32Array([1, -2.5, 0.25]));
+		expect(decodeVector(encodeVector([-128, 0, 127], "int8"), "int8")).toEqual(new Int8Array([-128, 0, 127]));
+	});
+
+	test("typed arrays are not copied, unaligned blobs are", () => {
+		const vector = new Float32Array([1, 2]);
+		const unaligned = new Uint8Array(9).subarray(1);
+		unaligned.set(encodeVector([3, 4]));
+
+		expect(encodeVector(vector).buffer).toBe(vector.buffer);
+		expect(decodeVector(unaligned)).toEqual(new Float32Array([3, 4]));
+	});
+
+	test("rejects malformed vectors", () => {
+		expect(() => encodeVector([1.5], "int8")).toThrow("Invalid int8 vector element at index 0: 1.5");
+		expect(() => encodeVector([128], "int8")).toThrow("Invalid int8 vector element");
+		expect(() => decodeVector(new Uint8Array(6))).toThrow("6 bytes is not a multiple of 4");
+	});
+
+	test("vector declared types are Bytes", () => {
+		expect(mapDeclType("F32_BLOB(384)")).toBe(ColumnTypeEnum.Bytes);
+		expect(mapDeclType("vector(384)")).toBe(ColumnTypeEnum.Bytes);
+		expect(mapDeclType("I8_BLOB(16)")).toBe(ColumnTypeEnum.Bytes);
+	});
+});
+
+describe("vectorCodec", () => {
+	test("binds number arrays and typed arrays, and reads number arrays", async () => {
+		const adapter = await new PrismaBunSqlite({
+			url: ":memory:",
+			codecs: { F32_BLOB: vectorCodec("float32"), I8_BLOB: vectorCodec("int8") },
+		}).connect();
+		await adapter.executeScript("CREATE TABLE items (id INTEGER PRIMARY KEY, embedding F32_BLOB(2), tags I8_BLOB(2))");
+
+		await adapter.executeRaw({
+			sql: "INSERT INTO items (id, embedding, tags) VALUES (1, ?, ?), (2, ?, ?)",
+			args: [[0.5, -1], [1, -1], new Float32Array([2, 3]), new Int8Array([4, 5])],
+			argTypes: [floatListArg, floatListArg, bytesArg, bytesArg],
+		});
+		const stored = await adapter.queryRaw({ sql: "SELECT hex(embedding), hex(tags) FROM items", ...noArgs });
+		const result = await adapter.queryRaw({ sql: "SELECT embedding, tags FROM items ORDER BY id", ...noArgs });
+
+		expect(stored.rows[0]).toEqual(["0000003F000080BF", "01FF"]);
+		expect(result.columnTypes).toEqual([ColumnTypeEnum.DoubleArray, ColumnTypeEnum.Int32Array]);
+		expect(result.rows).toEqual([
+			[
+				[0.5, -1],
+				[1, -1],
+			],
+			[
+				[2, 3],
+				[4, 5],
+			],
+		]);
+
+		await adapter.dispose();
+	});
+
+	test("$queryRaw returns decoded vectors", async () => {
+		const prisma = createClient({ codecs: { F32_BLOB: vectorCodec() } });
+
+		try {
+			await prisma.$executeRaw`UPDATE documents SET embedding = ${new Float32Array([9, 9, 9])} WHERE id = 1`;
+			const rows = await prisma.$queryRaw<{ embedding: number[] }[]>`
+				SELECT embedding FROM documents WHERE id IN (1, 2) ORDER BY id
+			`;
+
+			expect(rows).toEqual([{ embedding: [9, 9, 9] }, { embedding: [1, 0, 0] }]);
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+});
+
+describe("findNearestNeighbors", () => {
+	test("finds the closest rows without sqlite-vec", async () => {
+		const prisma = createClient();
+
+		try {
+			const l2 = await findNearestNeighbors<{ id: number; title: string }>(prisma, {
+				table: "documents",
+				column: "embedding",
+				vector: [0, 0.9, 0],
+				k: 2,
+				select: ["id", "title"],
+			});
+			const cosine = await findNearestNeighbors(prisma, {
+				table: "documents",
+				column: "embedding",
+				vector: new Float32Array([0, 1, 0]),
+				k: 3,
+				metric: "cosine",
+				select: ["title"],
+			});
+
+			expect(l2.map(({ row }) => row)).toEqual([
+				{ id: 1, title: "north" },
+				{ id: 3, title: "north-east" },
+			]);
+			expect(l2[0]!.vector).toEqual(new Float32Array([0, 1, 0]));
+			expect(l2[0]!.distance).toBeCloseTo(0.1, 6);
+			expect(cosine.map(({ row }) => row.title)).toEqual(["north", "far north", "north-east"]);
+			expect(cosine.map(({ distance }) => distance)).toEqual([0, 0, expect.closeTo(1 - Math.SQRT1_2, 6)]);
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+
+	test("searches int8 vectors and works with bytesOutput and codecs", async () => {
+		const prisma = createClient({ bytesOutput: "uint8array", codecs: { I8_BLOB: vectorCodec("int8") } });
+
+		try {
+			const [nearest] = await findNearestNeighbors(prisma, {
+				table: "documents",
+				column: "tags",
+				vector: [3, -3],
+				k: 1,
+				type: "int8",
+			});
+
+			expect(nearest).toEqual({ row: {}, vector: new Int8Array([3, -3]), distance: 0 });
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+
+	test("uses sqlite-vec distance functions when the extension is loaded", async () => {
+		const queries: { sql: string; values: unknown[] }[] = [];
+		const client = {
+			async $queryRawUnsafe<T>(sql: string, ...values: unknown[]): Promise<T> {
+				queries.push({ sql, values });
+				const rows = sql.includes("vec_version") ? [{}] : [{ id: 1, __vector: "0000803F", __distance: 0.5 }];
+				return rows as T;
+			},
+		};
+
+		const neighbors = await findNearestNeighbors(client, {
+			table: "documents",
+			column: "tags",
+			vector: [1],
+			k: 3,
+			type: "int8",
+			metric: "cosine",
+			select: ["id"],
+		});
+		await findNearestNeighbors(client, { table: "documents", column: "embedding", vector: [1], k: 1 });
+
+		expect(queries.map(({ sql }) => sql)).toEqual([
+			"SELECT vec_version()",
+			'SELECT "id", hex("tags") AS __vector, vec_distance_cosine(vec_int8("tags"), vec_int8(?)) AS __distance ' +
+				'FROM "documents" WHERE "tags" IS NOT NULL ORDER BY __distance LIMIT ?',
+			'SELECT hex("embedding") AS __vector, vec_distance_l2("embedding", ?) AS __distance ' +
+				'FROM "documents" WHERE "embedding" IS NOT NULL ORDER BY __distance LIMIT ?',
+		]);
+		expect(queries[1]!.values).toEqual([new Uint8Array([1]), 3]);
+		expect(neighbors).toEqual([{ row: { id: 1 }, vector: new Int8Array([0, 0, -128, 63]), distance: 0.5 }]);
+	});
+
+	test("rejects invalid searches", async () => {
+		const prisma = createClient();
+		const search = { table: "documents", column: "embedding", vector: [1, 0, 0], k: 1 };
+
+		try {
+			await expect(findNearestNeighbors(prisma, { ...search, k: 0 })).rejects.toThrow("Invalid k: 0");
+			await expect(findNearestNeighbors(prisma, { ...search, metric: "dot" as any })).rejects.toThrow(
+				'Invalid metric: "dot"',
+			);
+			await expect(findNearestNeighbors(prisma, { ...search, vector: [1, 0] })).rejects.toThrow(
+				"Vector dimension mismatch: expected 2 elements, got 3",
+			);
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+});
+
+describe("vectors in Bytes fields", () => {
+	test("round-trip through model queries", async () => {
+		const adapter = new PrismaBunSqlite({
+			url: ":memory:",
+			onConnect: (db) => {
+				db.run(`
+					CREATE TABLE "Profile" (
+						"id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+						"bio" TEXT NOT NULL,
+						"avatar" F32_BLOB(3),
+						"website" TEXT,
+						"userId" INTEGER NOT NULL,
+						"createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+					)
+				`);
+			},
+		});
+		const prisma = new PrismaClient({ adapter });
+
+		try {
+			await prisma.profile.create({ data: { bio: "vector", userId: 1, avatar: encodeVector([1, 2.5, -3]) } });
+			const profile = await prisma.profile.findFirstOrThrow();
+
+			expect(decodeVector(profile.avatar!)).toEqual(new Float32Array([1, 2.5, -3]));
+		} finally {
+			await prisma.$disconnect();
+		}
+	});
+});
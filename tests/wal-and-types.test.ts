@@ -1,6 +1,9 @@
 import { describe, expect, test, beforeEach, afterEach } from "bun:test";
-import { PrismaBunSqlite } from "../src/index";
+import { Database } from "bun:sqlite";
+import { DriverAdapterError } from "@prisma/driver-adapter-utils";
+import { PrismaBunSqlite, type TransactionMode } from "../src/index";
 import { existsSync, unlinkSync } from "node:fs";
+import { resolve } from "node:path";
 
 describe("WAL Configuration", () => {
 	let tempDbPath: string;
@@ -230,6 +233,293 @@ describe("WAL Configuration", () => {
 	});
 });
 
+/**
+ * Read-modify-write loop run in a separate process.
+ * The sleep between the read and the write widens the window in which another
+ * process can commit, which is where deferred transactions fail to upgrade.
+ * With READONLY=1 the loop only reads, on a read-only connection.
+ */
+const COUNTER_WORKER = `
+const { PrismaBunSqlite } = await import(process.env.ADAPTER_PATH);
+const readonly = process.env.READONLY === "1";
+const adapter = await new PrismaBunSqlite({
+	url: "file:" + process.env.DB_PATH + "?busy_timeout=20000",
+	wal: true,
+	readonly,
+	transactionMode: process.env.TRANSACTION_MODE || undefined,
+}).connect();
+
+const noArgs = { args: [], argTypes: [] };
+const errors = [];
+const values = [];
+for (let i = 0; i < Number(process.env.ITERATIONS); i++) {
+	const tx = await adapter.startTransaction();
+	try {
+		const result = await tx.queryRaw({ sql: "SELECT value FROM counter WHERE id = 1", ...noArgs });
+		const value = Number(result.rows[0][0]);
+		values.push(value);
+		await Bun.sleep(1);
+		if (!readonly) {
+			await tx.executeRaw({ sql: "UPDATE counter SET value = " + (value + 1) + " WHERE id = 1", ...noArgs });
+		}
+		await tx.executeRaw({ sql: "COMMIT", ...noArgs });
+		await tx.commit();
+	} catch (error) {
+		errors.push(String(error?.cause?.originalCode ?? error));
+		try { await tx.executeRaw({ sql: "ROLLBACK", ...noArgs }); } catch {}
+		await tx.rollback();
+	}
+}
+await adapter.dispose();
+console.log(JSON.stringify({ errors, values }));
+`;
+
+describe("Transaction Modes", () => {
+	let tempDbPath: string;
+
+	beforeEach(() => {
+		tempDbPath = `/tmp/test-txmode-${Date.now()}-${Math.random().toString(36).substring(2, 9)}.db`;
+
+		const setup = new Database(tempDbPath);
+		setup.run("PRAGMA journal_mode = WAL");
+		setup.run("CREATE TABLE counter (id INTEGER PRIMARY KEY, value INTEGER NOT NULL)");
+		setup.run("INSERT INTO counter (id, value) VALUES (1, 0)");
+		setup.close();
+	});
+
+	afterEach(() => {
+		try {
+			if (existsSync(tempDbPath)) unlinkSync(tempDbPath);
+			if (existsSync(tempDbPath + "-wal")) unlinkSync(tempDbPath + "-wal");
+			if (existsSync(tempDbPath + "-shm")) unlinkSync(tempDbPath + "-shm");
+		} catch {
+			// Ignore cleanup errors
+		}
+	});
+
+	/**
+	 * Returns true if another connection can currently take the write lock
+	 */
+	function canWrite(): boolean {
+		const other = new Database(tempDbPath);
+		try {
+			other.run("PRAGMA busy_timeout = 0");
+			other.run("BEGIN IMMEDIATE");
+			other.run("ROLLBACK");
+			return true;
+		} catch {
+			return false;
+		} finally {
+			other.close();
+		}
+	}
+
+	test("defaults to deferred: BEGIN takes no lock", async () => {
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, wal: true }).connect();
+
+		const tx = await adapter.startTransaction();
+		expect(canWrite()).toBe(true);
+
+		await tx.executeRaw({ sql: "ROLLBACK", args: [], argTypes: [] });
+		await tx.rollback();
+		await adapter.dispose();
+	});
+
+	for (const mode of ["immediate", "exclusive"] as const) {
+		test(`transactionMode: "${mode}" takes the write lock at BEGIN`, async () => {
+			const adapter = await new PrismaBunSqlite({
+				url: `file:${tempDbPath}`,
+				wal: true,
+				transactionMode: mode,
+			}).connect();
+
+			const tx = await adapter.startTransaction();
+			expect(canWrite()).toBe(false);
+
+			await tx.executeRaw({ sql: "ROLLBACK", args: [], argTypes: [] });
+			await tx.rollback();
+			expect(canWrite()).toBe(true);
+			await adapter.dispose();
+		});
+	}
+
+	test("mode can be overridden per transaction", async () => {
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, wal: true }).connect();
+
+		const tx = await adapter.startTransaction(undefined, { mode: "immediate" });
+		expect(canWrite()).toBe(false);
+		await tx.executeRaw({ sql: "COMMIT", args: [], argTypes: [] });
+		await tx.commit();
+
+		// Back to the adapter default
+		const next = await adapter.startTransaction();
+		expect(canWrite()).toBe(true);
+		await next.executeRaw({ sql: "COMMIT", args: [], argTypes: [] });
+		await next.commit();
+
+		await adapter.dispose();
+	});
+
+	test("deferred read-then-write fails to upgrade after a concurrent commit", async () => {
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, wal: true }).connect();
+		const other = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, wal: true }).connect();
+
+		const tx = await adapter.startTransaction();
+		await tx.queryRaw({ sql: "SELECT value FROM counter WHERE id = 1", args: [], argTypes: [] });
+
+		await other.executeRaw({ sql: "UPDATE counter SET value = value + 1", args: [], argTypes: [] });
+
+		// The busy timeout does not help: the snapshot is stale, not just locked
+		const error = await tx
+			.executeRaw({ sql: "UPDATE counter SET value = value + 1", args: [], argTypes: [] })
+			.catch((e) => e);
+		expect(error).toBeInstanceOf(DriverAdapterError);
+		expect((error as DriverAdapterError).cause.kind).toBe("SocketTimeout");
+		expect((error as any).cause.originalCode).toBe("SQLITE_BUSY_SNAPSHOT");
+
+		await tx.executeRaw({ sql: "ROLLBACK", args: [], argTypes: [] });
+		await tx.rollback();
+		await other.dispose();
+		await adapter.dispose();
+	});
+
+	type WorkerOutput = { errors: string[]; values: number[] };
+
+	/**
+	 * Run COUNTER_WORKER processes side by side and return their outputs
+	 */
+	async function runCounterWorkers(
+		workers: { mode?: TransactionMode; readonly?: boolean }[],
+		iterations: number,
+	): Promise<WorkerOutput[]> {
+		const processes = workers.map(({ mode, readonly }) =>
+			Bun.spawn([process.execPath, "-e", COUNTER_WORKER], {
+				env: {
+					...process.env,
+					ADAPTER_PATH: resolve(import.meta.dir, "../src/index.ts"),
+					DB_PATH: tempDbPath,
+					TRANSACTION_MODE: mode ?? "",
+					READONLY: readonly ? "1" : "0",
+					ITERATIONS: String(iterations),
+				},
+				stdout: "pipe",
+				stderr: "pipe",
+			}),
+		);
+
+		return Promise.all(
+			processes.map(async (proc) => {
+				const [stdout, stderr, exitCode] = await Promise.all([
+					new Response(proc.stdout).text(),
+					new Response(proc.stderr).text(),
+					proc.exited,
+				]);
+				expect(stderr).toBe("");
+				expect(exitCode).toBe(0);
+				return JSON.parse(stdout) as WorkerOutput;
+			}),
+		);
+	}
+
+	function counterValue(): number {
+		const check = new Database(tempDbPath, { readonly: true });
+		try {
+			return (check.query("SELECT value FROM counter WHERE id = 1").get() as { value: number }).value;
+		} finally {
+			check.close();
+		}
+	}
+
+	for (const mode of ["immediate", "exclusive"] as const satisfies readonly TransactionMode[]) {
+		test(`concurrent writer processes do not hit lock upgrade failures with "${mode}"`, async () => {
+			const workers = 3;
+			const iterations = 20;
+
+			const outputs = await runCounterWorkers(Array.from({ length: workers }, () => ({ mode })), iterations);
+
+			expect(outputs.flatMap((output) => output.errors)).toEqual([]);
+			expect(counterValue()).toBe(workers * iterations);
+		}, 60000);
+	}
+
+	test(`concurrent writer processes with "deferred" only fail to upgrade, never lose updates`, async () => {
+		const workers = 3;
+		const iterations = 20;
+
+		const outputs = await runCounterWorkers(
+			Array.from({ length: workers }, () => ({ mode: "deferred" as const })),
+			iterations,
+		);
+		const errors = outputs.flatMap((output) => output.errors);
+
+		// Whether a given run hits a failed upgrade depends on timing, but every failure is one
+		for (const error of errors) {
+			expect(error).toMatch(/^SQLITE_BUSY/);
+		}
+		expect(counterValue()).toBe(workers * iterations - errors.length);
+	}, 60000);
+
+	test("read-only processes read alongside writer processes", async () => {
+		const iterations = 20;
+
+		const outputs = await runCounterWorkers(
+			[{ mode: "immediate" }, { mode: "immediate" }, { readonly: true }, { readonly: true }],
+			iterations,
+		);
+
+		expect(outputs.flatMap((output) => output.errors)).toEqual([]);
+		for (const { values } of outputs.slice(2)) {
+			expect(values).toHaveLength(iterations);
+			// Each read sees a committed snapshot, never going back in time
+			expect(values).toEqual([...values].sort((a, b) => a - b));
+		}
+		expect(counterValue()).toBe(2 * iterations);
+	}, 60000);
+
+	test("read-only connections use deferred and reject other modes per transaction", async () => {
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}`, readonly: true }).connect();
+
+		for (const mode of ["immediate", "exclusive"] as const) {
+			const error = await adapter.startTransaction(undefined, { mode }).catch((e) => e);
+			expect(error).toBeInstanceOf(DriverAdapterError);
+			expect((error as DriverAdapterError).cause).toMatchObject({
+				kind: "GenericJs",
+				originalMessage: expect.stringContaining(`Transaction mode "${mode}" cannot be used with a read-only`),
+			});
+		}
+
+		// The mutex was not taken
+		const tx = await adapter.startTransaction(undefined, { mode: "deferred" });
+		expect(canWrite()).toBe(true);
+
+		await tx.executeRaw({ sql: "ROLLBACK", args: [], argTypes: [] });
+		await tx.rollback();
+		await adapter.dispose();
+	});
+
+	test("rejects invalid modes", async () => {
+		expect(
+			() => new PrismaBunSqlite({ url: `file:${tempDbPath}`, transactionMode: "eager" as TransactionMode }),
+		).toThrow(/Invalid transactionMode/);
+		expect(
+			() => new PrismaBunSqlite({ url: `file:${tempDbPath}`, readonly: true, transactionMode: "immediate" }),
+		).toThrow(/read-only/);
+		expect(() => new PrismaBunSqlite({ url: `file:${tempDbPath}?mode=ro`, transactionMode: "exclusive" })).toThrow(
+			/read-only/,
+		);
+
+		const adapter = await new PrismaBunSqlite({ url: `file:${tempDbPath}` }).connect();
+		await expect(adapter.startTransaction(undefined, { mode: "eager" as TransactionMode })).rejects.toThrow(
+			DriverAdapterError,
+		);
+		// The mutex was not taken
+		const tx = await adapter.startTransaction();
+		await tx.executeRaw({ sql: "ROLLBACK", args: [], argTypes: [] });
+		await tx.rollback();
+		await adapter.dispose();
+	});
+});
+
 describe("UNSIGNED Integer Type Support", () => {
 	let factory: PrismaBunSqlite;
 